@@ -0,0 +1,339 @@
+import {DateTime, Weekday} from "./DateTime.js";
+import {BusinessCalendarError} from "./BusinessCalendarError.js";
+import {HolidayRule, HolidaySubstitution} from "./HolidayRule.js";
+import {TimeZone} from "./TimeZone.js";
+
+/** A holiday observed in a BusinessCalendar. */
+export interface Holiday
+{
+    /** The name of the holiday. */
+    name: string;
+
+    /** The start of the day on which the holiday falls. */
+    date: DateTime;
+
+    /** The start of the day on which the holiday is observed, after any substitution. */
+    observed: DateTime;
+}
+
+/**
+ * A calendar of business days, defined by the days of the week that are weekend days and a set of holiday rules.
+ *
+ * Business days are whole local dates: a DateTime is on a business day if its date, in its own TimeZone, is neither a
+ * weekend day nor a day on which a holiday is observed. Methods that move between business days preserve the local
+ * time of day. Instances are immutable.
+ */
+export class BusinessCalendar
+{
+    /** The number of ms in a day. */
+    private static readonly MsPerDay = 86400000;
+
+    /** The holiday rules. */
+    private readonly m_holidayRules: HolidayRule[];
+
+    /** The weekend days. */
+    private readonly m_weekend: Weekday[];
+
+    /** The observed holidays for each year that has been computed, keyed by local day number. */
+    private readonly m_holidays: Map<number, Map<number, Holiday>> = new Map<number, Map<number, Holiday>>();
+
+    /**
+     * Initialise a new BusinessCalendar.
+     *
+     * @param holidayRules The holiday rules. When holidays are substituted onto the same day, the earlier rule takes the
+     * day.
+     * @param weekend The weekend days. Defaults to Saturday and Sunday.
+     *
+     * @throws BusinessCalendarError if every day of the week is a weekend day.
+     */
+    public constructor(holidayRules: HolidayRule[] = [], weekend: Weekday[] = [Weekday.Saturday, Weekday.Sunday])
+    {
+        if (7 <= weekend.filter((weekday, idx) => idx === weekend.indexOf(weekday)).length) {
+            throw new BusinessCalendarError("Expected at least one day of the week not to be a weekend day.");
+        }
+
+        this.m_holidayRules = [...holidayRules];
+        this.m_weekend = [...weekend];
+    }
+
+    /** The holiday rules. */
+    public get holidayRules(): HolidayRule[]
+    {
+        return [...this.m_holidayRules];
+    }
+
+    /** The weekend days. */
+    public get weekend(): Weekday[]
+    {
+        return [...this.m_weekend];
+    }
+
+    /**
+     * Fetch the holidays observed in a year.
+     *
+     * A holiday that falls in one year can be observed in another, e.g. a New Year's Day that falls on a Saturday and is
+     * observed on the Friday before. It is included in the year in which it is observed.
+     *
+     * @param year The year.
+     * @param timeZone The TimeZone for the dates of the holidays. Defaults to UTC.
+     *
+     * @return The holidays, in the order they are observed.
+     */
+    public holidays(year: number, timeZone: TimeZone = TimeZone.utc): Holiday[]
+    {
+        const holidays = [...this.holidaysIn(year).values()].sort((lhs, rhs) => lhs.observed.timestamp - rhs.observed.timestamp);
+
+        return holidays.map((holiday) => ({
+            name: holiday.name,
+            date: DateTime.fromDateTime(holiday.date.year, holiday.date.month, holiday.date.day, 0, 0, 0, 0, timeZone),
+            observed: DateTime.fromDateTime(holiday.observed.year, holiday.observed.month, holiday.observed.day, 0, 0, 0, 0, timeZone),
+        }));
+    }
+
+    /**
+     * Fetch the name of the holiday observed on the date of a DateTime.
+     *
+     * @param dateTime The DateTime.
+     *
+     * @return The name of the holiday, or `undefined` if no holiday is observed on the date.
+     */
+    public holiday(dateTime: DateTime): string|undefined
+    {
+        return this.holidaysIn(dateTime.year).get(BusinessCalendar.dayNumber(dateTime))?.name;
+    }
+
+    /** Determine whether a DateTime is on a weekend day. */
+    public isWeekend(dateTime: DateTime): boolean
+    {
+        return 0 <= this.m_weekend.indexOf(dateTime.weekday);
+    }
+
+    /** Determine whether a DateTime is on a business day. */
+    public isBusinessDay(dateTime: DateTime): boolean
+    {
+        return !this.isWeekend(dateTime) && undefined === this.holiday(dateTime);
+    }
+
+    /**
+     * Find the first business day after the date of a DateTime.
+     *
+     * @param dateTime The DateTime.
+     *
+     * @return The DateTime moved to the business day, with the same local time.
+     */
+    public nextBusinessDay(dateTime: DateTime): DateTime
+    {
+        return this.addBusinessDays(dateTime, 1);
+    }
+
+    /**
+     * Find the last business day before the date of a DateTime.
+     *
+     * @param dateTime The DateTime.
+     *
+     * @return The DateTime moved to the business day, with the same local time.
+     */
+    public previousBusinessDay(dateTime: DateTime): DateTime
+    {
+        return this.addBusinessDays(dateTime, -1);
+    }
+
+    /**
+     * Add a number of business days to a DateTime.
+     *
+     * Each business day added moves the DateTime to the next business day, so adding one business day to a Saturday
+     * gives the following Monday (with the default weekend and no holidays).
+     *
+     * @param dateTime The DateTime.
+     * @param days The number of business days. Negative numbers move to earlier business days.
+     *
+     * @return The DateTime moved to the business day, with the same local time.
+     *
+     * @throws BusinessCalendarError if the number of days is not an integer.
+     */
+    public addBusinessDays(dateTime: DateTime, days: number): DateTime
+    {
+        if (!Number.isInteger(days)) {
+            throw new BusinessCalendarError(`Expected integer number of business days, found ${days}.`);
+        }
+
+        const step = (0 > days ? -1 : 1);
+        let dayNumber = BusinessCalendar.dayNumber(dateTime);
+
+        while (0 !== days) {
+            dayNumber += step;
+
+            if (this.isBusinessDayNumber(dayNumber)) {
+                days -= step;
+            }
+        }
+
+        const date = new Date(dayNumber * BusinessCalendar.MsPerDay);
+        return dateTime.withDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+    }
+
+    /**
+     * Count the business days between two DateTimes.
+     *
+     * The count includes the date of the start, if it is a business day, but not the date of the end, so the count
+     * between a Monday and the following Monday is 5 (with the default weekend and no holidays). The end is considered
+     * in the TimeZone of the start.
+     *
+     * @param start The start.
+     * @param end The end.
+     *
+     * @return The number of business days; negative if the end is before the start.
+     */
+    public businessDaysBetween(start: DateTime, end: DateTime): number
+    {
+        let from = BusinessCalendar.dayNumber(start);
+        let to = BusinessCalendar.dayNumber(end.withTimeZone(start.timeZone));
+        const sign = (to < from ? -1 : 1);
+
+        if (to < from) {
+            [from, to] = [to, from];
+        }
+
+        let count = 0;
+
+        for (let dayNumber = from; dayNumber < to; ++dayNumber) {
+            if (this.isBusinessDayNumber(dayNumber)) {
+                ++count;
+            }
+        }
+
+        return sign * count;
+    }
+
+    /** Helper to determine whether a local day number is a business day. */
+    private isBusinessDayNumber(dayNumber: number): boolean
+    {
+        const date = new Date(dayNumber * BusinessCalendar.MsPerDay);
+        return 0 > this.m_weekend.indexOf(date.getUTCDay()) && !this.holidaysIn(date.getUTCFullYear()).has(dayNumber);
+    }
+
+    /**
+     * Helper to fetch the holidays observed in a year, keyed by local day number.
+     *
+     * The dates are DateTimes in UTC. Holidays that fall on business days are observed on their dates; holidays that fall
+     * on weekend days are then substituted, in rule order, onto days that are neither weekend days nor already taken by
+     * another holiday. The neighbouring years are included so that substitutions across the turn of the year are found.
+     */
+    private holidaysIn(year: number): Map<number, Holiday>
+    {
+        let holidays = this.m_holidays.get(year);
+
+        if (holidays) {
+            return holidays;
+        }
+
+        const isWeekend = (dayNumber: number) => 0 <= this.m_weekend.indexOf(new Date(dayNumber * BusinessCalendar.MsPerDay).getUTCDay());
+        const observed = new Map<number, Holiday>();
+        const substitutions: [HolidayRule, DateTime, number][] = [];
+
+        for (let ruleYear = year - 1; ruleYear <= year + 1; ++ruleYear) {
+            for (const rule of this.m_holidayRules) {
+                const date = rule.date(ruleYear);
+
+                if (undefined === date) {
+                    continue;
+                }
+
+                const dateTime = DateTime.fromDateTime(ruleYear, date[0], date[1], 0, 0, 0);
+                const dayNumber = BusinessCalendar.dayNumber(dateTime);
+
+                if (isWeekend(dayNumber) && HolidaySubstitution.None !== rule.substitution) {
+                    substitutions.push([rule, dateTime, dayNumber]);
+                } else if (!observed.has(dayNumber)) {
+                    observed.set(dayNumber, {name: rule.name, date: dateTime, observed: dateTime});
+                }
+            }
+        }
+
+        const isFree = (dayNumber: number) => !isWeekend(dayNumber) && !observed.has(dayNumber);
+
+        for (const [rule, date, dayNumber] of substitutions) {
+            let substitute = dayNumber + 1;
+
+            if (HolidaySubstitution.Nearest === rule.substitution) {
+                for (let distance = 1; ; ++distance) {
+                    if (isFree(dayNumber - distance)) {
+                        substitute = dayNumber - distance;
+                        break;
+                    }
+
+                    if (isFree(dayNumber + distance)) {
+                        substitute = dayNumber + distance;
+                        break;
+                    }
+                }
+            } else {
+                while (!isFree(substitute)) {
+                    ++substitute;
+                }
+            }
+
+            observed.set(substitute, {name: rule.name, date: date, observed: DateTime.fromTimestamp(substitute * BusinessCalendar.MsPerDay)});
+        }
+
+        holidays = new Map<number, Holiday>();
+
+        for (const [dayNumber, holiday] of observed) {
+            if (holiday.observed.year === year) {
+                holidays.set(dayNumber, holiday);
+            }
+        }
+
+        this.m_holidays.set(year, holidays);
+        return holidays;
+    }
+
+    /** Helper to compute the number of days between 1970-01-01 and the local date of a DateTime. */
+    private static dayNumber(dateTime: DateTime): number
+    {
+        return DateTime.utcDate(dateTime.year, dateTime.month, dateTime.day).getTime() / BusinessCalendar.MsPerDay;
+    }
+
+    /**
+     * Create a calendar of US federal holidays, with Saturday and Sunday as the weekend.
+     *
+     * Holidays that fall on a Saturday are observed on the Friday before, and those that fall on a Sunday on the Monday
+     * after.
+     */
+    public static usFederal(): BusinessCalendar
+    {
+        return new BusinessCalendar([
+            HolidayRule.fixed("New Year's Day", 1, 1, HolidaySubstitution.Nearest),
+            HolidayRule.nthWeekday("Birthday of Martin Luther King, Jr.", 1, Weekday.Monday, 3).withYears(1986),
+            HolidayRule.nthWeekday("Washington's Birthday", 2, Weekday.Monday, 3),
+            HolidayRule.nthWeekday("Memorial Day", 5, Weekday.Monday, -1),
+            HolidayRule.fixed("Juneteenth National Independence Day", 6, 19, HolidaySubstitution.Nearest).withYears(2021),
+            HolidayRule.fixed("Independence Day", 7, 4, HolidaySubstitution.Nearest),
+            HolidayRule.nthWeekday("Labor Day", 9, Weekday.Monday, 1),
+            HolidayRule.nthWeekday("Columbus Day", 10, Weekday.Monday, 2),
+            HolidayRule.fixed("Veterans Day", 11, 11, HolidaySubstitution.Nearest),
+            HolidayRule.nthWeekday("Thanksgiving Day", 11, Weekday.Thursday, 4),
+            HolidayRule.fixed("Christmas Day", 12, 25, HolidaySubstitution.Nearest),
+        ]);
+    }
+
+    /**
+     * Create a calendar of UK bank holidays in England and Wales, with Saturday and Sunday as the weekend.
+     *
+     * Holidays that fall on a weekend are observed on the next business day. One-off bank holidays and moved holidays
+     * declared by proclamation (e.g. for jubilees) are not included.
+     */
+    public static ukBankHolidays(): BusinessCalendar
+    {
+        return new BusinessCalendar([
+            HolidayRule.fixed("New Year's Day", 1, 1, HolidaySubstitution.Following),
+            HolidayRule.easter("Good Friday", -2),
+            HolidayRule.easter("Easter Monday", 1),
+            HolidayRule.nthWeekday("Early May bank holiday", 5, Weekday.Monday, 1),
+            HolidayRule.nthWeekday("Spring bank holiday", 5, Weekday.Monday, -1),
+            HolidayRule.nthWeekday("Summer bank holiday", 8, Weekday.Monday, -1),
+            HolidayRule.fixed("Christmas Day", 12, 25, HolidaySubstitution.Following),
+            HolidayRule.fixed("Boxing Day", 12, 26, HolidaySubstitution.Following),
+        ]);
+    }
+}
@@ -0,0 +1,3 @@
+/** Custom Error class thrown by BusinessCalendar and HolidayRule instances. */
+export class BusinessCalendarError extends Error
+{}
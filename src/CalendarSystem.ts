@@ -0,0 +1,212 @@
+import {DateTime, Disambiguation} from "./DateTime.js";
+import {DateTimeError} from "./DateTimeError.js";
+import {TimeZone} from "./TimeZone.js";
+
+/**
+ * A calendar system for reading and writing historical dates: the proleptic Gregorian calendar, the proleptic Julian
+ * calendar, or a hybrid that switches from the Julian to the Gregorian calendar at a cutover date.
+ *
+ * DateTime always uses the proleptic Gregorian calendar. Use a CalendarSystem to create DateTimes from dates in another
+ * calendar, and to read their dates in that calendar. Dates are converted via the Julian Day Number (JDN), the number of
+ * days since 1 January 4713 BC in the proleptic Julian calendar. Years use astronomical numbering (1 BC is year 0).
+ * Instances are immutable.
+ */
+export class CalendarSystem
+{
+    /** The JDN of the first day on the Gregorian calendar: -Infinity for Gregorian, Infinity for Julian. */
+    private readonly m_cutover: number;
+
+    private constructor(cutover: number)
+    {
+        this.m_cutover = cutover;
+    }
+
+    /** The proleptic Gregorian calendar, as used by DateTime. */
+    public static get gregorian(): CalendarSystem
+    {
+        return new CalendarSystem(Number.NEGATIVE_INFINITY);
+    }
+
+    /** The proleptic Julian calendar. */
+    public static get julian(): CalendarSystem
+    {
+        return new CalendarSystem(Number.POSITIVE_INFINITY);
+    }
+
+    /**
+     * Create a hybrid calendar, which uses the Julian calendar before a cutover date and the Gregorian calendar from it.
+     *
+     * The days skipped by the cutover don't exist in the hybrid calendar. With the default cutover, 1582-10-04 is followed
+     * by 1582-10-15, so 1582-10-05 to 1582-10-14 are rejected. Britain and its colonies switched at 1752-09-14.
+     *
+     * @param year The year of the first day on the Gregorian calendar. Defaults to 1582.
+     * @param month The month of the first day on the Gregorian calendar. Defaults to 10.
+     * @param day The day of the first day on the Gregorian calendar. Defaults to 15.
+     *
+     * @throws DateTimeError if the cutover date is not a valid Gregorian date.
+     */
+    public static hybrid(year: number = 1582, month: number = 10, day: number = 15): CalendarSystem
+    {
+        if (!CalendarSystem.isValid(year, month, day, true)) {
+            throw new DateTimeError(`Expected valid Gregorian cutover date, found ${year}-${month}-${day}.`);
+        }
+
+        return new CalendarSystem(CalendarSystem.gregorianToJdn(year, month, day));
+    }
+
+    /** The JDN of the first day on the Gregorian calendar; -Infinity for the Gregorian calendar, Infinity for the Julian. */
+    public get cutover(): number
+    {
+        return this.m_cutover;
+    }
+
+    /**
+     * Determine whether a date exists in the calendar.
+     *
+     * @param year The year.
+     * @param month The month (1 = January, 12 = December).
+     * @param day The day of the month.
+     */
+    public isValidDate(year: number, month: number, day: number): boolean
+    {
+        return undefined !== this.julianDayNumber(year, month, day);
+    }
+
+    /**
+     * Convert a date in the calendar to a Julian Day Number.
+     *
+     * @param year The year.
+     * @param month The month (1 = January, 12 = December).
+     * @param day The day of the month.
+     *
+     * @throws DateTimeError if the date doesn't exist in the calendar.
+     */
+    public toJulianDayNumber(year: number, month: number, day: number): number
+    {
+        const jdn = this.julianDayNumber(year, month, day);
+
+        if (undefined === jdn) {
+            throw new DateTimeError(`Expected valid date in calendar, found ${year}-${month}-${day}.`);
+        }
+
+        return jdn;
+    }
+
+    /**
+     * Convert a Julian Day Number to a date in the calendar.
+     *
+     * @param jdn The Julian Day Number.
+     *
+     * @return The year, month and day.
+     */
+    public fromJulianDayNumber(jdn: number): [number, number, number]
+    {
+        // Richards' algorithm: for the Gregorian calendar, whole centuries are split off first
+        if (jdn >= this.cutover) {
+            const a = jdn + 32044;
+            const b = Math.floor((4 * a + 3) / 146097);
+            const [year, month, day] = CalendarSystem.fromMonthDays(a - Math.floor(146097 * b / 4));
+            return [year + 100 * b, month, day];
+        }
+
+        return CalendarSystem.fromMonthDays(jdn + 32082);
+    }
+
+    /**
+     * Create a DateTime from a date in the calendar and a time.
+     *
+     * @param year The year.
+     * @param month The month (1 = January, 12 = December).
+     * @param day The day of the month.
+     * @param hour The hour. Defaults to 0.
+     * @param minute The minute. Defaults to 0.
+     * @param second The second. Defaults to 0.
+     * @param ms The millisecond. Defaults to 0.
+     * @param timeZone The TimeZone for the DateTime. Defaults to UTC.
+     * @param disambiguation How to resolve wall-clock times that are ambiguous or don't exist. Defaults to Earlier.
+     *
+     * @throws DateTimeError if the date doesn't exist in the calendar or the time is not valid.
+     */
+    public toDateTime(year: number, month: number, day: number, hour: number = 0, minute: number = 0, second: number = 0, ms: number = 0, timeZone: TimeZone = TimeZone.utc, disambiguation: Disambiguation = Disambiguation.Earlier): DateTime
+    {
+        const [gregorianYear, gregorianMonth, gregorianDay] = CalendarSystem.gregorian.fromJulianDayNumber(this.toJulianDayNumber(year, month, day));
+        return DateTime.fromDateTime(gregorianYear, gregorianMonth, gregorianDay, hour, minute, second, ms, timeZone, disambiguation);
+    }
+
+    /**
+     * Read the local date of a DateTime in the calendar.
+     *
+     * @param dateTime The DateTime.
+     *
+     * @return The year, month and day.
+     */
+    public dateOf(dateTime: DateTime): [number, number, number]
+    {
+        return this.fromJulianDayNumber(dateTime.julianDayNumber);
+    }
+
+    /** Helper to convert a date to a JDN, or `undefined` if the date doesn't exist in the calendar. */
+    private julianDayNumber(year: number, month: number, day: number): number|undefined
+    {
+        if (CalendarSystem.isValid(year, month, day, true)) {
+            const jdn = CalendarSystem.gregorianToJdn(year, month, day);
+
+            if (jdn >= this.cutover) {
+                return jdn;
+            }
+        }
+
+        if (CalendarSystem.isValid(year, month, day, false)) {
+            const jdn = CalendarSystem.julianToJdn(year, month, day);
+
+            if (jdn < this.cutover) {
+                return jdn;
+            }
+        }
+
+        return undefined;
+    }
+
+    /** Helper to validate a date on the Gregorian or Julian calendar. */
+    private static isValid(year: number, month: number, day: number, gregorian: boolean): boolean
+    {
+        if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day) || 1 > month || 12 < month) {
+            return false;
+        }
+
+        const mod = (value: number, divisor: number) => ((value % divisor) + divisor) % divisor;
+        const leap = 0 === mod(year, 4) && (!gregorian || 0 !== mod(year, 100) || 0 === mod(year, 400));
+        const lengths = [31, (leap ? 29 : 28), 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+        return 1 <= day && lengths[month - 1] >= day;
+    }
+
+    /** Helper to count the whole years and months from March of the year -4800, as the JDN algorithms do. */
+    private static marchBased(year: number, month: number): [number, number]
+    {
+        const a = Math.floor((14 - month) / 12);
+        return [year + 4800 - a, month + 12 * a - 3];
+    }
+
+    /** Helper to convert a Gregorian date to a JDN. */
+    private static gregorianToJdn(year: number, month: number, day: number): number
+    {
+        const [y, m] = CalendarSystem.marchBased(year, month);
+        return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+    }
+
+    /** Helper to convert a Julian date to a JDN. */
+    private static julianToJdn(year: number, month: number, day: number): number
+    {
+        const [y, m] = CalendarSystem.marchBased(year, month);
+        return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+    }
+
+    /** Helper to convert a count of days in four-year cycles from March of the year -4800 to a date. */
+    private static fromMonthDays(c: number): [number, number, number]
+    {
+        const d = Math.floor((4 * c + 3) / 1461);
+        const e = c - Math.floor(1461 * d / 4);
+        const m = Math.floor((5 * e + 2) / 153);
+        return [d - 4800 + Math.floor(m / 10), m + 3 - 12 * Math.floor(m / 10), e - Math.floor((153 * m + 2) / 5) + 1];
+    }
+}
@@ -0,0 +1,225 @@
+import {ComponentFormatter, ComponentParser} from "./DateTimeFormatter.js";
+import {DateTimeFormatterError} from "./DateTimeFormatterError.js";
+
+/** The component formatter and, optionally, parser registered for a specifier. */
+type ComponentRegistration = {
+    formatter: ComponentFormatter,
+    parser?: ComponentParser,
+};
+
+/**
+ * A set of component formatters and parsers, keyed by specifier, for DateTimeFormatter instances to use.
+ *
+ * A registry can extend a parent registry: specifiers that the registry doesn't register itself are looked up in the
+ * parent, so later additions to the parent are seen through the registry. Specifiers registered or removed in the
+ * registry override the parent's within the registry's scope only, without changing the parent. The built-in component
+ * formatters are available as the frozen DateTimeFormatter.builtInRegistry, which other registries can extend but
+ * nothing can change.
+ *
+ * Attach a registry to a DateTimeFormatter when creating it, or with its registry property. Formatters without their
+ * own registry use DateTimeFormatter.defaultRegistry, which DateTimeFormatter.addFormatter() adds to.
+ */
+export class ComponentFormatterRegistry
+{
+    /** The registry in which to look up specifiers that this registry doesn't register or remove, if any. */
+    private readonly m_parent?: ComponentFormatterRegistry;
+
+    /**
+     * The specifiers registered or removed in this registry. A null registration marks a specifier removed in the
+     * registry, hiding any registration in its parent.
+     */
+    private readonly m_registrations = new Map<string, ComponentRegistration|null>();
+
+    /** Whether the registry can no longer be changed. */
+    private m_frozen: boolean = false;
+
+    /**
+     * Initialise a new registry.
+     *
+     * @param parent The registry to extend, if any. Without a parent, the registry starts empty.
+     */
+    public constructor(parent: ComponentFormatterRegistry = undefined)
+    {
+        this.m_parent = parent;
+    }
+
+    /** The registry this registry extends, if any. */
+    public get parent(): ComponentFormatterRegistry|undefined
+    {
+        return this.m_parent;
+    }
+
+    /** Whether the registry has been frozen, so that it can no longer be changed. */
+    public get isFrozen(): boolean
+    {
+        return this.m_frozen;
+    }
+
+    /** The specifiers available through the registry, including those of its parent. */
+    public get specifiers(): string[]
+    {
+        const specifiers = (undefined === this.m_parent ? [] : this.m_parent.specifiers);
+
+        for (const [specifier, registration] of this.m_registrations) {
+            const idx = specifiers.indexOf(specifier);
+
+            if (null === registration) {
+                if (0 <= idx) {
+                    specifiers.splice(idx, 1);
+                }
+            } else if (0 > idx) {
+                specifiers.push(specifier);
+            }
+        }
+
+        return specifiers;
+    }
+
+    /**
+     * Create a new registry that extends this one.
+     *
+     * Changes to the new registry don't affect this one, but additions to this one are seen through the new one unless it
+     * overrides them.
+     */
+    public extend(): ComponentFormatterRegistry
+    {
+        return new ComponentFormatterRegistry(this);
+    }
+
+    /**
+     * Create an unfrozen copy of the registry, with the same parent.
+     *
+     * Later changes to either registry don't affect the other.
+     */
+    public clone(): ComponentFormatterRegistry
+    {
+        const clone = new ComponentFormatterRegistry(this.m_parent);
+
+        for (const [specifier, registration] of this.m_registrations) {
+            clone.m_registrations.set(specifier, registration);
+        }
+
+        return clone;
+    }
+
+    /**
+     * Prevent any further changes to the registry.
+     *
+     * @return The registry, for chaining.
+     */
+    public freeze(): this
+    {
+        this.m_frozen = true;
+        return this;
+    }
+
+    /** Determine whether a specifier has a component formatter through the registry. */
+    public has(specifier: string): boolean
+    {
+        return undefined !== this.registration(specifier);
+    }
+
+    /**
+     * Fetch the component formatter for a specifier.
+     *
+     * @return The formatter, or `undefined` if the specifier has none through the registry.
+     */
+    public formatter(specifier: string): ComponentFormatter|undefined
+    {
+        return this.registration(specifier)?.formatter;
+    }
+
+    /**
+     * Fetch the component parser for a specifier.
+     *
+     * @return The parser, or `undefined` if the specifier has none through the registry.
+     */
+    public parser(specifier: string): ComponentParser|undefined
+    {
+        return this.registration(specifier)?.parser;
+    }
+
+    /**
+     * Add a component formatter for a specifier that the registry doesn't already have.
+     *
+     * @param specifier The specifier for the component.
+     * @param formatter The formatting function.
+     * @param parser The parsing function, if any.
+     *
+     * @throws DateTimeFormatterError if the specifier already has a component formatter through the registry, or the
+     * registry is frozen.
+     */
+    public add(specifier: string, formatter: ComponentFormatter, parser: ComponentParser = undefined): void
+    {
+        if (this.has(specifier)) {
+            throw new DateTimeFormatterError(`Format specifier ${specifier} is already taken.`);
+        }
+
+        this.set(specifier, formatter, parser);
+    }
+
+    /**
+     * Set the component formatter for a specifier, overriding any it already has through the registry.
+     *
+     * Without a parser, the specifier keeps the parser it already has through the registry, if any.
+     *
+     * @param specifier The specifier for the component.
+     * @param formatter The formatting function.
+     * @param parser The parsing function. Defaults to the specifier's existing parser.
+     *
+     * @throws DateTimeFormatterError if the registry is frozen.
+     */
+    public set(specifier: string, formatter: ComponentFormatter, parser: ComponentParser = undefined): void
+    {
+        this.checkNotFrozen(specifier);
+        this.m_registrations.set(specifier, {formatter: formatter, parser: parser ?? this.parser(specifier)});
+    }
+
+    /**
+     * Remove the component formatter for a specifier from the registry.
+     *
+     * The specifier stays hidden in this registry even if the parent has or later gains a formatter for it, but remains
+     * available in the parent.
+     *
+     * @param specifier The specifier to remove.
+     *
+     * @return Whether the specifier had a component formatter through the registry.
+     * @throws DateTimeFormatterError if the registry is frozen.
+     */
+    public remove(specifier: string): boolean
+    {
+        this.checkNotFrozen(specifier);
+        const had = this.has(specifier);
+
+        // without a parent, nothing needs hiding
+        if (undefined !== this.m_parent) {
+            this.m_registrations.set(specifier, null);
+        } else {
+            this.m_registrations.delete(specifier);
+        }
+
+        return had;
+    }
+
+    /** Helper to look up the registration of a specifier through the registry and its parents. */
+    private registration(specifier: string): ComponentRegistration|undefined
+    {
+        if (this.m_registrations.has(specifier)) {
+            return this.m_registrations.get(specifier) ?? undefined;
+        }
+
+        return this.m_parent?.registration(specifier);
+    }
+
+    /**
+     * Helper to ensure the registry can be changed.
+     *
+     * @throws DateTimeFormatterError if the registry is frozen.
+     */
+    private checkNotFrozen(specifier: string): void
+    {
+        if (this.m_frozen) {
+            throw new DateTimeFormatterError(`Format specifier ${specifier} can't be changed in a frozen registry.`);
+        }
+    }
+}
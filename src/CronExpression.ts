@@ -0,0 +1,460 @@
+import {DateTime, Disambiguation} from "./DateTime.js";
+import {CronExpressionError} from "./CronExpressionError.js";
+import {TimeZone} from "./TimeZone.js";
+
+/** The values allowed in a field, indexed by value. */
+type CronValues = boolean[];
+
+/** The day-of-month field. */
+type CronDaysOfMonth = {
+    /** Whether the field is anything other than "*" or "?". */
+    restricted: boolean,
+    days: CronValues,
+    /** Days counted back from the last day of the month ("L" is 0, "L-3" is 3). */
+    fromLast: number[],
+    /** Days whose nearest weekday is allowed ("15W"). */
+    nearestWeekdays: number[],
+    /** Whether the last weekday of the month is allowed ("LW"). */
+    lastWeekday: boolean,
+};
+
+/** The day-of-week field. */
+type CronDaysOfWeek = {
+    /** Whether the field is anything other than "*" or "?". */
+    restricted: boolean,
+    days: CronValues,
+    /** Weekdays whose last occurrence in the month is allowed ("5L"). */
+    last: number[],
+    /** Occurrences of weekdays in the month that are allowed ("5#3"), as [weekday, occurrence]. */
+    nth: [number, number][],
+};
+
+/**
+ * A cron expression, for scheduling repeated events.
+ *
+ * Expressions have five fields (minute, hour, day of month, month and day of week) or six fields (second, minute, hour,
+ * day of month, month and day of week). Each field is "*", or a comma-separated list of values, ranges ("1-5") and
+ * steps ("*\/15", "5/10", "1-30/2"). Months and days of the week can be given by their English three-letter names (JAN,
+ * MON); Sunday is 0 or 7. "?" is a synonym for "*" in the day fields. The day-of-month field also accepts "L" (the last
+ * day), "L-3" (three days before the last day), "15W" (the weekday nearest the 15th, within the month) and "LW" (the
+ * last weekday); the day-of-week field also accepts "5L" (the last Friday) and "5#3" (the third Friday). If both day
+ * fields are restricted, a day matches if either matches, as in standard cron. The macros @yearly, @annually, @monthly,
+ * @weekly, @daily, @midnight and @hourly are also recognised.
+ *
+ * Fire times are computed on the local wall clock of a TimeZone. Where clocks go forward, local times in the gap fire at
+ * the equivalent point in time after the gap (02:30 becomes 03:30 when clocks go forward an hour at 02:00), unless that
+ * point in time has already been reached. Where clocks go back, local times that occur twice fire only the first time.
+ */
+export class CronExpression
+{
+    /** The macros and the expressions they stand for. */
+    private static readonly Macros: {[macro: string]: string} = {
+        "@yearly": "0 0 1 1 *",
+        "@annually": "0 0 1 1 *",
+        "@monthly": "0 0 1 * *",
+        "@weekly": "0 0 * * 0",
+        "@daily": "0 0 * * *",
+        "@midnight": "0 0 * * *",
+        "@hourly": "0 * * * *",
+    };
+
+    /** The names of the months, indexed by month - 1. */
+    private static readonly MonthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+    /** The names of the days of the week, indexed by Weekday. */
+    private static readonly WeekdayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+    /** The number of years to search for a fire time before concluding there is none (a full Gregorian cycle). */
+    private static readonly SearchYears = 400;
+
+    /** The expression as given. */
+    private readonly m_expression: string;
+
+    private readonly m_seconds: CronValues;
+    private readonly m_minutes: CronValues;
+    private readonly m_hours: CronValues;
+    private readonly m_daysOfMonth: CronDaysOfMonth;
+    private readonly m_months: CronValues;
+    private readonly m_daysOfWeek: CronDaysOfWeek;
+
+    /**
+     * Initialise a new CronExpression.
+     *
+     * @param expression The expression, e.g. "30 9 * * MON-FRI" or "@daily".
+     *
+     * @throws CronExpressionError if the expression is not valid.
+     */
+    public constructor(expression: string)
+    {
+        this.m_expression = expression;
+        expression = expression.trim();
+
+        if ("@" === expression[0]) {
+            const macro = CronExpression.Macros[expression.toLowerCase()];
+
+            if (undefined === macro) {
+                throw new CronExpressionError(`Unrecognised cron macro ${expression}.`);
+            }
+
+            expression = macro;
+        }
+
+        const fields = expression.split(/\s+/);
+
+        if (5 === fields.length) {
+            fields.unshift("0");
+        } else if (6 !== fields.length) {
+            throw new CronExpressionError(`Expected 5 or 6 fields in cron expression, found ${fields.length} in "${expression}".`);
+        }
+
+        this.m_seconds = CronExpression.parseField(fields[0], "second", 0, 59);
+        this.m_minutes = CronExpression.parseField(fields[1], "minute", 0, 59);
+        this.m_hours = CronExpression.parseField(fields[2], "hour", 0, 23);
+        this.m_daysOfMonth = CronExpression.parseDaysOfMonth(fields[3]);
+        this.m_months = CronExpression.parseField(fields[4], "month", 1, 12, CronExpression.MonthNames);
+        this.m_daysOfWeek = CronExpression.parseDaysOfWeek(fields[5]);
+    }
+
+    /** The expression, as given. */
+    public get expression(): string
+    {
+        return this.m_expression;
+    }
+
+    /**
+     * Helper to parse a field into the values it allows.
+     *
+     * @param field The field.
+     * @param name The name of the field, for error messages.
+     * @param min The smallest value allowed.
+     * @param max The largest value allowed.
+     * @param names The names of the values from min, if the field accepts names.
+     *
+     * @throws CronExpressionError if the field is not valid.
+     */
+    private static parseField(field: string, name: string, min: number, max: number, names: string[] = []): CronValues
+    {
+        const values: CronValues = [];
+
+        for (const item of field.split(",")) {
+            const match = /^(\*|([0-9A-Za-z]+)(?:-([0-9A-Za-z]+))?)(?:\/(\d+))?$/.exec(item);
+
+            if (!match) {
+                throw new CronExpressionError(`Invalid ${name} field "${field}": "${item}" is not a value, range or step.`);
+            }
+
+            let first = min;
+            let last = max;
+
+            if ("*" !== match[1]) {
+                first = CronExpression.parseValue(match[2], field, name, min, max, names);
+                last = (undefined === match[3] ? (undefined === match[4] ? first : max) : CronExpression.parseValue(match[3], field, name, min, max, names));
+
+                if (last < first) {
+                    throw new CronExpressionError(`Invalid ${name} field "${field}": range "${item}" ends before it starts.`);
+                }
+            }
+
+            const step = (undefined === match[4] ? 1 : Number.parseInt(match[4]));
+
+            if (1 > step) {
+                throw new CronExpressionError(`Invalid ${name} field "${field}": step must be at least 1.`);
+            }
+
+            for (let value = first; value <= last; value += step) {
+                values[value] = true;
+            }
+        }
+
+        return values;
+    }
+
+    /** Helper to parse a single value of a field, either a number or a name. */
+    private static parseValue(value: string, field: string, name: string, min: number, max: number, names: string[]): number
+    {
+        let parsed: number;
+
+        if (/^\d+$/.test(value)) {
+            parsed = Number.parseInt(value);
+        } else {
+            const idx = names.indexOf(value.toUpperCase());
+
+            if (0 > idx) {
+                throw new CronExpressionError(`Invalid ${name} field "${field}": "${value}" is not a recognised ${name}.`);
+            }
+
+            parsed = idx + min;
+        }
+
+        if (parsed < min || parsed > max) {
+            throw new CronExpressionError(`Invalid ${name} field "${field}": ${parsed} is out of range ${min}-${max}.`);
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Helper to parse the day-of-month field.
+     *
+     * @throws CronExpressionError if the field is not valid.
+     */
+    private static parseDaysOfMonth(field: string): CronDaysOfMonth
+    {
+        const daysOfMonth: CronDaysOfMonth = {restricted: "*" !== field && "?" !== field, days: [], fromLast: [], nearestWeekdays: [], lastWeekday: false};
+        const plain: string[] = [];
+
+        for (const item of ("?" === field ? "*" : field).split(",")) {
+            let match: RegExpExecArray;
+
+            if ("LW" === item.toUpperCase()) {
+                daysOfMonth.lastWeekday = true;
+            } else if ((match = /^L(?:-(\d+))?$/i.exec(item))) {
+                const offset = Number.parseInt(match[1] ?? "0");
+
+                if (30 < offset) {
+                    throw new CronExpressionError(`Invalid day-of-month field "${field}": "${item}" is more than 30 days before the last day.`);
+                }
+
+                daysOfMonth.fromLast.push(offset);
+            } else if ((match = /^(\d+)W$/i.exec(item))) {
+                daysOfMonth.nearestWeekdays.push(CronExpression.parseValue(match[1], field, "day-of-month", 1, 31, []));
+            } else {
+                plain.push(item);
+            }
+        }
+
+        if (0 < plain.length) {
+            daysOfMonth.days = CronExpression.parseField(plain.join(","), "day-of-month", 1, 31);
+        }
+
+        return daysOfMonth;
+    }
+
+    /**
+     * Helper to parse the day-of-week field.
+     *
+     * @throws CronExpressionError if the field is not valid.
+     */
+    private static parseDaysOfWeek(field: string): CronDaysOfWeek
+    {
+        const daysOfWeek: CronDaysOfWeek = {restricted: "*" !== field && "?" !== field, days: [], last: [], nth: []};
+        const plain: string[] = [];
+
+        for (const item of ("?" === field ? "*" : field).split(",")) {
+            let match: RegExpExecArray;
+
+            if ((match = /^([0-9A-Za-z]+)L$/i.exec(item)) && "L" !== item.toUpperCase()) {
+                daysOfWeek.last.push(CronExpression.parseValue(match[1], field, "day-of-week", 0, 7, CronExpression.WeekdayNames) % 7);
+            } else if ((match = /^([0-9A-Za-z]+)#(\d+)$/.exec(item))) {
+                const occurrence = Number.parseInt(match[2]);
+
+                if (1 > occurrence || 5 < occurrence) {
+                    throw new CronExpressionError(`Invalid day-of-week field "${field}": occurrence ${occurrence} in "${item}" is out of range 1-5.`);
+                }
+
+                daysOfWeek.nth.push([CronExpression.parseValue(match[1], field, "day-of-week", 0, 7, CronExpression.WeekdayNames) % 7, occurrence]);
+            } else {
+                plain.push(item);
+            }
+        }
+
+        if (0 < plain.length) {
+            const days = CronExpression.parseField(plain.join(","), "day-of-week", 0, 7, CronExpression.WeekdayNames);
+
+            // 7 is also Sunday
+            for (let day = 0; day < 7; ++day) {
+                daysOfWeek.days[day] = days[day] || (0 === day && true === days[7]);
+            }
+        }
+
+        return daysOfWeek;
+    }
+
+    /**
+     * Determine whether the expression fires at a given point in time.
+     *
+     * @param dateTime The point in time. Only whole seconds can match.
+     * @param timeZone The TimeZone on whose wall clock the expression is evaluated. Defaults to the DateTime's TimeZone.
+     */
+    public matches(dateTime: DateTime, timeZone: TimeZone = dateTime.timeZone): boolean
+    {
+        const local = dateTime.withTimeZone(timeZone);
+        return 0 === local.ms && this.matchesLocal(CronExpression.utc(local.year, local.month - 1, local.day, local.hour, local.minute, local.second));
+    }
+
+    /**
+     * Compute the first fire time after a given point in time.
+     *
+     * @param dateTime The point in time.
+     * @param timeZone The TimeZone on whose wall clock the expression is evaluated. Defaults to the DateTime's TimeZone.
+     *
+     * @return The fire time, in the TimeZone, or `undefined` if the expression never fires again.
+     */
+    public next(dateTime: DateTime, timeZone: TimeZone = dateTime.timeZone): DateTime|undefined
+    {
+        const start = dateTime.withTimeZone(timeZone);
+        const limit = start.year + CronExpression.SearchYears;
+        let local = CronExpression.utc(start.year, start.month - 1, start.day, start.hour, start.minute, start.second) + 1000;
+
+        while (true) {
+            const date = new Date(local);
+
+            if (limit < date.getUTCFullYear()) {
+                return undefined;
+            }
+
+            // skip directly to the start of the next month, day, hour or minute that could match
+            if (!this.m_months[date.getUTCMonth() + 1]) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+            } else if (!this.matchesDay(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+            } else if (!this.m_hours[date.getUTCHours()]) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours() + 1);
+            } else if (!this.m_minutes[date.getUTCMinutes()]) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes() + 1);
+            } else if (!this.m_seconds[date.getUTCSeconds()]) {
+                local += 1000;
+            } else {
+                const fire = CronExpression.resolve(date, timeZone);
+
+                // local times in a gap or repeated by an overlap can resolve to points in time already passed
+                if (fire.timestamp > dateTime.timestamp) {
+                    return fire;
+                }
+
+                local += 1000;
+            }
+        }
+    }
+
+    /**
+     * Compute the last fire time before a given point in time.
+     *
+     * @param dateTime The point in time.
+     * @param timeZone The TimeZone on whose wall clock the expression is evaluated. Defaults to the DateTime's TimeZone.
+     *
+     * @return The fire time, in the TimeZone, or `undefined` if the expression never fired before.
+     */
+    public previous(dateTime: DateTime, timeZone: TimeZone = dateTime.timeZone): DateTime|undefined
+    {
+        const start = dateTime.withTimeZone(timeZone);
+        const limit = start.year - CronExpression.SearchYears;
+        let local = CronExpression.utc(start.year, start.month - 1, start.day, start.hour, start.minute, start.second) - (0 === start.ms ? 1000 : 0);
+
+        while (true) {
+            const date = new Date(local);
+
+            if (limit > date.getUTCFullYear()) {
+                return undefined;
+            }
+
+            // skip directly to the end of the previous month, day, hour or minute that could match
+            if (!this.m_months[date.getUTCMonth() + 1]) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth(), 1) - 1000;
+            } else if (!this.matchesDay(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - 1000;
+            } else if (!this.m_hours[date.getUTCHours()]) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours()) - 1000;
+            } else if (!this.m_minutes[date.getUTCMinutes()]) {
+                local = CronExpression.utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes()) - 1000;
+            } else if (!this.m_seconds[date.getUTCSeconds()]) {
+                local -= 1000;
+            } else {
+                const fire = CronExpression.resolve(date, timeZone);
+
+                if (fire.timestamp < dateTime.timestamp) {
+                    return fire;
+                }
+
+                local -= 1000;
+            }
+        }
+    }
+
+    /**
+     * Iterate over the fire times after a given point in time.
+     *
+     * The fire times are computed lazily, so this can be used for expressions that fire indefinitely.
+     *
+     * @param dateTime The point in time.
+     * @param timeZone The TimeZone on whose wall clock the expression is evaluated. Defaults to the DateTime's TimeZone.
+     */
+    public *upcoming(dateTime: DateTime, timeZone: TimeZone = dateTime.timeZone): IterableIterator<DateTime>
+    {
+        let fire = this.next(dateTime, timeZone);
+
+        while (undefined !== fire) {
+            yield fire;
+            fire = this.next(fire, timeZone);
+        }
+    }
+
+    /** Helper to determine whether a local time, expressed as ms since 1970-01-01 on the local clock, matches. */
+    private matchesLocal(local: number): boolean
+    {
+        const date = new Date(local);
+
+        return this.m_seconds[date.getUTCSeconds()]
+            && this.m_minutes[date.getUTCMinutes()]
+            && this.m_hours[date.getUTCHours()]
+            && this.m_months[date.getUTCMonth() + 1]
+            && this.matchesDay(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+    }
+
+    /** Helper to determine whether a date matches the day fields. */
+    private matchesDay(year: number, month: number, day: number): boolean
+    {
+        const daysOfMonth = this.m_daysOfMonth;
+        const daysOfWeek = this.m_daysOfWeek;
+        const monthLength = new Date(CronExpression.utc(year, month, 0)).getUTCDate();
+        const weekday = new Date(CronExpression.utc(year, month - 1, day)).getUTCDay();
+
+        const dayOfMonth = true === daysOfMonth.days[day]
+            || daysOfMonth.fromLast.some((offset) => day === monthLength - offset)
+            || daysOfMonth.nearestWeekdays.some((target) => day === CronExpression.nearestWeekday(year, month, Math.min(target, monthLength)))
+            || (daysOfMonth.lastWeekday && day === CronExpression.nearestWeekday(year, month, monthLength));
+
+        const dayOfWeek = true === daysOfWeek.days[weekday]
+            || daysOfWeek.last.some((target) => weekday === target && day + 7 > monthLength)
+            || daysOfWeek.nth.some(([target, occurrence]) => weekday === target && occurrence === Math.ceil(day / 7));
+
+        if (daysOfMonth.restricted && daysOfWeek.restricted) {
+            return dayOfMonth || dayOfWeek;
+        }
+
+        return dayOfMonth && dayOfWeek;
+    }
+
+    /**
+     * Helper to compute a local time, expressed as ms since 1970-01-01 on the local clock, from its components. The
+     * month is zero-based, as for Date.UTC().
+     */
+    private static utc(year: number, month: number, day: number, hour: number = 0, minute: number = 0, second: number = 0): number
+    {
+        return DateTime.utcDate(year, month + 1, day).setUTCHours(hour, minute, second);
+    }
+
+    /** Helper to find the weekday nearest a day of a month, without leaving the month. */
+    private static nearestWeekday(year: number, month: number, day: number): number
+    {
+        const monthLength = new Date(CronExpression.utc(year, month, 0)).getUTCDate();
+
+        switch (new Date(CronExpression.utc(year, month - 1, day)).getUTCDay()) {
+            case 6:
+                // Saturday: the Friday before, unless that is in the previous month
+                return (1 === day ? 3 : day - 1);
+
+            case 0:
+                // Sunday: the Monday after, unless that is in the next month
+                return (monthLength === day ? day - 2 : day + 1);
+        }
+
+        return day;
+    }
+
+    /** Helper to resolve a local time to a DateTime, moving local times in a gap forward by the length of the gap. */
+    private static resolve(local: Date, timeZone: TimeZone): DateTime
+    {
+        return DateTime.fromDateTime(local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate(), local.getUTCHours(), local.getUTCMinutes(), local.getUTCSeconds(), 0, timeZone, Disambiguation.Compatible);
+    }
+}
@@ -0,0 +1,3 @@
+/** Custom Error class thrown by CronExpression instances. */
+export class CronExpressionError extends Error
+{}
@@ -1,6 +1,10 @@
 import {TimeZone} from "./TimeZone.js";
 import {DateTimeError} from "./DateTimeError.js";
 import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {LeapSecondPolicy, LeapSeconds} from "./LeapSeconds.js";
+import {LocalDate} from "./LocalDate.js";
+import {LocalDateTime} from "./LocalDateTime.js";
+import {LocalTime} from "./LocalTime.js";
 
 /** Enumeration of options for the weekday component of a DateTime. */
 export enum Weekday
@@ -14,7 +18,75 @@ export enum Weekday
     Saturday,
 }
 
-/** Interface for DateTime instances. */
+/**
+ * Enumeration of options for resolving local wall-clock times that are ambiguous or don't exist in a TimeZone.
+ *
+ * A wall-clock time is ambiguous when it falls in the overlap created when clocks go back, and doesn't exist when it
+ * falls in the gap created when clocks go forward.
+ */
+export enum Disambiguation
+{
+    /** Use the earlier of the two candidate points in time. */
+    Earlier = 0,
+    /** Use the later of the two candidate points in time. */
+    Later,
+    /** Reject the wall-clock time with a DateTimeError. */
+    Reject,
+    /**
+     * Use the earlier candidate for ambiguous wall-clock times and the later for ones that don't exist, i.e. move times
+     * in a gap forward by the length of the gap. This is the behaviour RFC 5545 requires.
+     */
+    Compatible,
+}
+
+/** Enumeration of the units in which amounts of time can be expressed, from largest to smallest. */
+export enum DateTimeUnit
+{
+    Year = 0,
+    Month,
+    Week,
+    Day,
+    Hour,
+    Minute,
+    Second,
+    Millisecond,
+}
+
+/** Enumeration of the ways in which an amount of time can be rounded to a unit. */
+export enum RoundingMode
+{
+    /** Round towards zero. */
+    Trunc = 0,
+    /** Round towards negative infinity. */
+    Floor,
+    /** Round towards positive infinity. */
+    Ceil,
+    /** Round to the nearest unit, with halves rounded away from zero. */
+    HalfExpand,
+}
+
+/**
+ * Enumeration of the calendar periods into which a DateTime can be bucketed with startOf() and endOf(), from largest to
+ * smallest.
+ */
+export enum DateTimePeriod
+{
+    Year = 0,
+    Quarter,
+    Month,
+    Week,
+    Day,
+    Hour,
+    Minute,
+    Second,
+}
+
+/**
+ * Interface for DateTime instances.
+ *
+ * The ISO 8601 week date and ordinal date components are optional, since they follow from the date. DateTimeFormatter
+ * derives any that an implementation lacks.
+ */
 export interface DateTimeInterface
 {
     readonly timestamp: number;
@@ -26,9 +98,78 @@ export interface DateTimeInterface
     readonly second: number;
     readonly ms: number;
     readonly weekday: Weekday;
+    readonly isoWeekday?: number;
+    readonly isoWeek?: number;
+    readonly isoWeekYear?: number;
+    readonly dayOfYear?: number;
+    readonly offset: number;
     readonly timeZone: TimeZone;
 }
 
+/** An amount of time, in calendar and exact units, to add to or subtract from a DateTime. */
+export interface Duration
+{
+    readonly years?: number;
+    readonly months?: number;
+    readonly weeks?: number;
+    readonly days?: number;
+    readonly hours?: number;
+    readonly minutes?: number;
+    readonly seconds?: number;
+    readonly ms?: number;
+}
+
+/** Options for calculating the difference between two DateTimes. */
+export interface DifferenceOptions
+{
+    /** The largest unit to use in the difference. Defaults to years. */
+    readonly largestUnit?: DateTimeUnit;
+    /** The smallest unit to use in the difference. Defaults to milliseconds. */
+    readonly smallestUnit?: DateTimeUnit;
+    /** How to round the difference to the smallest unit. Defaults to truncation. */
+    readonly rounding?: RoundingMode;
+    /**
+     * The TimeZone on whose local calendar to count calendar units. Defaults to the TimeZone of the DateTime whose until()
+     * method is called, whether or not it is the earlier of the two.
+     */
+    readonly timeZone?: TimeZone;
+}
+
+/** Options for rounding a DateTime to a unit. See DateTime.round(). */
+export interface RoundingOptions
+{
+    /**
+     * The number of units to round to, e.g. 15 with minutes to round to quarter-hour slots. Increments of months, hours,
+     * minutes, seconds and milliseconds must divide evenly into the next larger unit; increments of weeks and days must be
+     * 1. Defaults to 1.
+     */
+    readonly increment?: number;
+    /** How to round. Trunc and Floor both round to the start of the slot. Defaults to HalfExpand. */
+    readonly mode?: RoundingMode;
+    /** The day on which weeks start, when rounding to weeks. Defaults to Monday. */
+    readonly firstDayOfWeek?: Weekday;
+}
+
+/** Options for reviving DateTimes with JSON.parse(). See DateTime.reviver(). */
+export interface DateTimeReviverOptions
+{
+    /**
+     * The paths of the values to revive, as property names separated by dots, e.g. "order.created". A * matches any
+     * property name or array index, e.g. "items.*.due".
+     */
+    readonly keys?: string[];
+    /**
+     * Revive any string value that matches this pattern. Defaults to a pattern matching the output of DateTime.toJSON()
+     * if no keys are given.
+     */
+    readonly pattern?: RegExp;
+    /**
+     * Throw for values at the key paths that aren't valid date-time strings (other than null), and strings that match
+     * the pattern but aren't valid date-times. Defaults to false, which leaves these values as they are.
+     */
+    readonly strict?: boolean;
+}
+
 
 /**
  * Representation of a date and time, accurate to the millisecond, for a given timezone.
@@ -37,6 +178,62 @@ export interface DateTimeInterface
  */
 export class DateTime implements DateTimeInterface
 {
+    /** The English month abbreviations used in RFC 2822 and HTTP dates, indexed by month - 1. */
+    private static readonly MonthAbbreviations = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+    /** The English weekday names used in RFC 2822 and HTTP dates, indexed by Weekday. */
+    private static readonly WeekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+    /** The UTC offsets, in minutes, of the obsolete zone names in RFC 2822. */
+    private static readonly Rfc2822ZoneOffsets: {[zone: string]: number} = {
+        "UT": 0,
+        "GMT": 0,
+        "EST": -300,
+        "EDT": -240,
+        "CST": -360,
+        "CDT": -300,
+        "MST": -420,
+        "MDT": -360,
+        "PST": -480,
+        "PDT": -420,
+    };
+
+    /** The Duration property for each DateTimeUnit. */
+    private static readonly DurationKeys: (keyof Duration)[] = ["years", "months", "weeks", "days", "hours", "minutes", "seconds", "ms"];
+
+    /** The unit and increment of each DateTimePeriod. */
+    private static readonly PeriodUnits: [DateTimeUnit, number][] = [
+        [DateTimeUnit.Year, 1],
+        [DateTimeUnit.Month, 3],
+        [DateTimeUnit.Month, 1],
+        [DateTimeUnit.Week, 1],
+        [DateTimeUnit.Day, 1],
+        [DateTimeUnit.Hour, 1],
+        [DateTimeUnit.Minute, 1],
+        [DateTimeUnit.Second, 1],
+    ];
+
+    /** The number that rounding increments must divide evenly into for each DateTimeUnit, if any. */
+    private static readonly IncrementDivisors: number[] = [undefined, 12, 1, 1, 24, 60, 60, 1000];
+
+    /** The Julian Date of the Unix epoch, 1970-01-01T00:00:00 UTC. */
+    private static readonly UnixEpochJulianDay = 2440587.5;
+
+    /** The difference between a Julian Date and a Modified Julian Date. */
+    private static readonly ModifiedJulianDayOffset = 2400000.5;
+
+    /** The earliest year that an ECMA timestamp can represent (the time range starts at -271821-04-20T00:00:00Z). */
+    private static readonly MinYear = -271821;
+
+    /** The latest year that an ECMA timestamp can represent (the time range ends at +275760-09-13T00:00:00Z). */
+    private static readonly MaxYear = 275760;
+
+    /** Matches the strings produced by toJSON(), for revival. */
+    private static readonly JsonPattern = /^[+-]?\d{4,6}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})(?:\[[^\]]+\])?$/;
+
+    /** The TAI timestamp of the GPS epoch, 1980-01-06T00:00:00 UTC, when TAI-UTC was 19s. */
+    private static readonly GpsEpochTai = Date.UTC(1980, 0, 6) + 19000;
+
     /** Unix timestamp in ms. */
     private readonly m_timestamp: number;
 
@@ -64,6 +261,9 @@ export class DateTime implements DateTimeInterface
     /** Millisecond in the given timezone. */
     private readonly m_ms: number;
 
+    /** The offset from UTC, in minutes, in force in the timezone at the timestamp. */
+    private readonly m_offset: number;
+
     /** The timezone. */
     private readonly m_timezone: TimeZone;
 
@@ -76,14 +276,25 @@ export class DateTime implements DateTimeInterface
      *
      * @param timestamp The ECMA timestamp (ms since 1970-01-01T00:00:00.000UTC)
      * @param timeZone The TimeZone for the DateTime. Default is UTC.
+     *
+     * @throws DateTimeError if the timestamp, or the local time at the offset, is outside the ECMAScript time range.
      */
     private constructor(timestamp: number, timeZone: TimeZone = TimeZone.utc)
     {
+        if (Number.isNaN(new Date(timestamp).getTime())) {
+            throw new DateTimeError(`Expected timestamp within the ECMAScript time range, found ${timestamp}.`);
+        }
+
         this.m_timestamp = timestamp;
         this.m_timezone = timeZone;
+        this.m_offset = timeZone.offsetAt(timestamp);
 
         // add the offset to the UTC timestamp
-        const date = new Date(timestamp + (timeZone.offset * 60 * 1000));
+        const date = new Date(timestamp + (this.m_offset * 60 * 1000));
+
+        if (Number.isNaN(date.getTime())) {
+            throw new DateTimeError(`Expected local time within the ECMAScript time range, found timestamp ${timestamp} at offset ${this.m_offset}.`);
+        }
 
         // read the fields at the offset
         this.m_year = date.getUTCFullYear();
@@ -102,6 +313,36 @@ export class DateTime implements DateTimeInterface
         return this.m_timestamp;
     }
 
+    /** The TAI timestamp of the DateTime: ms on the TAI scale since 1970-01-01T00:00:00 TAI. See LeapSeconds. */
+    public get taiTimestamp(): number
+    {
+        return LeapSeconds.utcToTai(this.timestamp);
+    }
+
+    /** The Julian Date of the DateTime: the number of days since noon UTC on 1 January 4713 BC (proleptic Julian). */
+    public get julianDay(): number
+    {
+        return this.timestamp / 86400000 + DateTime.UnixEpochJulianDay;
+    }
+
+    /** The Modified Julian Date of the DateTime: the number of days since 1858-11-17T00:00:00 UTC. */
+    public get modifiedJulianDay(): number
+    {
+        return this.timestamp / 86400000 + DateTime.UnixEpochJulianDay - DateTime.ModifiedJulianDayOffset;
+    }
+
+    /** The Julian Day Number of the local date of the DateTime, in its TimeZone. */
+    public get julianDayNumber(): number
+    {
+        return DateTime.localDayNumber(this) + Math.ceil(DateTime.UnixEpochJulianDay);
+    }
+
+    /** The GPS timestamp of the DateTime: ms on the GPS scale since the GPS epoch, 1980-01-06T00:00:00 UTC. */
+    public get gpsTimestamp(): number
+    {
+        return this.taiTimestamp - DateTime.GpsEpochTai;
+    }
+
     /** The year of the DateTime. */
     public get year(): number
     {
@@ -138,6 +379,36 @@ export class DateTime implements DateTimeInterface
         return this.m_weekday;
     }
 
+    /** The ISO 8601 day of the week for the DateTime (1 = Monday, 7 = Sunday). */
+    public get isoWeekday(): number
+    {
+        return (Weekday.Sunday === this.weekday ? 7 : this.weekday);
+    }
+
+    /**
+     * The ISO 8601 week of the DateTime (1..53).
+     *
+     * Weeks start on Monday, and week 1 is the week containing the year's first Thursday, so the first few days of January
+     * can be in the last week of the previous year, and the last few days of December in week 1 of the next year.
+     */
+    public get isoWeek(): number
+    {
+        return DateTime.isoWeekDate(this.year, this.month, this.day)[1];
+    }
+
+    /** The ISO 8601 week-numbering year of the DateTime, i.e. the year to which its isoWeek belongs. */
+    public get isoWeekYear(): number
+    {
+        return DateTime.isoWeekDate(this.year, this.month, this.day)[0];
+    }
+
+    /** The day of the year of the DateTime (1..366). */
+    public get dayOfYear(): number
+    {
+        const date = DateTime.utcDate(this.year, this.month, this.day);
+        return Math.round((date.getTime() - DateTime.utcDate(this.year, 1, 1).getTime()) / 86400000) + 1;
+    }
+
     /** Clone the DateTime, but with a different day. */
     public withDay(day: number): DateTime
     {
@@ -204,6 +475,12 @@ export class DateTime implements DateTimeInterface
         return DateTime.fromDateTime(this.year, this.month, this.day, hour, minute, second ?? this.second, ms ?? this.ms, this.timeZone);
     }
 
+    /** The offset from UTC, in minutes, in force in the DateTime's TimeZone at its timestamp. */
+    public get offset(): number
+    {
+        return this.m_offset;
+    }
+
     /** The TimeZone of the DateTime. */
     public get timeZone(): TimeZone
     {
@@ -222,231 +499,1552 @@ export class DateTime implements DateTimeInterface
         return new DateTime(timestamp, this.timeZone);
     }
 
-    /** Get the formatter for the DateTime. */
-    protected get formatter(): DateTimeFormatter
+    /** A native Date for the same point in time as the DateTime. */
+    public toDate(): Date
     {
-        if (undefined === this.m_formatter) {
-            this.m_formatter = new DateTimeFormatter();
-        }
+        return new Date(this.timestamp);
+    }
 
-        return this.m_formatter;
+    /** The local date of the DateTime in its TimeZone. */
+    public toLocalDate(): LocalDate
+    {
+        return new LocalDate(this.year, this.month, this.day);
+    }
+
+    /** The local time of the DateTime in its TimeZone. */
+    public toLocalTime(): LocalTime
+    {
+        return new LocalTime(this.hour, this.minute, this.second, this.ms);
+    }
+
+    /** The local date and time of the DateTime in its TimeZone. */
+    public toLocalDateTime(): LocalDateTime
+    {
+        return new LocalDateTime(this.year, this.month, this.day, this.hour, this.minute, this.second, this.ms);
     }
 
     /**
-     * Generate an ISO8601 date-time string for the DateTime.
+     * Add an amount of time to the DateTime.
      *
-     * This provides some compatibility with JavaScript Date objects.
+     * The calendar units (years, months, weeks and days) are added first, to the local wall-clock date in the DateTime's
+     * TimeZone, keeping the wall-clock time the same. If the resulting day doesn't exist in the resulting month, the last
+     * day of that month is used - for example, adding one month to 31st January gives the last day of February. The
+     * exact units (hours, minutes, seconds and ms) are then added as elapsed time, regardless of any change in the offset
+     * from UTC.
+     *
+     * @param duration The amount of time to add. All amounts must be integers, and can be negative.
+     * @param disambiguation How to resolve a wall-clock time that is ambiguous or doesn't exist after the calendar units
+     * have been added. Defaults to Earlier.
+     *
+     * @return A new DateTime.
+     * @throws DateTimeError if any amount is not an integer, or the resulting date-time is not valid.
      */
-    public toISOString(): string
+    public plus(duration: Duration, disambiguation: Disambiguation = Disambiguation.Earlier): DateTime
     {
-        this.formatter.formatString = DateTimeFormatter.formatStringIso8601;
-        return this.formatter.format(this);
+        const amounts = DateTime.durationAmounts(duration);
+        const days = (amounts.weeks * 7) + amounts.days;
+        let dateTime: DateTime = this;
+
+        if (0 !== amounts.years || 0 !== amounts.months || 0 !== days) {
+            const months = (this.year * 12) + (this.month - 1) + (amounts.years * 12) + amounts.months;
+            const year = Math.floor(months / 12);
+            const month = months - (year * 12) + 1;
+            let day = this.day;
+
+            while (!DateTime.isValidDay(day, month, year)) {
+                --day;
+            }
+
+            // let Date do the arithmetic for days, which may cross month and year boundaries
+            const date = DateTime.utcDate(year, month, day + days);
+            dateTime = DateTime.fromDateTime(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), this.hour, this.minute, this.second, this.ms, this.timeZone, disambiguation);
+        }
+
+        const elapsed = (amounts.hours * 60 * 60 * 1000) + (amounts.minutes * 60 * 1000) + (amounts.seconds * 1000) + amounts.ms;
+        return (0 === elapsed ? dateTime : dateTime.withTimestamp(dateTime.timestamp + elapsed));
     }
 
     /**
-     * Helper to validate a year for a DateTime object.
+     * Subtract an amount of time from the DateTime.
      *
-     * @return `true` if the year is valid, `false` if not.
+     * This is the same as adding the negated amount of time - see plus().
+     *
+     * @param duration The amount of time to subtract. All amounts must be integers, and can be negative.
+     * @param disambiguation How to resolve a wall-clock time that is ambiguous or doesn't exist after the calendar units
+     * have been subtracted. Defaults to Earlier.
+     *
+     * @return A new DateTime.
+     * @throws DateTimeError if any amount is not an integer, or the resulting date-time is not valid.
      */
-    private static isValidYear(year: number): boolean
+    public minus(duration: Duration, disambiguation: Disambiguation = Disambiguation.Earlier): DateTime
     {
-        return 0 <= year;
+        const amounts = DateTime.durationAmounts(duration);
+
+        return this.plus({
+            years: -amounts.years,
+            months: -amounts.months,
+            weeks: -amounts.weeks,
+            days: -amounts.days,
+            hours: -amounts.hours,
+            minutes: -amounts.minutes,
+            seconds: -amounts.seconds,
+            ms: -amounts.ms,
+        }, disambiguation);
     }
 
     /**
-     * Helper to validate a month for a DateTime object.
+     * Helper to validate a Duration and fill in the amounts it omits.
      *
-     * @return `true` if the month is valid, `false` if not.
+     * @throws DateTimeError if any amount is not an integer.
      */
-    private static isValidMonth(month: number): boolean
+    private static durationAmounts(duration: Duration): Required<Duration>
     {
-        return 1 <= month && 12 >= month;
+        const amounts = {
+            years: duration.years ?? 0,
+            months: duration.months ?? 0,
+            weeks: duration.weeks ?? 0,
+            days: duration.days ?? 0,
+            hours: duration.hours ?? 0,
+            minutes: duration.minutes ?? 0,
+            seconds: duration.seconds ?? 0,
+            ms: duration.ms ?? 0,
+        };
+
+        for (const unit in amounts) {
+            if (!Number.isInteger(amounts[unit as keyof Duration])) {
+                throw new DateTimeError(`Expected integer number of ${unit}, found ${amounts[unit as keyof Duration]}.`);
+            }
+        }
+
+        return amounts;
     }
 
     /**
-     * Helper to validate a day for a DateTime object.
+     * Calculate the difference between the DateTime and another, as an amount of time in calendar and exact units.
      *
-     * The validation accounts for the month it's being used with, and whether the year it's being used with is a leap
-     * year. It doesn't (yet) validate against the transition to the Gregorian calendar.
+     * Calendar units are counted on the local calendar of the chosen TimeZone, in the same way that plus() adds them, so
+     * that adding the difference to the DateTime gives the other DateTime (subject to rounding). For example, the
+     * difference from 31st January to 28th February is one month, since adding one month to 31st January gives the last
+     * day of February. Weeks are only used if they are the largest or smallest unit. If the other DateTime is earlier,
+     * all the amounts are negative.
      *
-     * @return `true` if the day is valid, `false` if not.
+     * @param other The other DateTime.
+     * @param options The units, rounding and TimeZone to use.
+     *
+     * @return The difference, with all units present.
+     * @throws DateTimeError if the largest unit is smaller than the smallest unit.
      */
-    private static isValidDay(day: number, month: number, year: number): boolean
+    public until(other: DateTime, options: DifferenceOptions = {}): Duration
     {
-        let max: number;
+        const largestUnit = options.largestUnit ?? DateTimeUnit.Year;
+        const smallestUnit = options.smallestUnit ?? DateTimeUnit.Millisecond;
 
-        switch (month) {
-            case 2:
-                // - leap year every 4 years
-                // - except every 100 years when it's not
-                // - except every 400 years when it is again
-                if (0 === year % 4 && (0 !== year % 100 || 0 === year % 400)) {
-                    max = 29;
-                } else {
-                    max = 28;
-                }
+        if (largestUnit > smallestUnit) {
+            throw new DateTimeError(`Expected largest unit ${DateTimeUnit[largestUnit]} not to be smaller than smallest unit ${DateTimeUnit[smallestUnit]}.`);
+        }
+
+        const timeZone = options.timeZone ?? this.timeZone;
+        const start = this.withTimeZone(timeZone);
+        const end = other.withTimeZone(timeZone);
+        let difference = DateTime.difference(start, end, largestUnit, smallestUnit);
+        const rounding = options.rounding ?? RoundingMode.Trunc;
+        const anchor = start.plus(difference);
+
+        if (RoundingMode.Trunc === rounding || anchor.timestamp === end.timestamp) {
+            return difference;
+        }
+
+        // measure the remainder as a fraction of the smallest unit at the point in time at which it applies
+        const sign = (end.timestamp < start.timestamp ? -1 : 1);
+        const key = DateTime.DurationKeys[smallestUnit];
+        const next = start.plus({...difference, [key]: difference[key] + sign});
+        const fraction = (end.timestamp - anchor.timestamp) / (next.timestamp - anchor.timestamp);
+        let roundAway: boolean;
+
+        switch (rounding) {
+            case RoundingMode.Floor:
+                roundAway = (0 > sign);
                 break;
 
-            case 9:
-            case 4:
-            case 6:
-            case 11:
-                max = 30;
+            case RoundingMode.Ceil:
+                roundAway = (0 < sign);
                 break;
 
             default:
-                max = 31;
+                roundAway = (0.5 <= fraction);
         }
 
-        return 1 <= day && max >= day;
-    }
+        if (roundAway) {
+            // recalculate rather than just incrementing so that the difference is balanced (e.g. 12 months is 1 year)
+            difference = DateTime.difference(start, next, largestUnit, smallestUnit);
+        }
 
-    /**
-     * Helper to validate an hour for a DateTime object.
-     *
-     * @return `true` if the hour is valid, `false` if not.
-     */
-    private static isValidHour(hour: number): boolean
-    {
-        return 0 <= hour && 23 >= hour;
+        return difference;
     }
 
-    /**
-     * Helper to validate a minute for a DateTime object.
-     *
-     * @return `true` if the minute is valid, `false` if not.
-     */
-    private static isValidMinute(minute: number): boolean
+    /** Helper to fetch the number of days since 1970-01-01 of the local date of a DateTime. */
+    private static localDayNumber(dateTime: DateTime): number
     {
-        return 0 <= minute && 59 >= minute;
+        return Math.round(DateTime.utcDate(dateTime.year, dateTime.month, dateTime.day).getTime() / (24 * 60 * 60 * 1000));
     }
 
     /**
-     * Helper to validate a second for a DateTime object.
+     * Helper to calculate the truncated difference between two DateTimes in the same TimeZone.
      *
-     * @return `true` if the second is valid, `false` if not.
+     * Calendar units are counted by estimating from the local dates and stepping back if the estimate overshoots, so the
+     * result is consistent with plus().
      */
-    private static isValidSecond(second: number): boolean
+    private static difference(start: DateTime, end: DateTime, largestUnit: DateTimeUnit, smallestUnit: DateTimeUnit): Duration
     {
-        return 0 <= second && 59 >= second;
+        const sign = (end.timestamp < start.timestamp ? -1 : 1);
+        const overshoots = (candidate: DateTime) => (0 < sign ? candidate.timestamp > end.timestamp : candidate.timestamp < end.timestamp);
+        let months = 0;
+        let days = 0;
+
+        if (DateTimeUnit.Month >= largestUnit) {
+            months = ((end.year - start.year) * 12) + (end.month - start.month);
+
+            if (overshoots(start.plus({months: months}))) {
+                months -= sign;
+            }
+        }
+
+        if (DateTimeUnit.Day >= largestUnit) {
+            days = DateTime.localDayNumber(end) - DateTime.localDayNumber(start.plus({months: months}));
+
+            if (overshoots(start.plus({months: months, days: days}))) {
+                days -= sign;
+            }
+        }
+
+        let remainder = end.timestamp - start.plus({months: months, days: days}).timestamp;
+        const amounts = [0, 0, 0, 0, 0, 0, 0, 0];
+
+        if (DateTimeUnit.Year === largestUnit) {
+            amounts[DateTimeUnit.Year] = Math.trunc(months / 12);
+            months -= amounts[DateTimeUnit.Year] * 12;
+        }
+
+        amounts[DateTimeUnit.Month] = months;
+
+        if (DateTimeUnit.Week === largestUnit || DateTimeUnit.Week === smallestUnit) {
+            amounts[DateTimeUnit.Week] = Math.trunc(days / 7);
+            days -= amounts[DateTimeUnit.Week] * 7;
+        }
+
+        amounts[DateTimeUnit.Day] = days;
+
+        // the exact units, largest first, with their sizes in ms
+        const exact: [DateTimeUnit, number][] = [
+            [DateTimeUnit.Hour, 60 * 60 * 1000],
+            [DateTimeUnit.Minute, 60 * 1000],
+            [DateTimeUnit.Second, 1000],
+            [DateTimeUnit.Millisecond, 1],
+        ];
+
+        for (const [unit, size] of exact) {
+            if (unit >= largestUnit) {
+                amounts[unit] = Math.trunc(remainder / size);
+                remainder -= amounts[unit] * size;
+            }
+        }
+
+        const duration: {[key: string]: number} = {};
+
+        for (let unit = DateTimeUnit.Year; unit <= DateTimeUnit.Millisecond; ++unit) {
+            // truncate units smaller than the smallest unit, and avoid -0
+            duration[DateTime.DurationKeys[unit]] = (unit > smallestUnit ? 0 : amounts[unit] + 0);
+        }
+
+        return duration as Duration;
     }
 
     /**
-     * Helper to validate a millisecond for a DateTime object.
+     * Fetch the start of the calendar period containing the DateTime, on the local wall clock of its TimeZone.
      *
-     * @param ms The millisecond to validate.
+     * For example, the start of the day is local midnight, and the start of the quarter is midnight on the first day of
+     * January, April, July or October. If the start of the period doesn't exist on the wall clock because the clocks
+     * went forward, the first point in time after the gap is used.
      *
-     * @return `true` if the millisecond is valid, `false` if not.
+     * @param period The period.
+     * @param firstDayOfWeek The day on which weeks start. Defaults to Monday, as in ISO 8601.
+     *
+     * @return A new DateTime, in the same TimeZone.
      */
-    private static isValidMs(ms: number): boolean
+    public startOf(period: DateTimePeriod, firstDayOfWeek: Weekday = Weekday.Monday): DateTime
     {
-        return 0 <= ms && 999 >= ms;
+        const [unit, increment] = DateTime.PeriodUnits[period];
+        return this.atLocalTime(this.slot(unit, increment, firstDayOfWeek)[0]);
     }
 
     /**
-     * Create a new DateTime instance from an ECMA timestamp.
+     * Fetch the end of the calendar period containing the DateTime, on the local wall clock of its TimeZone.
      *
-     * @param timestamp The ECMA timestamp to use to create the DateTime.
-     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     * The end of the period is the last millisecond before the start of the next period, e.g. 23:59:59.999 for a day.
      *
-     * @return The created DateTime instance.
+     * @param period The period.
+     * @param firstDayOfWeek The day on which weeks start. Defaults to Monday, as in ISO 8601.
+     *
+     * @return A new DateTime, in the same TimeZone.
+     * @throws DateTimeError if the next period starts outside the ECMAScript time range.
      */
-    public static fromTimestamp(timestamp: number, timeZone: TimeZone = TimeZone.utc): DateTime
+    public endOf(period: DateTimePeriod, firstDayOfWeek: Weekday = Weekday.Monday): DateTime
     {
-        return new DateTime(timestamp, timeZone);
+        const [unit, increment] = DateTime.PeriodUnits[period];
+        return this.withTimestamp(this.atLocalTime(this.slot(unit, increment, firstDayOfWeek)[1]).timestamp - 1);
     }
 
     /**
-     * Create a new DateTime instance.
+     * Round the DateTime to a multiple of a unit, on the local wall clock of its TimeZone.
      *
-     * This method throws if any of the date-time components is not valid. Months are from 1 (January) to 12 (December),
-     * unlike built-in JS Date objects which measure months from 0 (January) to 11 (December). The day must be valid for
-     * the month and year.
+     * Slots are aligned to the next larger unit, so 15-minute slots start on the hour and at 15, 30 and 45 minutes past,
+     * and 3-month slots are the quarters. Years are aligned to year 0. For HalfExpand, the nearer of the start and end of
+     * the slot is measured in elapsed time, and a DateTime exactly halfway is rounded to the end.
      *
-     * @param year The year to use to create the DateTime.
-     * @param month The month to use to create the DateTime.
-     * @param day The day to use to create the DateTime.
-     * @param hour The hour to use to create the DateTime.
-     * @param minute The minute to use to create the DateTime.
-     * @param second The second to use to create the DateTime.
-     * @param ms The millisecond to use to create the DateTime.
-     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     * @param unit The unit to round to.
+     * @param options The increment, mode and first day of the week to use.
      *
-     * @return The created DateTime instance.
-     * @throws DateTimeError if the requested date and/or time is not valid.
+     * @return A new DateTime, in the same TimeZone.
+     * @throws DateTimeError if the increment is not valid for the unit, or the result is outside the ECMAScript time range.
      */
-    public static fromDateTime(year: number, month: number, day: number, hour: number, minute: number, second: number, ms: number = 0, timeZone: TimeZone = TimeZone.utc): DateTime
+    public round(unit: DateTimeUnit, options: RoundingOptions = {}): DateTime
     {
-        if (!DateTime.isValidYear(year)) {
-            throw new DateTimeError(`Expected valid year, found ${year}.`);
-        }
+        const increment = options.increment ?? 1;
+        const divisor = DateTime.IncrementDivisors[unit];
 
-        if (!DateTime.isValidMonth(month)) {
-            throw new DateTimeError(`Expected valid month, found ${month}.`);
+        if (!Number.isInteger(increment) || 1 > increment || (undefined !== divisor && 0 !== divisor % increment)) {
+            throw new DateTimeError(undefined === divisor
+                ? `Expected positive integer increment, found ${increment}.`
+                : `Expected increment that divides evenly into ${divisor}, found ${increment}.`);
         }
 
-        if (!DateTime.isValidDay(day, month, year)) {
-            throw new DateTimeError(`Expected valid day, found ${day}.`);
+        const [start, end] = this.slot(unit, increment, options.firstDayOfWeek ?? Weekday.Monday);
+        const floor = this.atLocalTime(start);
+
+        if (floor.timestamp === this.timestamp) {
+            return floor;
         }
 
-        if (!DateTime.isValidHour(hour)) {
-            throw new DateTimeError(`Expected valid hour, found ${hour}.`);
+        switch (options.mode ?? RoundingMode.HalfExpand) {
+            case RoundingMode.Trunc:
+            case RoundingMode.Floor:
+                return floor;
+
+            case RoundingMode.Ceil:
+                return this.atLocalTime(end);
         }
 
-        if (!DateTime.isValidMinute(minute)) {
-            throw new DateTimeError(`Expected valid minute, found ${minute}.`);
+        const ceil = this.atLocalTime(end);
+        return (this.timestamp - floor.timestamp < ceil.timestamp - this.timestamp ? floor : ceil);
+    }
+
+    /**
+     * Helper to find the slot of a number of units containing the DateTime, on its local wall clock.
+     *
+     * @return The local start of the slot and the local start of the next slot, as ms since 1970-01-01T00:00:00.000 on
+     * the wall clock.
+     */
+    private slot(unit: DateTimeUnit, increment: number, firstDayOfWeek: Weekday): [number, number]
+    {
+        switch (unit) {
+            case DateTimeUnit.Year: {
+                const year = Math.floor(this.year / increment) * increment;
+                return [DateTime.utcDate(year, 1, 1).getTime(), DateTime.utcDate(year + increment, 1, 1).getTime()];
+            }
+
+            case DateTimeUnit.Month: {
+                const month = Math.floor((this.month - 1) / increment) * increment + 1;
+                return [DateTime.utcDate(this.year, month, 1).getTime(), DateTime.utcDate(this.year, month + increment, 1).getTime()];
+            }
+
+            case DateTimeUnit.Week: {
+                const day = this.day - ((this.weekday - firstDayOfWeek + 7) % 7);
+                return [DateTime.utcDate(this.year, this.month, day).getTime(), DateTime.utcDate(this.year, this.month, day + 7).getTime()];
+            }
+
+            case DateTimeUnit.Day:
+                return [DateTime.utcDate(this.year, this.month, this.day).getTime(), DateTime.utcDate(this.year, this.month, this.day + 1).getTime()];
         }
 
-        if (!DateTime.isValidSecond(second)) {
-            throw new DateTimeError(`Expected valid second, found ${second}.`);
+        // the exact units divide evenly into a day, so slots can be counted from local midnight
+        const size = [60 * 60 * 1000, 60 * 1000, 1000, 1][unit - DateTimeUnit.Hour] * increment;
+        const date = DateTime.utcDate(this.year, this.month, this.day);
+        const local = this.timestamp + (this.offset * 60 * 1000);
+        const start = date.getTime() + (Math.floor((local - date.getTime()) / size) * size);
+        return [start, start + size];
+    }
+
+    /**
+     * Helper to create a DateTime in the DateTime's TimeZone from a local wall-clock time.
+     *
+     * The DateTime's own offset is kept if it still applies, so that rounding in a daylight saving overlap stays in the
+     * same occurrence of the wall-clock time. Otherwise, times in a gap are moved forward by the length of the gap.
+     *
+     * @param local The wall-clock time, as ms since 1970-01-01T00:00:00.000 on the wall clock.
+     *
+     * @throws DateTimeError if the wall-clock time is outside the ECMAScript time range.
+     */
+    private atLocalTime(local: number): DateTime
+    {
+        if (Number.isNaN(new Date(local).getTime())) {
+            throw new DateTimeError("Expected result within the ECMAScript time range.");
         }
 
-        if (!DateTime.isValidMs(ms)) {
-            throw new DateTimeError(`Expected valid ms, found ${ms}.`);
+        const timestamp = local - (this.offset * 60 * 1000);
+
+        if (this.timeZone.offsetAt(timestamp) === this.offset) {
+            return this.withTimestamp(timestamp);
         }
 
-        const date = new Date();
-        date.setUTCFullYear(year, month - 1, day);
-        date.setUTCHours(hour, minute, second, ms);
-        return new DateTime(date.getTime() - (timeZone.offset * 60 * 1000), timeZone);
+        return this.withTimestamp(DateTime.resolveLocalTime(local, this.timeZone, Disambiguation.Compatible));
     }
 
     /**
-     * Create a DateTime object for the current time in a given TimeZone.
+     * Determine whether the DateTime is the same point in time as another.
      *
-     * @param timeZone The TimeZone for the DateTime object. Defaults to UTC.
-     *
-     * @return The created DateTime instance.
+     * The TimeZones are ignored, so 12:00 UTC equals 13:00 in UTC+01:00. Use wallClockEquals() to also require the same
+     * TimeZone.
      */
-    public static now(timeZone: TimeZone = TimeZone.utc): DateTime
+    public equals(other: DateTime): boolean
     {
-        return new DateTime(Date.now(), timeZone);
+        return this.timestamp === other.timestamp;
     }
 
     /**
-     * Parse an ISO8601 date-time string to a DateTime object.
+     * Determine whether the DateTime has the same fields as another, in an equal TimeZone.
      *
-     * @param dateTime The date-time string to parse.
+     * This is stricter than equals(): 12:00 UTC and 13:00 in UTC+01:00 are the same point in time, but are not equal on
+     * the wall clock. Two ambiguous times in a daylight saving overlap have the same wall-clock time but different
+     * offsets, so are not equal either.
+     */
+    public wallClockEquals(other: DateTime): boolean
+    {
+        return this.equals(other) && this.timeZone.equals(other.timeZone);
+    }
+
+    /**
+     * Compare the DateTime to another, as points in time.
      *
-     * @throws DateTimeError if the string is ill-formed or contains an invalid date-time.
+     * @return A negative number if the DateTime is before the other, a positive number if it is after, or 0 if they are
+     * the same point in time.
      */
-    public static parse(dateTime: string): DateTime
+    public compareTo(other: DateTime): number
     {
-        const result = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d{3}))?([+-]?\d{2}:?\d{2})$/.exec(dateTime);
+        return this.timestamp - other.timestamp;
+    }
 
-        if (null === result) {
-            throw new DateTimeError(`Expected valid ISO8601 date-time, found "${dateTime}".`);
-        }
+    /** Determine whether the DateTime is before another. */
+    public isBefore(other: DateTime): boolean
+    {
+        return 0 > this.compareTo(other);
+    }
 
-        return DateTime.fromDateTime(
-            Number.parseInt(result[1]),
-            Number.parseInt(result[2]),
-            Number.parseInt(result[3]),
-            Number.parseInt(result[4]),
-            Number.parseInt(result[5]),
-            Number.parseInt(result[6]),
-            (undefined === result[7] ? 0 : Number.parseInt(result[7])),
-            new TimeZone(result[8])
-        );
+    /** Determine whether the DateTime is after another. */
+    public isAfter(other: DateTime): boolean
+    {
+        return 0 < this.compareTo(other);
+    }
+
+    /**
+     * Convert the DateTime to a primitive value.
+     *
+     * Numeric contexts get the timestamp, so relational operators compare points in time (a < b) and subtraction gives
+     * the difference in ms (b - a). String contexts get the ISO 8601 string. Note that == and === compare object
+     * identity, not points in time - use equals() for that.
+     */
+    public [Symbol.toPrimitive](hint: string): number|string
+    {
+        return ("number" === hint ? this.timestamp : this.toISOString());
+    }
+
+    /** Get the formatter for the DateTime. */
+    protected get formatter(): DateTimeFormatter
+    {
+        if (undefined === this.m_formatter) {
+            this.m_formatter = new DateTimeFormatter();
+        }
+
+        return this.m_formatter;
+    }
+
+    /**
+     * Generate an ISO8601 date-time string for the DateTime.
+     *
+     * This provides some compatibility with JavaScript Date objects.
+     */
+    public toISOString(): string
+    {
+        this.formatter.formatString = DateTimeFormatter.formatStringIso8601;
+        return this.formatter.format(this);
+    }
+
+    /**
+     * Convert the DateTime to a value for JSON.stringify().
+     *
+     * The value is an RFC 3339 date-time string with the offset. If the TimeZone is named, its name follows in brackets,
+     * as in RFC 9557, e.g. 2024-07-01T09:30:00.000+01:00[Europe/London]. Use fromJSON() or reviver() to recreate the
+     * DateTime.
+     */
+    public toJSON(): string
+    {
+        return this.toISOString() + (undefined === this.timeZone.name ? "" : `[${this.timeZone.name}]`);
+    }
+
+    /** Generate an RFC 2822 date-time string for the DateTime, as used in email headers. */
+    public toRfc2822String(): string
+    {
+        return DateTimeFormatter.formatterRfc2822.format(this);
+    }
+
+    /**
+     * Generate an RFC 7231 HTTP-date string for the DateTime.
+     *
+     * The preferred IMF-fixdate form is used. HTTP-dates are always in GMT, so the DateTime is converted to UTC.
+     */
+    public toHttpDateString(): string
+    {
+        return DateTimeFormatter.formatterImfFixdate.format(this.withTimeZone(TimeZone.utc));
+    }
+
+    /**
+     * Validate a year for a DateTime, LocalDate or LocalDateTime.
+     *
+     * Years use astronomical numbering: year 0 is 1 BCE, year -1 is 2 BCE, and so on. Any year in the ECMAScript time
+     * range (-271821 to 275760) is valid, although not every date in the first and last years is.
+     *
+     * @return `true` if the year is valid, `false` if not.
+     */
+    public static isValidYear(year: number): boolean
+    {
+        return Number.isInteger(year) && DateTime.MinYear <= year && DateTime.MaxYear >= year;
+    }
+
+    /**
+     * Validate a month for a DateTime, LocalDate or LocalDateTime.
+     *
+     * @return `true` if the month is valid, `false` if not.
+     */
+    public static isValidMonth(month: number): boolean
+    {
+        return 1 <= month && 12 >= month;
+    }
+
+    /**
+     * Validate a day for a DateTime, LocalDate or LocalDateTime.
+     *
+     * The validation accounts for the month it's being used with, and whether the year it's being used with is a leap
+     * year. DateTime uses the proleptic Gregorian calendar, so this doesn't validate against the transition from the
+     * Julian calendar - use a hybrid CalendarSystem for that.
+     *
+     * @return `true` if the day is valid, `false` if not.
+     */
+    public static isValidDay(day: number, month: number, year: number): boolean
+    {
+        let max: number;
+
+        switch (month) {
+            case 2:
+                // - leap year every 4 years
+                // - except every 100 years when it's not
+                // - except every 400 years when it is again
+                if (0 === year % 4 && (0 !== year % 100 || 0 === year % 400)) {
+                    max = 29;
+                } else {
+                    max = 28;
+                }
+                break;
+
+            case 9:
+            case 4:
+            case 6:
+            case 11:
+                max = 30;
+                break;
+
+            default:
+                max = 31;
+        }
+
+        return 1 <= day && max >= day;
+    }
+
+    /**
+     * Validate an hour for a DateTime, LocalTime or LocalDateTime.
+     *
+     * @return `true` if the hour is valid, `false` if not.
+     */
+    public static isValidHour(hour: number): boolean
+    {
+        return 0 <= hour && 23 >= hour;
+    }
+
+    /**
+     * Validate a minute for a DateTime, LocalTime or LocalDateTime.
+     *
+     * @return `true` if the minute is valid, `false` if not.
+     */
+    public static isValidMinute(minute: number): boolean
+    {
+        return 0 <= minute && 59 >= minute;
+    }
+
+    /**
+     * Validate a second for a DateTime, LocalTime or LocalDateTime.
+     *
+     * @return `true` if the second is valid, `false` if not.
+     */
+    public static isValidSecond(second: number): boolean
+    {
+        return 0 <= second && 59 >= second;
+    }
+
+    /**
+     * Validate a millisecond for a DateTime, LocalTime or LocalDateTime.
+     *
+     * @param ms The millisecond to validate.
+     *
+     * @return `true` if the millisecond is valid, `false` if not.
+     */
+    public static isValidMs(ms: number): boolean
+    {
+        return 0 <= ms && 999 >= ms;
+    }
+
+    /**
+     * Create a Date for midnight UTC on a date.
+     *
+     * Unlike Date.UTC(), years 0..99 are not mapped to 1900..1999. Months and days outside their usual ranges roll over
+     * into the adjacent months and years, as they do with Date.UTC().
+     *
+     * @param year The year.
+     * @param month The month (1..12).
+     * @param day The day of the month.
+     *
+     * @return The Date, which is invalid if the date is outside the ECMAScript time range.
+     */
+    public static utcDate(year: number, month: number, day: number): Date
+    {
+        const date = new Date(0);
+        date.setUTCFullYear(year, month - 1, day);
+        return date;
+    }
+
+    /**
+     * Helper to resolve a local wall-clock time in a TimeZone to an ECMA timestamp.
+     *
+     * @param local The wall-clock time, expressed as ms since 1970-01-01T00:00:00.000 on the local clock.
+     * @param timeZone The TimeZone in which the wall-clock time is expressed.
+     * @param disambiguation How to resolve wall-clock times that are ambiguous or don't exist.
+     *
+     * @return The ECMA timestamp.
+     * @throws DateTimeError if the wall-clock time is ambiguous or doesn't exist and disambiguation is Reject.
+     */
+    private static resolveLocalTime(local: number, timeZone: TimeZone, disambiguation: Disambiguation): number
+    {
+        const day = 24 * 60 * 60 * 1000;
+        const candidates: number[] = [];
+        const valid: number[] = [];
+
+        // the offsets either side of the wall-clock time are the only ones that can apply, assuming transitions are
+        // more than a day apart
+        for (const offset of [timeZone.offsetAt(local - day), timeZone.offsetAt(local + day)]) {
+            const timestamp = local - (offset * 60 * 1000);
+
+            if (0 <= candidates.indexOf(timestamp)) {
+                continue;
+            }
+
+            candidates.push(timestamp);
+
+            if (timeZone.offsetAt(timestamp) === offset) {
+                valid.push(timestamp);
+            }
+        }
+
+        if (1 === valid.length) {
+            return valid[0];
+        }
+
+        if (Disambiguation.Reject === disambiguation) {
+            throw new DateTimeError(0 === valid.length ? "The local time does not exist in the time zone." : "The local time is ambiguous in the time zone.");
+        }
+
+        if (Disambiguation.Later === disambiguation || (Disambiguation.Compatible === disambiguation && 0 === valid.length)) {
+            return Math.max(...candidates);
+        }
+
+        return Math.min(...candidates);
+    }
+
+    /**
+     * Create a new DateTime instance from an ECMA timestamp.
+     *
+     * @param timestamp The ECMA timestamp to use to create the DateTime.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the timestamp is outside the ECMAScript time range.
+     */
+    public static fromTimestamp(timestamp: number, timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        return new DateTime(timestamp, timeZone);
+    }
+
+    /**
+     * Create a new DateTime instance from a native Date.
+     *
+     * @param date The Date. Its point in time is used; Dates have no time zone of their own.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the Date is invalid.
+     */
+    public static fromDate(date: Date, timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        const timestamp = date.getTime();
+
+        if (Number.isNaN(timestamp)) {
+            throw new DateTimeError("Expected valid Date, found Invalid Date.");
+        }
+
+        return new DateTime(timestamp, timeZone);
+    }
+
+    /**
+     * Create a new DateTime instance from a Julian Date.
+     *
+     * @param julianDay The Julian Date: the number of days since noon UTC on 1 January 4713 BC (proleptic Julian).
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     *
+     * @return The created DateTime instance.
+     */
+    public static fromJulianDay(julianDay: number, timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        return new DateTime(Math.round((julianDay - DateTime.UnixEpochJulianDay) * 86400000), timeZone);
+    }
+
+    /**
+     * Create a new DateTime instance from a Modified Julian Date.
+     *
+     * @param modifiedJulianDay The Modified Julian Date: the number of days since 1858-11-17T00:00:00 UTC.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     *
+     * @return The created DateTime instance.
+     */
+    public static fromModifiedJulianDay(modifiedJulianDay: number, timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        return DateTime.fromJulianDay(modifiedJulianDay + DateTime.ModifiedJulianDayOffset, timeZone);
+    }
+
+    /**
+     * Create a new DateTime instance from a TAI timestamp.
+     *
+     * @param tai The TAI timestamp: ms on the TAI scale since 1970-01-01T00:00:00 TAI. See LeapSeconds.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     * @param leapSecondPolicy How to map points in time during a leap second. Defaults to Clamp.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the point in time is during a leap second and the policy is Reject.
+     */
+    public static fromTaiTimestamp(tai: number, timeZone: TimeZone = TimeZone.utc, leapSecondPolicy: LeapSecondPolicy = LeapSecondPolicy.Clamp): DateTime
+    {
+        const timestamp = LeapSeconds.taiToUtc(tai, leapSecondPolicy);
+
+        if (undefined === timestamp) {
+            throw new DateTimeError(`Expected TAI timestamp outside a leap second, found ${tai}.`);
+        }
+
+        return new DateTime(timestamp, timeZone);
+    }
+
+    /**
+     * Create a new DateTime instance from a GPS timestamp.
+     *
+     * @param gps The GPS timestamp: ms on the GPS scale since the GPS epoch, 1980-01-06T00:00:00 UTC. For a GPS week
+     * number and time of week, this is week * 604800000 plus the time of week in ms.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     * @param leapSecondPolicy How to map points in time during a leap second. Defaults to Clamp.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the point in time is during a leap second and the policy is Reject.
+     */
+    public static fromGpsTimestamp(gps: number, timeZone: TimeZone = TimeZone.utc, leapSecondPolicy: LeapSecondPolicy = LeapSecondPolicy.Clamp): DateTime
+    {
+        return DateTime.fromTaiTimestamp(gps + DateTime.GpsEpochTai, timeZone, leapSecondPolicy);
+    }
+
+    /**
+     * Create a new DateTime instance.
+     *
+     * This method throws if any of the date-time components is not valid. Months are from 1 (January) to 12 (December),
+     * unlike built-in JS Date objects which measure months from 0 (January) to 11 (December). The day must be valid for
+     * the month and year. Years use astronomical numbering (year 0 is 1 BCE), and years 0 to 99 are taken literally,
+     * not as 1900 to 1999.
+     *
+     * Where the TimeZone observes daylight saving, the requested date and time is local wall-clock time. Wall-clock times
+     * that fall in the overlap when clocks go back occur twice, and those that fall in the gap when clocks go forward
+     * don't occur at all. The disambiguation argument determines how these are resolved: Earlier and Later pick the
+     * earlier or later of the two candidate points in time (for a gap, these are the points in time at which the
+     * wall-clock time would be reached using the offsets either side of the gap); Reject throws.
+     *
+     * @param year The year to use to create the DateTime.
+     * @param month The month to use to create the DateTime.
+     * @param day The day to use to create the DateTime.
+     * @param hour The hour to use to create the DateTime.
+     * @param minute The minute to use to create the DateTime.
+     * @param second The second to use to create the DateTime.
+     * @param ms The millisecond to use to create the DateTime.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     * @param disambiguation How to resolve wall-clock times that are ambiguous or don't exist. Defaults to Earlier.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the requested date and/or time is not valid, or doesn't exist or is ambiguous in the
+     * TimeZone and disambiguation is Reject, or is outside the ECMAScript time range.
+     */
+    public static fromDateTime(year: number, month: number, day: number, hour: number, minute: number, second: number, ms: number = 0, timeZone: TimeZone = TimeZone.utc, disambiguation: Disambiguation = Disambiguation.Earlier): DateTime
+    {
+        if (!DateTime.isValidYear(year)) {
+            throw new DateTimeError(`Expected valid year, found ${year}.`);
+        }
+
+        if (!DateTime.isValidMonth(month)) {
+            throw new DateTimeError(`Expected valid month, found ${month}.`);
+        }
+
+        if (!DateTime.isValidDay(day, month, year)) {
+            throw new DateTimeError(`Expected valid day, found ${day}.`);
+        }
+
+        if (!DateTime.isValidHour(hour)) {
+            throw new DateTimeError(`Expected valid hour, found ${hour}.`);
+        }
+
+        if (!DateTime.isValidMinute(minute)) {
+            throw new DateTimeError(`Expected valid minute, found ${minute}.`);
+        }
+
+        if (!DateTime.isValidSecond(second)) {
+            throw new DateTimeError(`Expected valid second, found ${second}.`);
+        }
+
+        if (!DateTime.isValidMs(ms)) {
+            throw new DateTimeError(`Expected valid ms, found ${ms}.`);
+        }
+
+        const date = DateTime.utcDate(year, month, day);
+        date.setUTCHours(hour, minute, second, ms);
+
+        if (Number.isNaN(date.getTime())) {
+            throw new DateTimeError(`Expected date-time within the ECMAScript time range, found ${year}-${month}-${day}.`);
+        }
+
+        return new DateTime(DateTime.resolveLocalTime(date.getTime(), timeZone, disambiguation), timeZone);
+    }
+
+    /**
+     * Create a new DateTime instance from an ISO 8601 week date.
+     *
+     * @param weekYear The ISO week-numbering year.
+     * @param week The ISO week (1..52, or 1..53 in years with 53 weeks).
+     * @param day The ISO day of the week (1 = Monday, 7 = Sunday).
+     * @param hour The hour. Defaults to 0.
+     * @param minute The minute. Defaults to 0.
+     * @param second The second. Defaults to 0.
+     * @param ms The millisecond. Defaults to 0.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     * @param disambiguation How to resolve wall-clock times that are ambiguous or don't exist. Defaults to Earlier.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the week date or time is not valid, or the wall-clock time doesn't exist or is ambiguous in
+     * the TimeZone and disambiguation is Reject.
+     */
+    public static fromIsoWeekDate(weekYear: number, week: number, day: number, hour: number = 0, minute: number = 0, second: number = 0, ms: number = 0, timeZone: TimeZone = TimeZone.utc, disambiguation: Disambiguation = Disambiguation.Earlier): DateTime
+    {
+        if (!DateTime.isValidYear(weekYear)) {
+            throw new DateTimeError(`Expected valid week-numbering year, found ${weekYear}.`);
+        }
+
+        const date = DateTime.isoWeekOneMonday(weekYear);
+        const weeks = Math.round((DateTime.isoWeekOneMonday(weekYear + 1).getTime() - date.getTime()) / (7 * 86400000));
+
+        if (!Number.isInteger(week) || 1 > week || weeks < week) {
+            throw new DateTimeError(`Expected valid week between 1 and ${weeks}, found ${week}.`);
+        }
+
+        if (!Number.isInteger(day) || 1 > day || 7 < day) {
+            throw new DateTimeError(`Expected valid ISO day of the week between 1 and 7, found ${day}.`);
+        }
+
+        date.setUTCDate(date.getUTCDate() + ((week - 1) * 7) + (day - 1));
+        return DateTime.fromDateTime(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, second, ms, timeZone, disambiguation);
+    }
+
+    /**
+     * Create a new DateTime instance from an ordinal date (a year and a day of the year).
+     *
+     * @param year The year.
+     * @param dayOfYear The day of the year (1..365, or 1..366 in leap years).
+     * @param hour The hour. Defaults to 0.
+     * @param minute The minute. Defaults to 0.
+     * @param second The second. Defaults to 0.
+     * @param ms The millisecond. Defaults to 0.
+     * @param timeZone The TimeZone for the new DateTime. Defaults to UTC.
+     * @param disambiguation How to resolve wall-clock times that are ambiguous or don't exist. Defaults to Earlier.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the ordinal date or time is not valid, or the wall-clock time doesn't exist or is ambiguous
+     * in the TimeZone and disambiguation is Reject.
+     */
+    public static fromOrdinalDate(year: number, dayOfYear: number, hour: number = 0, minute: number = 0, second: number = 0, ms: number = 0, timeZone: TimeZone = TimeZone.utc, disambiguation: Disambiguation = Disambiguation.Earlier): DateTime
+    {
+        if (!DateTime.isValidYear(year)) {
+            throw new DateTimeError(`Expected valid year, found ${year}.`);
+        }
+
+        const days = (DateTime.isValidDay(29, 2, year) ? 366 : 365);
+
+        if (!Number.isInteger(dayOfYear) || 1 > dayOfYear || days < dayOfYear) {
+            throw new DateTimeError(`Expected valid day of the year between 1 and ${days}, found ${dayOfYear}.`);
+        }
+
+        const date = DateTime.utcDate(year, 1, dayOfYear);
+        return DateTime.fromDateTime(year, date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, second, ms, timeZone, disambiguation);
+    }
+
+    /**
+     * Create a DateTime object for the current time in a given TimeZone.
+     *
+     * @param timeZone The TimeZone for the DateTime object. Defaults to UTC.
+     *
+     * @return The created DateTime instance.
+     */
+    public static now(timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        return new DateTime(Date.now(), timeZone);
+    }
+
+    /**
+     * Create a new DateTime instance from a string produced by toJSON().
+     *
+     * The string is parsed as for parse(). A time zone name in brackets after it sets the TimeZone, and must agree with
+     * the offset if there is one; a string with a time but no offset is taken to be wall-clock time in that TimeZone.
+     *
+     * @param json The string.
+     *
+     * @return The created DateTime instance.
+     * @throws DateTimeError if the string is ill-formed, contains an invalid date-time, names an unknown time zone or has
+     * an offset that doesn't match its time zone.
+     */
+    public static fromJSON(json: string): DateTime
+    {
+        return DateTime.fromJsonString(json, new Map<string, TimeZone>());
+    }
+
+    /**
+     * Create a reviver for JSON.parse() that recreates DateTimes.
+     *
+     * DateTimes are recreated with fromJSON() from the string values at the key paths, and from any string value that
+     * matches the pattern. For example, JSON.parse(json, DateTime.reviver({keys: ["created", "items.*.due"]})).
+     *
+     * @param options Which values to revive, and how to handle values that aren't valid.
+     *
+     * @throws DateTimeError when the reviver is called, for values that aren't valid in strict mode.
+     */
+    public static reviver(options: DateTimeReviverOptions = {}): (key: string, value: unknown) => unknown
+    {
+        const paths = (options.keys ?? []).map((path) => path.split("."));
+        const pattern = options.pattern ?? (0 === paths.length ? DateTime.JsonPattern : undefined);
+        const strict = options.strict ?? false;
+
+        // time zones are shared between the revived DateTimes, so that each caches its transitions once
+        const timeZones = new Map<string, TimeZone>();
+
+        const revive = (value: unknown): unknown => {
+            if (null === value || value instanceof DateTime) {
+                return value;
+            }
+
+            if ("string" !== typeof value) {
+                if (strict) {
+                    throw new DateTimeError(`Expected date-time string, found ${JSON.stringify(value)}.`);
+                }
+
+                return value;
+            }
+
+            try {
+                return DateTime.fromJsonString(value, timeZones);
+            } catch (err) {
+                if (strict) {
+                    throw err;
+                }
+
+                return value;
+            }
+        };
+
+        // arrays are visited as objects, keyed by their indices
+        const isObject = (value: unknown): value is Record<string, unknown> => null !== value && "object" === typeof value;
+
+        // JSON.parse() offers values bottom up, without their paths, so the paths are followed from the root
+        const visit = (holder: Record<string, unknown>, key: string, path: string[], depth: number): void => {
+            const value = holder[key];
+
+            if (depth === path.length) {
+                holder[key] = revive(value);
+            } else if (isObject(value)) {
+                for (const child of ("*" === path[depth] ? Object.keys(value) : [path[depth]])) {
+                    if (Object.prototype.hasOwnProperty.call(value, child)) {
+                        visit(value, child, path, depth + 1);
+                    }
+                }
+            }
+        };
+
+        return (key: string, value: unknown): unknown => {
+            if (undefined !== pattern && "string" === typeof value) {
+                pattern.lastIndex = 0;
+
+                if (pattern.test(value)) {
+                    return revive(value);
+                }
+            }
+
+            if ("" === key && 0 < paths.length) {
+                const root: Record<string, unknown> = {"": value};
+
+                for (const path of paths) {
+                    visit(root, "", path, 0);
+                }
+
+                return root[""];
+            }
+
+            return value;
+        };
+    }
+
+    /**
+     * Compare two DateTimes as points in time, for sorting.
+     *
+     * @return A negative number if the first is before the second, a positive number if it is after, or 0 if they are
+     * the same point in time.
+     */
+    public static compare(lhs: DateTime, rhs: DateTime): number
+    {
+        return lhs.compareTo(rhs);
+    }
+
+    /**
+     * Find the earliest of some DateTimes.
+     *
+     * @param dateTimes The DateTimes.
+     *
+     * @return The earliest DateTime. If several are the same point in time, the first of them is returned.
+     * @throws DateTimeError if no DateTimes are provided.
+     */
+    public static min(...dateTimes: DateTime[]): DateTime
+    {
+        if (0 === dateTimes.length) {
+            throw new DateTimeError("Expected at least one DateTime, found none.");
+        }
+
+        return dateTimes.reduce((min, dateTime) => (dateTime.isBefore(min) ? dateTime : min));
+    }
+
+    /**
+     * Find the latest of some DateTimes.
+     *
+     * @param dateTimes The DateTimes.
+     *
+     * @return The latest DateTime. If several are the same point in time, the first of them is returned.
+     * @throws DateTimeError if no DateTimes are provided.
+     */
+    public static max(...dateTimes: DateTime[]): DateTime
+    {
+        if (0 === dateTimes.length) {
+            throw new DateTimeError("Expected at least one DateTime, found none.");
+        }
+
+        return dateTimes.reduce((max, dateTime) => (dateTime.isAfter(max) ? dateTime : max));
+    }
+
+    /**
+     * Helper to create a DateTime from a string produced by toJSON().
+     *
+     * @param json The string.
+     * @param timeZones The TimeZones already created, by name. TimeZones created for new names are added.
+     */
+    private static fromJsonString(json: string, timeZones: Map<string, TimeZone>): DateTime
+    {
+        const result = /^([^\[]+)(?:\[([^\]]+)\])?$/.exec(json);
+
+        if (!result) {
+            throw new DateTimeError(`Expected date-time with optional time zone name, found "${json}".`);
+        }
+
+        if (undefined === result[2]) {
+            return DateTime.parse(result[1]);
+        }
+
+        let timeZone = timeZones.get(result[2]);
+
+        if (undefined === timeZone) {
+            try {
+                timeZone = new TimeZone(result[2]);
+            } catch (err) {
+                throw new DateTimeError(`Expected known time zone name in "${json}", found "${result[2]}".`);
+            }
+
+            timeZones.set(result[2], timeZone);
+        }
+
+        const parsed = DateTime.parse(result[1], timeZone);
+        const dateTime = parsed.withTimeZone(timeZone);
+
+        if (parsed.offset !== dateTime.offset) {
+            throw new DateTimeError(`Expected offset matching time zone ${result[2]} in "${json}", found ${new TimeZone(parsed.offset).toJSON()}.`);
+        }
+
+        return dateTime;
+    }
+
+    /**
+     * Helper to calculate the date of the Monday of the first ISO week of a year.
+     *
+     * The first ISO week of a year is the one that contains 4th January.
+     */
+    private static isoWeekOneMonday(year: number): Date
+    {
+        const date = DateTime.utcDate(year, 1, 4);
+        date.setUTCDate(4 - ((date.getUTCDay() + 6) % 7));
+        return date;
+    }
+
+    /**
+     * Helper to determine the ISO 8601 week-numbering year and week of a date.
+     *
+     * @return The week-numbering year and the week.
+     */
+    private static isoWeekDate(year: number, month: number, day: number): [number, number]
+    {
+        const date = DateTime.utcDate(year, month, day);
+        let weekYear = year;
+
+        if (date >= DateTime.isoWeekOneMonday(year + 1)) {
+            ++weekYear;
+        } else if (date < DateTime.isoWeekOneMonday(year)) {
+            --weekYear;
+        }
+
+        return [weekYear, Math.floor(Math.round((date.getTime() - DateTime.isoWeekOneMonday(weekYear).getTime()) / 86400000) / 7) + 1];
+    }
+
+    /**
+     * Helper to parse the date part of an ISO 8601 date-time string.
+     *
+     * Calendar dates (extended and basic format, and reduced precision), week dates and ordinal dates are supported, with
+     * four-digit years or expanded years of a sign and six digits.
+     *
+     * @return The year, month and day.
+     * @throws DateTimeError if the date is ill-formed or invalid.
+     */
+    private static parseIsoDate(date: string): [number, number, number]
+    {
+        let result = /^([+-]\d{6}|\d{4})(?:-(\d{2})(?:-(\d{2}))?|(\d{2})(\d{2}))?$/.exec(date);
+
+        if (result) {
+            const year = DateTime.parseIsoYear(result[1], date);
+            const month = Number.parseInt(result[2] ?? result[4] ?? "1");
+            const day = Number.parseInt(result[3] ?? result[5] ?? "1");
+
+            if (!DateTime.isValidMonth(month)) {
+                throw new DateTimeError(`Expected valid month in ISO 8601 date "${date}", found ${month}.`);
+            }
+
+            if (!DateTime.isValidDay(day, month, year)) {
+                throw new DateTimeError(`Expected valid day in ISO 8601 date "${date}", found ${day}.`);
+            }
+
+            return [year, month, day];
+        }
+
+        result = /^([+-]\d{6}|\d{4})(?:-W(\d{2})(?:-([1-7]))?|W(\d{2})([1-7])?)$/.exec(date);
+
+        if (result) {
+            const year = DateTime.parseIsoYear(result[1], date);
+            const week = Number.parseInt(result[2] ?? result[4]);
+            const day = Number.parseInt(result[3] ?? result[5] ?? "1");
+            const parsed = DateTime.isoWeekOneMonday(year);
+            parsed.setUTCDate(parsed.getUTCDate() + ((week - 1) * 7) + (day - 1));
+
+            if (1 > week || parsed >= DateTime.isoWeekOneMonday(year + 1)) {
+                throw new DateTimeError(`Expected valid week in ISO 8601 week date "${date}", found ${week}.`);
+            }
+
+            return [parsed.getUTCFullYear(), parsed.getUTCMonth() + 1, parsed.getUTCDate()];
+        }
+
+        result = /^([+-]\d{6}|\d{4})-?(\d{3})$/.exec(date);
+
+        if (result) {
+            const year = DateTime.parseIsoYear(result[1], date);
+            const dayOfYear = Number.parseInt(result[2]);
+            const parsed = DateTime.utcDate(year, 1, dayOfYear);
+
+            if (1 > dayOfYear || parsed.getUTCFullYear() !== year) {
+                throw new DateTimeError(`Expected valid day of year in ISO 8601 ordinal date "${date}", found ${dayOfYear}.`);
+            }
+
+            return [year, parsed.getUTCMonth() + 1, parsed.getUTCDate()];
+        }
+
+        throw new DateTimeError(`Expected ISO 8601 calendar, week or ordinal date, found "${date}".`);
+    }
+
+    /**
+     * Helper to parse the year of an ISO 8601 date: four digits, or an expanded year of a sign and six digits.
+     *
+     * @throws DateTimeError if the year is outside the ECMAScript time range, or is -000000.
+     */
+    private static parseIsoYear(year: string, date: string): number
+    {
+        const value = Number.parseInt(year);
+
+        // ISO 8601 doesn't allow year 0 to be negative
+        if ("-000000" === year || !DateTime.isValidYear(value)) {
+            throw new DateTimeError(`Expected valid year in ISO 8601 date "${date}", found ${year}.`);
+        }
+
+        return value;
+    }
+
+    /**
+     * Helper to parse the time part (without the offset) of an ISO 8601 date-time string.
+     *
+     * Extended and basic formats and reduced precision are supported, and the smallest component present can have a
+     * decimal fraction, which is truncated to the millisecond. 24:00 (the end of the day) and a seconds value of 60 (a
+     * leap second) are supported.
+     *
+     * @return The hour, minute, second and millisecond.
+     * @throws DateTimeError if the time is ill-formed or invalid.
+     */
+    private static parseIsoTime(time: string): [number, number, number, number]
+    {
+        const result = /^(\d{2})(?:(:?)(\d{2})(?:\2(\d{2}))?)?(?:[.,](\d+))?$/.exec(time);
+
+        if (!result) {
+            throw new DateTimeError(`Expected ISO 8601 time, found "${time}".`);
+        }
+
+        const hour = Number.parseInt(result[1]);
+        const minute = Number.parseInt(result[3] ?? "0");
+        const second = Number.parseInt(result[4] ?? "0");
+
+        // express the fraction in ms of the smallest component present
+        const unit = (undefined !== result[4] ? 1000 : (undefined !== result[3] ? 60 * 1000 : 60 * 60 * 1000));
+        const digits = (result[5] ?? "0").substring(0, 9);
+        const fraction = Math.floor((Number.parseInt(digits) * unit) / Math.pow(10, digits.length));
+
+        if (24 === hour && 0 === minute && 0 === second && 0 === fraction) {
+            return [24, 0, 0, 0];
+        }
+
+        // a leap second is validated against the date by the caller
+        if (60 === second && DateTime.isValidHour(hour) && DateTime.isValidMinute(minute)) {
+            return [hour, minute, 60, fraction];
+        }
+
+        if (!DateTime.isValidHour(hour)) {
+            throw new DateTimeError(`Expected valid hour in ISO 8601 time "${time}", found ${hour}.`);
+        }
+
+        if (!DateTime.isValidMinute(minute)) {
+            throw new DateTimeError(`Expected valid minute in ISO 8601 time "${time}", found ${minute}.`);
+        }
+
+        if (!DateTime.isValidSecond(second)) {
+            throw new DateTimeError(`Expected valid second in ISO 8601 time "${time}", found ${second}.`);
+        }
+
+        const ms = (((hour * 60) + minute) * 60 + second) * 1000 + fraction;
+        return [Math.floor(ms / 3600000), Math.floor(ms / 60000) % 60, Math.floor(ms / 1000) % 60, ms % 1000];
+    }
+
+    /**
+     * Helper to parse the UTC offset of an ISO 8601 date-time string.
+     *
+     * @return The TimeZone for the offset.
+     * @throws DateTimeError if the offset is ill-formed or invalid.
+     */
+    private static parseIsoOffset(offset: string): TimeZone
+    {
+        if ("Z" === offset || "z" === offset) {
+            return TimeZone.utc;
+        }
+
+        const result = /^([+-])(\d{2})(?::?(\d{2}))?$/.exec(offset);
+
+        if (!result) {
+            throw new DateTimeError(`Expected ISO 8601 UTC offset, found "${offset}".`);
+        }
+
+        const hours = Number.parseInt(result[2]);
+        const minutes = Number.parseInt(result[3] ?? "0");
+
+        if (23 < hours || 59 < minutes) {
+            throw new DateTimeError(`Expected valid ISO 8601 UTC offset, found "${offset}".`);
+        }
+
+        return new TimeZone(("-" === result[1] ? -1 : 1) * ((hours * 60) + minutes));
+    }
+
+    /**
+     * Parse an ISO 8601 or RFC 3339 date-time string to a DateTime object.
+     *
+     * The date can be a calendar date (2024-02-01 or 20240201, or with reduced precision 2024-02 or 2024), a week date
+     * (2024-W05-4 or 2024W054, or 2024-W05 for the Monday) or an ordinal date (2024-032 or 2024032). Years outside 0000
+     * to 9999 use the expanded form of a sign and six digits, e.g. +012345-01-01 or -000044-03-15 (year 0 is 1 BCE, so
+     * that is 45 BCE). The time is optional, and is separated from the date by T or a space. It can be in extended
+     * (12:30:15) or basic (123015) format, with reduced precision (12:30 or 12), a decimal fraction on its smallest
+     * component (12:30:15.123456 or 12:30,5), which is truncated to the millisecond, or 24:00 for the end of the day. The
+     * UTC offset can be Z, ±hh:mm, ±hhmm or ±hh; if there is no offset the time is taken to be in the provided TimeZone.
+     *
+     * A seconds value of 60 is accepted for a leap second in the LeapSeconds table (e.g. 2016-12-31T23:59:60Z, or
+     * 2017-01-01T00:59:60+01:00), and is mapped to a timestamp according to the leap second policy. With the Smear
+     * policy, every time in the 24 hours around a leap second is smeared, not only the leap second itself.
+     *
+     * @param dateTime The date-time string to parse.
+     * @param timeZone The TimeZone to use if the string has no UTC offset. Defaults to UTC.
+     * @param leapSecondPolicy How to map leap seconds to timestamps. Defaults to Clamp.
+     *
+     * @throws DateTimeError if the string is ill-formed or contains an invalid date-time, including a leap second that
+     * is not in the table or any leap second if the policy is Reject. The message identifies the part of the string that
+     * is at fault.
+     */
+    public static parse(dateTime: string, timeZone: TimeZone = TimeZone.utc, leapSecondPolicy: LeapSecondPolicy = LeapSecondPolicy.Clamp): DateTime
+    {
+        const result = /^([^Tt ]+)(?:[Tt ](\d[\d:.,]*)(Z|z|[+-][\d:]+)?)?$/.exec(dateTime);
+
+        if (!result) {
+            throw new DateTimeError(`Expected ISO 8601 date-time, found "${dateTime}".`);
+        }
+
+        const [year, month, day] = DateTime.parseIsoDate(result[1]);
+        const [hour, minute, second, ms] = (undefined === result[2] ? [0, 0, 0, 0] : DateTime.parseIsoTime(result[2]));
+
+        if (undefined !== result[3]) {
+            timeZone = DateTime.parseIsoOffset(result[3]);
+        }
+
+        if (24 === hour) {
+            return DateTime.fromDateTime(year, month, day, 0, 0, 0, 0, timeZone).plus({days: 1});
+        }
+
+        if (60 === second) {
+            return DateTime.fromLeapSecond(year, month, day, hour, minute, ms, timeZone, leapSecondPolicy, dateTime);
+        }
+
+        const parsed = DateTime.fromDateTime(year, month, day, hour, minute, second, ms, timeZone);
+
+        if (LeapSecondPolicy.Smear === leapSecondPolicy) {
+            return parsed.withTimestamp(LeapSeconds.taiToUtc(parsed.taiTimestamp, leapSecondPolicy));
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Helper to create a DateTime for a time during a leap second, i.e. with a seconds value of 60.
+     *
+     * @param str The string from which the time was parsed, for error messages.
+     *
+     * @throws DateTimeError if no leap second ends at the end of the minute or the policy is Reject.
+     */
+    private static fromLeapSecond(year: number, month: number, day: number, hour: number, minute: number, ms: number, timeZone: TimeZone, leapSecondPolicy: LeapSecondPolicy, str: string): DateTime
+    {
+        const end = DateTime.fromDateTime(year, month, day, hour, minute, 59, 0, timeZone).timestamp + 1000;
+
+        if (!LeapSeconds.endsAt(end)) {
+            throw new DateTimeError(`Expected valid second in "${str}", found 60 but no leap second ends at ${new Date(end).toISOString()}.`);
+        }
+
+        if (LeapSecondPolicy.Reject === leapSecondPolicy) {
+            throw new DateTimeError(`Expected date-time outside a leap second, found "${str}".`);
+        }
+
+        return DateTime.fromTaiTimestamp(LeapSeconds.utcToTai(end) - 1000 + ms, timeZone, leapSecondPolicy);
+    }
+
+    /**
+     * Helper to remove the comments from an RFC 2822 string, replacing each with a space.
+     *
+     * Comments are enclosed in parentheses, can be nested, and can contain backslash-escaped characters.
+     *
+     * @throws DateTimeError if the comments are not balanced.
+     */
+    private static stripRfc2822Comments(str: string): string
+    {
+        let stripped = "";
+        let depth = 0;
+
+        for (let idx = 0; idx < str.length; ++idx) {
+            const ch = str[idx];
+
+            if (0 < depth && "\\" === ch) {
+                ++idx;
+            } else if ("(" === ch) {
+                ++depth;
+            } else if (")" === ch) {
+                if (0 === depth) {
+                    throw new DateTimeError(`Unexpected ")" in RFC 2822 date-time "${str}".`);
+                }
+
+                if (0 === --depth) {
+                    stripped += " ";
+                }
+            } else if (0 === depth) {
+                stripped += ch;
+            }
+        }
+
+        if (0 !== depth) {
+            throw new DateTimeError(`Expected ")" to close comment in RFC 2822 date-time "${str}".`);
+        }
+
+        return stripped;
+    }
+
+    /**
+     * Helper to validate the weekday from a parsed date-time string against the date.
+     *
+     * @throws DateTimeError if the weekday doesn't match.
+     */
+    private static checkWeekday(dateTime: DateTime, weekday: string, str: string): DateTime
+    {
+        if (undefined !== weekday && DateTime.WeekdayNames[dateTime.weekday].substring(0, weekday.length).toLowerCase() !== weekday.toLowerCase()) {
+            throw new DateTimeError(`Expected weekday ${DateTime.WeekdayNames[dateTime.weekday]} for the date in "${str}", found ${weekday}.`);
+        }
+
+        return dateTime;
+    }
+
+    /**
+     * Parse an RFC 2822 (RFC 5322) date-time string to a DateTime object, such as "Tue, 01 Jul 2003 10:52:37 +0200".
+     *
+     * The obsolete syntax is supported: comments, additional whitespace, two- and three-digit years (two-digit years
+     * before 50 are in the 2000s, others are in the 1900s) and named zones (UT, GMT and the US zones EST, EDT, CST, CDT,
+     * MST, MDT, PST and PDT). Single-letter military zones and -0000 are taken to be UTC, as the RFC recommends. The
+     * DateTime has a TimeZone with the offset in the string.
+     *
+     * @param dateTime The date-time string to parse.
+     *
+     * @throws DateTimeError if the string is ill-formed or contains an invalid date-time.
+     */
+    public static parseRfc2822(dateTime: string): DateTime
+    {
+        const str = DateTime.stripRfc2822Comments(dateTime).replace(/\s+/g, " ").trim();
+        const result = /^(?:([A-Za-z]{3}) ?, ?)?(\d{1,2}) ([A-Za-z]{3}) (\d{2,}) (\d{2}) ?: ?(\d{2})(?: ?: ?(\d{2}))? ([+-]\d{4}|[A-Za-z]{1,5})$/.exec(str);
+
+        if (!result) {
+            throw new DateTimeError(`Expected RFC 2822 date-time, found "${dateTime}".`);
+        }
+
+        const month = DateTime.MonthAbbreviations.map((name) => name.toLowerCase()).indexOf(result[3].toLowerCase()) + 1;
+
+        if (0 === month) {
+            throw new DateTimeError(`Expected month name in RFC 2822 date-time "${dateTime}", found ${result[3]}.`);
+        }
+
+        let year = Number.parseInt(result[4]);
+
+        if (2 === result[4].length) {
+            year += (50 > year ? 2000 : 1900);
+        } else if (3 === result[4].length) {
+            year += 1900;
+        }
+
+        let offset: number;
+        const zone = result[8].toUpperCase();
+
+        if ("+" === zone[0] || "-" === zone[0]) {
+            // the two digits of the hours can't exceed 99, but the minutes need checking
+            if (59 < Number.parseInt(zone.substring(3))) {
+                throw new DateTimeError(`Expected valid zone in RFC 2822 date-time "${dateTime}", found ${result[8]}.`);
+            }
+
+            const minutes = (Number.parseInt(zone.substring(1, 3)) * 60) + Number.parseInt(zone.substring(3));
+            offset = ("-" === zone[0] ? -minutes : minutes);
+        } else if (undefined !== DateTime.Rfc2822ZoneOffsets[zone]) {
+            offset = DateTime.Rfc2822ZoneOffsets[zone];
+        } else if (1 === zone.length && "J" !== zone) {
+            offset = 0;
+        } else {
+            throw new DateTimeError(`Expected zone in RFC 2822 date-time "${dateTime}", found ${result[8]}.`);
+        }
+
+        return DateTime.checkWeekday(DateTime.fromDateTime(
+            year,
+            month,
+            Number.parseInt(result[2]),
+            Number.parseInt(result[5]),
+            Number.parseInt(result[6]),
+            Number.parseInt(result[7] ?? "0"),
+            0,
+            new TimeZone(offset)
+        ), result[1], dateTime);
+    }
+
+    /**
+     * Parse an RFC 7231 HTTP-date string to a DateTime object.
+     *
+     * All three forms are supported: the preferred IMF-fixdate ("Sun, 06 Nov 1994 08:49:37 GMT"), and the obsolete RFC
+     * 850 ("Sunday, 06-Nov-94 08:49:37 GMT") and asctime ("Sun Nov  6 08:49:37 1994") forms. As the RFC requires, a
+     * two-digit year in the RFC 850 form that appears to be more than 50 years in the future is taken to be in the past
+     * century. The DateTime is in UTC.
+     *
+     * @param dateTime The date-time string to parse.
+     *
+     * @throws DateTimeError if the string is ill-formed or contains an invalid date-time.
+     */
+    public static parseHttpDate(dateTime: string): DateTime
+    {
+        const weekdays = DateTime.WeekdayNames.map((name) => name.substring(0, 3)).join("|");
+        const months = DateTime.MonthAbbreviations.join("|");
+        const time = "(\\d{2}):(\\d{2}):(\\d{2})";
+        let weekday: string;
+        let year: number;
+        let month: string;
+        let day: string;
+        let hour: string;
+        let minute: string;
+        let second: string;
+        let result = new RegExp(`^(${weekdays}), (\\d{2}) (${months}) (\\d{4}) ${time} GMT$`).exec(dateTime);
+
+        if (result) {
+            [, weekday, day, month, , hour, minute, second] = result;
+            year = Number.parseInt(result[4]);
+        } else if (result = new RegExp(`^(${DateTime.WeekdayNames.join("|")}), (\\d{2})-(${months})-(\\d{2}) ${time} GMT$`).exec(dateTime)) {
+            [, weekday, day, month, , hour, minute, second] = result;
+            year = 2000 + Number.parseInt(result[4]);
+
+            if (year > DateTime.now().year + 50) {
+                year -= 100;
+            }
+        } else if (result = new RegExp(`^(${weekdays}) (${months}) ( \\d|\\d{2}) ${time} (\\d{4})$`).exec(dateTime)) {
+            [, weekday, month, day, hour, minute, second] = result;
+            year = Number.parseInt(result[7]);
+        } else {
+            throw new DateTimeError(`Expected RFC 7231 HTTP-date, found "${dateTime}".`);
+        }
+
+        return DateTime.checkWeekday(DateTime.fromDateTime(
+            year,
+            DateTime.MonthAbbreviations.indexOf(month) + 1,
+            Number.parseInt(day.trim()),
+            Number.parseInt(hour),
+            Number.parseInt(minute),
+            Number.parseInt(second)
+        ), weekday, dateTime);
     }
 }
@@ -1,24 +1,89 @@
-import {DateTimeInterface, Weekday} from "./DateTime.js";
+import {ComponentFormatterRegistry} from "./ComponentFormatterRegistry.js";
+import {DateTime, DateTimeInterface, Weekday} from "./DateTime.js";
 import {DateTimeFormatterError} from "./DateTimeFormatterError.js";
+import {DateTimeLocale, DateTimeLocaleNameSet, DateTimeLocaleNames} from "./DateTimeLocale.js";
+import {LocalDateInterface} from "./LocalDate.js";
+import {LocalDateTimeInterface} from "./LocalDateTime.js";
+import {LocalTimeInterface} from "./LocalTime.js";
+import {LocaleDe} from "./LocaleDe.js";
+import {LocaleEn} from "./LocaleEn.js";
+import {LocaleEs} from "./LocaleEs.js";
+import {LocaleFr} from "./LocaleFr.js";
+import {LocaleJa} from "./LocaleJa.js";
+import {TimeZone} from "./TimeZone.js";
 
-type ComponentFormatter = (dateTime: DateTimeInterface, args: string) => string;
+/** Format a component of a DateTime, according to the arguments of its placeholder. */
+export type ComponentFormatter = (dateTime: DateTimeInterface, args: string, locale: DateTimeLocale) => string;
 
 type ComponentFormatterMap = {
     [specifier: string]: ComponentFormatter;
 };
 
+/**
+ * Parse a component from the start of the input, storing what it reads in the fields.
+ *
+ * Returns the number of characters consumed, or -1 if the input doesn't start with a valid component.
+ */
+export type ComponentParser = (input: string, args: string, fields: DateTimeFields, locale: DateTimeLocale) => number;
+
+type ComponentParserMap = {
+    [specifier: string]: ComponentParser;
+};
+
+type DateTimeLocaleMap = {
+    [code: string]: DateTimeLocale;
+};
+
+/** The date-time fields read by component parsers. */
+export interface DateTimeFields
+{
+    year?: number;
+    month?: number;
+    day?: number;
+    hour?: number;
+    /** The hour on the 12-hour clock (1..12), combined with the day period if the hour itself is not read. */
+    hour12?: number;
+    /** The day period: 0 before noon, 1 after. */
+    dayPeriod?: number;
+    minute?: number;
+    second?: number;
+    ms?: number;
+    weekday?: Weekday;
+    /** The ISO day of the week (1 = Monday, 7 = Sunday). */
+    isoWeekday?: number;
+    /** The ISO week. */
+    week?: number;
+    /** The ISO week-numbering year. */
+    weekYear?: number;
+    dayOfYear?: number;
+    /** The era: 0 before year 1 (BCE), 1 from year 1 (CE). */
+    era?: number;
+    /**
+     * The year of the era, which counts up from 1 in both eras: year 0 is 1 BCE, year -1 is 2 BCE, and so on. Combined
+     * with the era if the year itself is not read.
+     */
+    yearOfEra?: number;
+    /** The offset from UTC, in minutes. */
+    offset?: number;
+}
+
+/** The types of value that a DateTimeFormatter can format. */
+export type FormattableDateTime = DateTimeInterface|LocalDateTimeInterface|LocalDateInterface|LocalTimeInterface;
+
 interface DateTimeFormatterInterface
 {
     formatString: string;
 
-    format(dateTime: DateTimeInterface): string;
+    format(dateTime: FormattableDateTime): string;
+    parse(dateTime: string, timeZone?: TimeZone): DateTime;
 }
 
 /**
  * Format DateTime instances as strings, according to a format.
  *
  * The format can contain placeholders for components from the DateTime. A bunch of commonly-used components is
- * provided, but you can extend the supported formats by providing your own component formatters.
+ * provided, but you can extend the supported formats by providing your own component formatters, either process-wide
+ * with addFormatter() or in a ComponentFormatterRegistry attached to particular formatters.
  *
  * Placeholders in the format string are enclosed in {braces}. Any text not enclosed in {braces} is treated as literal
  * text which is output to the formatted date-time string verbatim. If you need a literal { in your formatted date-time
@@ -27,19 +92,31 @@ interface DateTimeFormatterInterface
  * single string - the component formatter is responsible for interpreting the arguments string.
  *
  * The following placeholders are defined internally:
- * - Y 4-digit year, left-padded with 0s if required
+ * - Y ISO 8601 year: 4 digits, left-padded with 0s if required, for years 0 to 9999, otherwise a sign and 6 digits
+ *   (e.g. -000044 or +012345)
  * - y 2-digit year, left-padded with 0s if required
- * - year:n n-digit year, left-padded with 0s if required. n is a minimum (more digits will be used if required), and
- *   defaults to 4
+ * - year:n n-digit year, left-padded with 0s if required, preceded by - for negative years. n is a minimum (more digits
+ *   will be used if required), and defaults to 4
+ * - era the era in the formatter's locale (e.g. BCE or CE). Use this with yearofera
+ * - yearofera:n n-digit year of the era, counting back from 1 BCE before year 1. n is a minimum (more digits will be
+ *   used if required), and defaults to 1
  * - M 2-digit month, left-padded with 0 if required
  * - month:n n-digit month, left-padded with 0s if required. n is a minimum (more digits will be used if required), and
  *   defaults to 1
+ * - monthname the name of the month in the formatter's locale. The arguments are the width (long, short or narrow,
+ *   defaulting to long), optionally followed by ",standalone" for the form used on its own rather than in a date - for
+ *   example, {monthname:short,standalone}
  * - D 2-digit day, left-padded with 0 if required
+ * - d 2-digit day, left-padded with a space if required
  * - day:n n-digit day, left-padded with 0s if required. n is a minimum (more digits will be used if required), and
  *   defaults to 1
+ * - ordinal the day as an ordinal in the formatter's locale (e.g. 1st)
  * - h 2-digit hour, left-padded with 0 if required
  * - hour:n n-digit hour, left-padded with 0s if required. n is a minimum (more digits will be used if required), and
  *   defaults to 1
+ * - hour12:n n-digit hour on the 12-hour clock, left-padded with 0s if required. n is a minimum (more digits will be used
+ *   if required), and defaults to 1
+ * - ampm the marker for before or after noon in the formatter's locale (e.g. AM)
  * - m 2-digit minute, left-padded with 0 if required
  * - minute:n n-digit minute, left-padded with 0s if required. n is a minimum (more digits will be used if required),
  *   and defaults to 1
@@ -48,39 +125,269 @@ interface DateTimeFormatterInterface
  *   and defaults to 1
  * - ms:n n-digit millisecond, left-padded with 0s if required. n is a minimum (more digits will be used if required),
  *   and defaults to 1
+ * - weekday the name of the day of the week in the formatter's locale. The arguments are as for monthname
+ * - isoweekday the ISO day of the week, from 1 (Monday) to 7 (Sunday)
+ * - W 2-digit ISO week, left-padded with 0 if required
+ * - week:n n-digit ISO week, left-padded with 0s if required. n is a minimum (more digits will be used if required), and
+ *   defaults to 1
+ * - G ISO week-numbering year, as for Y. Use this rather than Y with W: the first few days
+ *   of January can be in the last week of the previous year, and the last few days of December in the next year's week 1
+ * - weekyear:n n-digit ISO week-numbering year, as for year:n
+ * - dayofyear:n n-digit day of the year, left-padded with 0s if required. n is a minimum (more digits will be used if
+ *   required), and defaults to 1
  * - Z the offset from UTC as [+-]HH:MM
  * - z the offset from UTC as [+-]HHMM
  * - { a literal {
+ *
+ * Formatters can also parse date-time strings using the same format string. Each component formatter can have a matching
+ * component parser - all the internally-defined placeholders have one. Components are parsed in order, and numeric
+ * components with a variable number of digits read as many digits as they can, so these should be separated by literal
+ * text. Two-digit years are taken to be in the 2000s. Years of an era are in the CE if the string has no era.
+ *
+ * Names of months and weekdays, day periods and ordinals are provided by the formatter's locale. English, German,
+ * French, Spanish and Japanese are built in, and further locales can be added with addLocale(). The default is English.
+ * The formatters for the RFC 2822 and HTTP-date formats, such as formatterRfc2822, always use English, as the RFCs
+ * require.
  */
 export class DateTimeFormatter implements DateTimeFormatterInterface
 {
+    /** The components of a DateTimeInterface, which component formatters can read. */
+    private static readonly Components: (keyof DateTimeInterface)[] = ["timestamp", "year", "month", "day", "hour", "minute", "second", "ms", "weekday", "isoWeekday", "isoWeek", "isoWeekYear", "dayOfYear", "offset", "timeZone"];
+
+    /** The optional components of a DateTimeInterface, which can be derived from its date. */
+    private static readonly DerivedComponents: (keyof DateTimeInterface)[] = ["isoWeekday", "isoWeek", "isoWeekYear", "dayOfYear"];
+
+    /** The parsed date fields to check against the parsed DateTime, with the matching components and their names. */
+    private static readonly DateChecks: [keyof DateTimeFields, keyof DateTimeInterface, string][] = [
+        ["year", "year", "year"],
+        ["month", "month", "month"],
+        ["day", "day", "day"],
+        ["weekday", "weekday", "weekday"],
+        ["isoWeekday", "isoWeekday", "ISO day of the week"],
+        ["weekYear", "isoWeekYear", "week-numbering year"],
+        ["dayOfYear", "dayOfYear", "day of the year"],
+    ];
+
+    /** The era names used if the locale has none. */
+    private static readonly DefaultEras: [string, string] = ["BCE", "CE"];
+
     /** Regular expression to extract placeholders from the format string. */
-    private static readonly PlaceholderMatcher = /\{([^}]+)(?::([^}]+))?}/;
+    private static readonly PlaceholderMatcher = /\{([^}:]+)(?::([^}]+))?}/;
+
+    /** The internally-provided component formatters and parsers. */
+    private static builtIns?: ComponentFormatterRegistry;
+
+    /** The component formatters and parsers used by formatters without their own registry. */
+    private static defaults?: ComponentFormatterRegistry;
 
-    /** The available component formatters. */
-    private static formatters: ComponentFormatterMap = {};
+    /** The available locales, keyed by code. */
+    private static locales?: DateTimeLocaleMap;
 
     /** The format string that the formatter will use. */
     private m_format: string;
 
+    /** The locale that the formatter will use. */
+    private m_locale: DateTimeLocale;
+
+    /** The component formatters and parsers that the formatter will use. */
+    private m_registry: ComponentFormatterRegistry;
+
     /**
      * Initialise a new formatter with a given format string.
      *
      * @param format The format string.
+     * @param locale The locale, or the code of a registered locale. Defaults to English.
+     * @param registry The component formatters and parsers to use. Defaults to the default registry.
+     *
+     * @throws DateTimeFormatterError if the locale code is not registered.
      */
-    public constructor(format: string = "")
+    public constructor(format: string = "", locale: DateTimeLocale|string = "en", registry: ComponentFormatterRegistry = undefined)
     {
-        if (0 === Object.keys(DateTimeFormatter.formatters).length) {
-            DateTimeFormatter.createInternalFormatters();
+        this.m_format = format;
+        this.locale = locale;
+        this.m_registry = registry ?? DateTimeFormatter.defaultRegistry;
+    }
+
+    /**
+     * The frozen registry of the internally-provided component formatters and parsers.
+     *
+     * Extend it to create a registry with the built-in placeholders that is independent of the default registry.
+     */
+    public static get builtInRegistry(): ComponentFormatterRegistry
+    {
+        if (undefined === DateTimeFormatter.builtIns) {
+            DateTimeFormatter.builtIns = DateTimeFormatter.createInternalFormatters().freeze();
         }
 
-        this.m_format = format;
+        return DateTimeFormatter.builtIns;
+    }
+
+    /**
+     * The registry used by formatters without their own registry.
+     *
+     * It extends the built-in registry, and addFormatter() adds to it. Because it is shared by the whole process,
+     * libraries should prefer to attach their own registries to their formatters.
+     */
+    public static get defaultRegistry(): ComponentFormatterRegistry
+    {
+        if (undefined === DateTimeFormatter.defaults) {
+            DateTimeFormatter.defaults = DateTimeFormatter.builtInRegistry.extend();
+        }
+
+        return DateTimeFormatter.defaults;
+    }
+
+    /** The component formatters and parsers the formatter uses. */
+    public get registry(): ComponentFormatterRegistry
+    {
+        return this.m_registry;
+    }
+
+    /** Set the component formatters and parsers the formatter uses. */
+    public set registry(registry: ComponentFormatterRegistry)
+    {
+        this.m_registry = registry;
+    }
+
+    /** Helper to fetch the registry of locales, creating it with the built-in locales on first use. */
+    private static get localeRegistry(): DateTimeLocaleMap
+    {
+        if (undefined === DateTimeFormatter.locales) {
+            DateTimeFormatter.locales = {};
+
+            for (const locale of [LocaleEn, LocaleDe, LocaleFr, LocaleEs, LocaleJa]) {
+                DateTimeFormatter.locales[locale.code] = locale;
+            }
+        }
+
+        return DateTimeFormatter.locales;
+    }
+
+    /**
+     * Add a locale.
+     *
+     * Once added, the locale can be used by formatters by its code. A locale with the same code as an existing locale
+     * replaces it.
+     *
+     * @param locale The locale to add.
+     */
+    public static addLocale(locale: DateTimeLocale): void
+    {
+        DateTimeFormatter.localeRegistry[locale.code] = locale;
+    }
+
+    /**
+     * Fetch a registered locale.
+     *
+     * If there is no locale with the exact code, the language part of the code (before any "-") is tried, so that
+     * "de-AT" uses the German locale.
+     *
+     * @param code The locale code.
+     *
+     * @return The locale, or `undefined` if no matching locale is registered.
+     */
+    public static findLocale(code: string): DateTimeLocale|undefined
+    {
+        return DateTimeFormatter.localeRegistry[code] ?? DateTimeFormatter.localeRegistry[code.split("-")[0]];
+    }
+
+    /** The locale the formatter uses. */
+    public get locale(): DateTimeLocale
+    {
+        return this.m_locale;
+    }
+
+    /**
+     * Set the locale the formatter uses.
+     *
+     * @throws DateTimeFormatterError if the locale code is not registered.
+     */
+    public set locale(locale: DateTimeLocale|string)
+    {
+        if ("string" === typeof locale) {
+            const code = locale;
+            locale = DateTimeFormatter.findLocale(code);
+
+            if (undefined === locale) {
+                throw new DateTimeFormatterError(`Locale ${code} is not registered.`);
+            }
+        }
+
+        this.m_locale = locale;
     }
 
     /** Format string to produce IS8601 date-time strings. */
     public static get formatStringIso8601(): string
     {
-        return "{Y}-{M}-{D}T{h}:{m}:{s}.{ms}{Z}";
+        return "{Y}-{M}-{D}T{h}:{m}:{s}.{ms:3}{Z}";
+    }
+
+    /**
+     * Format string to produce RFC 2822 date-time strings, as used in email headers.
+     *
+     * RFC 2822 names are always English, so use this with an English formatter such as formatterRfc2822.
+     */
+    public static get formatStringRfc2822(): string
+    {
+        return "{weekday:short}, {D} {monthname:short} {Y} {h}:{m}:{s} {z}";
+    }
+
+    /**
+     * Format string to produce RFC 7231 IMF-fixdate strings, the preferred form of HTTP-date.
+     *
+     * HTTP-dates are always in GMT with English names, so only use this to format DateTimes in UTC, with an English
+     * formatter such as formatterImfFixdate.
+     */
+    public static get formatStringImfFixdate(): string
+    {
+        return "{weekday:short}, {D} {monthname:short} {Y} {h}:{m}:{s} GMT";
+    }
+
+    /**
+     * Format string to produce RFC 850 date strings, an obsolete form of HTTP-date.
+     *
+     * HTTP-dates are always in GMT with English names, so only use this to format DateTimes in UTC, with an English
+     * formatter such as formatterRfc850. Parsing with this format string takes two-digit years to be in the 2000s - use
+     * DateTime.parseHttpDate() to apply the RFC 7231 rule instead.
+     */
+    public static get formatStringRfc850(): string
+    {
+        return "{weekday}, {D}-{monthname:short}-{y} {h}:{m}:{s} GMT";
+    }
+
+    /**
+     * Format string to produce ANSI C asctime() date strings, an obsolete form of HTTP-date.
+     *
+     * HTTP-dates are always in GMT with English names, so only use this to format DateTimes in UTC, with an English
+     * formatter such as formatterAsctime.
+     */
+    public static get formatStringAsctime(): string
+    {
+        return "{weekday:short} {monthname:short} {d} {h}:{m}:{s} {Y}";
+    }
+
+    /** A formatter for RFC 2822 date-time strings, which always uses English names whatever the registered locales. */
+    public static get formatterRfc2822(): DateTimeFormatter
+    {
+        return new DateTimeFormatter(DateTimeFormatter.formatStringRfc2822, LocaleEn);
+    }
+
+    /** A formatter for RFC 7231 IMF-fixdate strings, which always uses English names whatever the registered locales. */
+    public static get formatterImfFixdate(): DateTimeFormatter
+    {
+        return new DateTimeFormatter(DateTimeFormatter.formatStringImfFixdate, LocaleEn);
+    }
+
+    /** A formatter for RFC 850 date strings, which always uses English names whatever the registered locales. */
+    public static get formatterRfc850(): DateTimeFormatter
+    {
+        return new DateTimeFormatter(DateTimeFormatter.formatStringRfc850, LocaleEn);
+    }
+
+    /** A formatter for asctime() date strings, which always uses English names whatever the registered locales. */
+    public static get formatterAsctime(): DateTimeFormatter
+    {
+        return new DateTimeFormatter(DateTimeFormatter.formatStringAsctime, LocaleEn);
     }
 
     /** The format string. */
@@ -107,104 +414,495 @@ export class DateTimeFormatter implements DateTimeFormatterInterface
         return `${ch[0].repeat(length - str.length)}${str}`;
     }
 
-    /** Helper to build the set of internally-provided component formatters on creation of the first DateFormatter instance. */
-    private static createInternalFormatters(): void
+    /** Helper to format an ISO 8601 year: 4 digits for years 0..9999, otherwise expanded to a sign and 6 digits. */
+    private static isoYear(year: number): string
     {
-        DateTimeFormatter.formatters = {
-            "{": () => "{",
-            "Y": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.year % 10000, 4, "0"),
-            "y": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.year % 100, 2, "0"),
-            "year": function(dateTime: DateTimeInterface, args: string): string {
-                const digits = Number.parseInt(args ?? "4");
-                const year = DateTimeFormatter.pad(dateTime.year, digits, "0");
-
-                if (digits < year.length) {
-                    return year.substring(year.length - digits);
-                }
+        if (0 <= year && 9999 >= year) {
+            return DateTimeFormatter.pad(year, 4, "0");
+        }
 
-                return year;
-            },
+        return (0 > year ? "-" : "+") + DateTimeFormatter.pad(Math.abs(year), 6, "0");
+    }
+
+    /** Helper to format a year to exactly a given number of digits, keeping the last digits and the sign. */
+    private static truncatedYear(year: number, digits: number): string
+    {
+        const str = DateTimeFormatter.pad(Math.abs(year), digits, "0");
+        return (0 > year ? "-" : "") + str.substring(str.length - digits);
+    }
+
+    /** Helper to build the registry of internally-provided component formatters and parsers on first use. */
+    private static createInternalFormatters(): ComponentFormatterRegistry
+    {
+        const formatters: ComponentFormatterMap = {
+            "{": () => "{",
+            "Y": (dateTime: DateTimeInterface) => DateTimeFormatter.isoYear(dateTime.year),
+            "y": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(((dateTime.year % 100) + 100) % 100, 2, "0"),
+            "year": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.truncatedYear(dateTime.year, Number.parseInt(args ?? "4")),
+            "era": (dateTime: DateTimeInterface, args: string, locale: DateTimeLocale) => (locale.eras ?? DateTimeFormatter.DefaultEras)[0 < dateTime.year ? 1 : 0],
+            "yearofera": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(0 < dateTime.year ? dateTime.year : 1 - dateTime.year, Number.parseInt(args ?? "1"), "0"),
             "M": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.month, 2, "0"),
             "month": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.month, Number.parseInt(args ?? "1"), "0"),
+            "monthname": (dateTime: DateTimeInterface, args: string, locale: DateTimeLocale) => DateTimeFormatter.names(locale.months, args)[dateTime.month - 1],
             "D": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.day, 2, "0"),
+            "d": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.day, 2, " "),
+            "ordinal": (dateTime: DateTimeInterface, args: string, locale: DateTimeLocale) => locale.ordinal(dateTime.day),
             "day": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.day, Number.parseInt(args ?? "1"), "0"),
             "h": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.hour, 2, "0"),
             "hour": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.hour, Number.parseInt(args ?? "1"), "0"),
+            "hour12": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(0 === dateTime.hour % 12 ? 12 : dateTime.hour % 12, Number.parseInt(args ?? "1"), "0"),
+            "ampm": (dateTime: DateTimeInterface, args: string, locale: DateTimeLocale) => locale.dayPeriods[12 > dateTime.hour ? 0 : 1],
             "m": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.minute, 2, "0"),
             "minute": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.minute, Number.parseInt(args ?? "1"), "0"),
             "s": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.second, 2, "0"),
             "second": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.second, Number.parseInt(args ?? "1"), "0"),
-            "ms": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.second, Number.parseInt(args ?? "1"), "0"),
-            "Z": (dateTime: DateTimeInterface) => (0 > dateTime.timeZone.offset ? "-" : "+") + DateTimeFormatter.pad(Math.floor(Math.abs(dateTime.timeZone.offset) / 60), 2, "0") + ":" + DateTimeFormatter.pad(Math.abs(dateTime.timeZone.offset) % 60, 2, "0"),
-            "z": (dateTime: DateTimeInterface) => (0 > dateTime.timeZone.offset ? "-" : "+") + DateTimeFormatter.pad(Math.floor(Math.abs(dateTime.timeZone.offset) / 60), 2, "0") + DateTimeFormatter.pad(Math.abs(dateTime.timeZone.offset) % 60, 2, "0"),
-            "weekday": (dateTime: DateTimeInterface, args: string) => {
-                if ("short" === args) {
-                    switch (dateTime.weekday) {
-                        case Weekday.Sunday: return "Sun";
-                        case Weekday.Monday: return "Mon";
-                        case Weekday.Tuesday: return "Tue";
-                        case Weekday.Wednesay: return "Wed";
-                        case Weekday.Thursday: return "Thu";
-                        case Weekday.Friday: return "Fri";
-                        case Weekday.Saturday: return "Sat";
+            "ms": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.ms, Number.parseInt(args ?? "1"), "0"),
+            "Z": (dateTime: DateTimeInterface) => (0 > dateTime.offset ? "-" : "+") + DateTimeFormatter.pad(Math.floor(Math.abs(dateTime.offset) / 60), 2, "0") + ":" + DateTimeFormatter.pad(Math.abs(dateTime.offset) % 60, 2, "0"),
+            "z": (dateTime: DateTimeInterface) => (0 > dateTime.offset ? "-" : "+") + DateTimeFormatter.pad(Math.floor(Math.abs(dateTime.offset) / 60), 2, "0") + DateTimeFormatter.pad(Math.abs(dateTime.offset) % 60, 2, "0"),
+            "weekday": (dateTime: DateTimeInterface, args: string, locale: DateTimeLocale) => DateTimeFormatter.names(locale.weekdays, args)[dateTime.weekday],
+            "isoweekday": (dateTime: DateTimeInterface) => `${dateTime.isoWeekday}`,
+            "W": (dateTime: DateTimeInterface) => DateTimeFormatter.pad(dateTime.isoWeek, 2, "0"),
+            "week": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.isoWeek, Number.parseInt(args ?? "1"), "0"),
+            "G": (dateTime: DateTimeInterface) => DateTimeFormatter.isoYear(dateTime.isoWeekYear),
+            "weekyear": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.truncatedYear(dateTime.isoWeekYear, Number.parseInt(args ?? "4")),
+            "dayofyear": (dateTime: DateTimeInterface, args: string) => DateTimeFormatter.pad(dateTime.dayOfYear, Number.parseInt(args ?? "1"), "0"),
+        };
+
+        const parsers: ComponentParserMap = {
+            "{": (input: string) => ("{" === input[0] ? 1 : -1),
+            "Y": DateTimeFormatter.createIsoYearParser("year"),
+            "y": function(input: string, args: string, fields: DateTimeFields, locale: DateTimeLocale): number {
+                const length = DateTimeFormatter.createNumericParser("year", 2, 2)(input, args, fields, locale);
+
+                if (0 < length) {
+                    fields.year += 2000;
+                }
+
+                return length;
+            },
+            "year": DateTimeFormatter.createYearParser("year"),
+            "era": (input: string, args: string, fields: DateTimeFields, locale: DateTimeLocale) => {
+                const eras = locale.eras ?? DateTimeFormatter.DefaultEras;
+                const era = DateTimeFormatter.parseName(input, eras);
+
+                if (0 > era) {
+                    return -1;
+                }
+
+                fields.era = era;
+                return eras[era].length;
+            },
+            "yearofera": DateTimeFormatter.createNumericParser("yearOfEra", 1, 6),
+            "M": DateTimeFormatter.createNumericParser("month", 2, 2),
+            "month": DateTimeFormatter.createNumericParser("month", 1, 2),
+            "monthname": (input: string, args: string, fields: DateTimeFields, locale: DateTimeLocale) => {
+                const names = DateTimeFormatter.names(locale.months, args);
+                const month = DateTimeFormatter.parseName(input, names);
+
+                if (0 > month) {
+                    return -1;
+                }
+
+                fields.month = month + 1;
+                return names[month].length;
+            },
+            "D": DateTimeFormatter.createNumericParser("day", 2, 2),
+            "d": (input: string, args: string, fields: DateTimeFields) => {
+                const result = /^(?: \d|\d{2})/.exec(input);
+
+                if (!result) {
+                    return -1;
+                }
+
+                fields.day = Number.parseInt(result[0].trim());
+                return 2;
+            },
+            "day": DateTimeFormatter.createNumericParser("day", 1, 2),
+            "ordinal": (input: string, args: string, fields: DateTimeFields, locale: DateTimeLocale) => {
+                // try the longest numbers first so that "11th" isn't read as "1"
+                for (let day = 31; 0 < day; --day) {
+                    const ordinal = locale.ordinal(day);
+
+                    if (ordinal === input.substring(0, ordinal.length)) {
+                        fields.day = day;
+                        return ordinal.length;
                     }
                 }
 
-                switch (dateTime.weekday) {
-                    case Weekday.Sunday: return "Sunday";
-                    case Weekday.Monday: return "Monday";
-                    case Weekday.Tuesday: return "Tuesday";
-                    case Weekday.Wednesay: return "Wednesday";
-                    case Weekday.Thursday: return "Thursday";
-                    case Weekday.Friday: return "Friday";
-                    case Weekday.Saturday: return "Saturday";
+                return -1;
+            },
+            "h": DateTimeFormatter.createNumericParser("hour", 2, 2),
+            "hour": DateTimeFormatter.createNumericParser("hour", 1, 2),
+            "hour12": DateTimeFormatter.createNumericParser("hour12", 1, 2),
+            "ampm": (input: string, args: string, fields: DateTimeFields, locale: DateTimeLocale) => {
+                const dayPeriod = DateTimeFormatter.parseName(input, locale.dayPeriods);
+
+                if (0 > dayPeriod) {
+                    return -1;
                 }
+
+                fields.dayPeriod = dayPeriod;
+                return locale.dayPeriods[dayPeriod].length;
             },
+            "m": DateTimeFormatter.createNumericParser("minute", 2, 2),
+            "minute": DateTimeFormatter.createNumericParser("minute", 1, 2),
+            "s": DateTimeFormatter.createNumericParser("second", 2, 2),
+            "second": DateTimeFormatter.createNumericParser("second", 1, 2),
+            "ms": DateTimeFormatter.createNumericParser("ms", 1, 3),
+            "Z": DateTimeFormatter.createOffsetParser(/^(?:Z|([+-])(\d{2}):(\d{2}))/),
+            "z": DateTimeFormatter.createOffsetParser(/^(?:Z|([+-])(\d{2})(\d{2}))/),
+            "weekday": (input: string, args: string, fields: DateTimeFields, locale: DateTimeLocale) => {
+                const names = DateTimeFormatter.names(locale.weekdays, args);
+                const weekday = DateTimeFormatter.parseName(input, names);
+
+                if (0 > weekday) {
+                    return -1;
+                }
+
+                fields.weekday = weekday;
+                return names[weekday].length;
+            },
+            "isoweekday": DateTimeFormatter.createNumericParser("isoWeekday", 1, 1),
+            "W": DateTimeFormatter.createNumericParser("week", 2, 2),
+            "week": DateTimeFormatter.createNumericParser("week", 1, 2),
+            "G": DateTimeFormatter.createIsoYearParser("weekYear"),
+            "weekyear": DateTimeFormatter.createYearParser("weekYear"),
+            "dayofyear": DateTimeFormatter.createNumericParser("dayOfYear", 1, 3),
+        };
+
+        const registry = new ComponentFormatterRegistry();
+
+        for (const specifier in formatters) {
+            registry.add(specifier, formatters[specifier], parsers[specifier]);
+        }
+
+        return registry;
+    }
+
+    /**
+     * Helper to select the names for the arguments of a name placeholder.
+     *
+     * The arguments are the width (long, short or narrow, defaulting to long), optionally followed by ",standalone".
+     *
+     * @throws DateTimeFormatterError if the arguments are not valid.
+     */
+    private static names(names: DateTimeLocaleNames, args: string): string[]
+    {
+        const [width, form] = (args ?? "long").split(",");
+        let set: DateTimeLocaleNameSet;
+
+        if (undefined === form) {
+            set = names.format;
+        } else if ("standalone" === form) {
+            set = names.standalone ?? names.format;
+        } else {
+            throw new DateTimeFormatterError(`Expected "standalone" form for name, found "${form}".`);
+        }
+
+        if ("long" !== width && "short" !== width && "narrow" !== width) {
+            throw new DateTimeFormatterError(`Expected long, short or narrow width for name, found "${width}".`);
+        }
+
+        return set[width];
+    }
+
+    /**
+     * Helper to find which of a list of names the input starts with.
+     *
+     * Longer names are tried first, so that a name that is a prefix of another doesn't prevent the other from matching.
+     *
+     * @param input The input.
+     * @param names The names to look for.
+     *
+     * @return The index of the name, or -1 if the input doesn't start with any of the names.
+     */
+    private static parseName(input: string, names: string[]): number
+    {
+        let found = -1;
+
+        for (let idx = 0; idx < names.length; ++idx) {
+            if (names[idx] === input.substring(0, names[idx].length) && (0 > found || names[idx].length > names[found].length)) {
+                found = idx;
+            }
+        }
+
+        return found;
+    }
+
+    /**
+     * Helper to create a component parser for a numeric field.
+     *
+     * The parser reads at least minDigits and at most maxDigits digits. If the arguments for the placeholder are numeric,
+     * they give the minimum number of digits (as they do for the matching formatter).
+     *
+     * @param field The field the parser reads.
+     * @param minDigits The default minimum number of digits.
+     * @param maxDigits The maximum number of digits.
+     */
+    private static createNumericParser(field: keyof DateTimeFields, minDigits: number, maxDigits: number): ComponentParser
+    {
+        return (input: string, args: string, fields: DateTimeFields): number => {
+            const min = (undefined === args ? minDigits : Number.parseInt(args));
+            const result = new RegExp(`^\\d{${min},${Math.max(min, maxDigits)}}`).exec(input);
+
+            if (!result) {
+                return -1;
+            }
+
+            fields[field] = Number.parseInt(result[0]);
+            return result[0].length;
+        };
+    }
+
+    /** Helper to create a component parser for an ISO 8601 year: 4 digits, or a sign and 6 digits. */
+    private static createIsoYearParser(field: keyof DateTimeFields): ComponentParser
+    {
+        return (input: string, args: string, fields: DateTimeFields): number => {
+            const result = /^(?:[+-]\d{6}|\d{4})/.exec(input);
+
+            // ISO 8601 doesn't allow year 0 to be negative
+            if (!result || "-000000" === result[0]) {
+                return -1;
+            }
+
+            fields[field] = Number.parseInt(result[0]);
+            return result[0].length;
+        };
+    }
+
+    /**
+     * Helper to create a component parser for a year of exactly n digits, optionally preceded by -, where n is the
+     * placeholder's argument (defaulting to 4).
+     */
+    private static createYearParser(field: keyof DateTimeFields): ComponentParser
+    {
+        return (input: string, args: string, fields: DateTimeFields): number => {
+            const digits = Number.parseInt(args ?? "4");
+            const result = new RegExp(`^-?\\d{${digits}}`).exec(input);
+
+            if (!result) {
+                return -1;
+            }
+
+            fields[field] = Number.parseInt(result[0]) + 0;
+            return result[0].length;
+        };
+    }
+
+    /** Helper to create a component parser for an offset from UTC that matches a regular expression. */
+    private static createOffsetParser(matcher: RegExp): ComponentParser
+    {
+        return (input: string, args: string, fields: DateTimeFields): number => {
+            const result = matcher.exec(input);
+
+            if (!result) {
+                return -1;
+            }
+
+            if (undefined === result[1]) {
+                fields.offset = 0;
+            } else {
+                const offset = (Number.parseInt(result[2]) * 60) + Number.parseInt(result[3]);
+                fields.offset = ("-" === result[1] ? -offset : offset);
+            }
+
+            return result[0].length;
         };
     }
 
     /**
-     * Add a component formatter.
+     * Add a component formatter to the default registry.
      *
      * The given specifier must not already exist. Once added, the sequence {specifier} will be replaced with the result
-     * of the provided formatter when given the date being formatted.
+     * of the provided formatter when given the date being formatted, by all formatters that use the default registry. To
+     * override or remove specifiers, or to keep them to your own formatters, use a registry of your own - see
+     * ComponentFormatterRegistry.
+     *
+     * Optionally, a parsing function can be provided so that the specifier can be used when parsing date-time strings.
      *
      * @param specifier The specifier for the component.
      * @param formatter The formatting function.
+     * @param parser The parsing function, if any.
+     *
+     * @throws DateTimeFormatterError if the specifier is already taken.
+     */
+    public static addFormatter(specifier: string, formatter: ComponentFormatter, parser: ComponentParser = undefined): void
+    {
+        DateTimeFormatter.defaultRegistry.add(specifier, formatter, parser);
+    }
+
+    /**
+     * Helper to present a value to format as a DateTimeInterface for the component formatters.
+     *
+     * Values that lack some components, such as a LocalDate, are wrapped so that missing ISO week date and ordinal date
+     * components are derived from the date, and reading any other missing component throws.
      */
-    public static addFormatter(specifier: string, formatter: ComponentFormatter): void
+    private static components(dateTime: FormattableDateTime): DateTimeInterface
     {
-        if (undefined !== DateTimeFormatter.formatters[specifier]) {
-            throw new DateTimeFormatterError(`Format specifier ${specifier} is already taken.`);
+        const value = dateTime as Partial<DateTimeInterface>;
+
+        if (DateTimeFormatter.Components.every((component) => undefined !== value[component])) {
+            return dateTime as DateTimeInterface;
         }
 
-        DateTimeFormatter.formatters[specifier] = formatter;
+        const components = {} as DateTimeInterface;
+
+        for (const component of DateTimeFormatter.Components) {
+            Object.defineProperty(components, component, {
+                get: () => {
+                    if (undefined !== value[component]) {
+                        return value[component];
+                    }
+
+                    if (0 <= DateTimeFormatter.DerivedComponents.indexOf(component) && undefined !== value.year && undefined !== value.month && undefined !== value.day) {
+                        return DateTime.fromDateTime(value.year, value.month, value.day, 0, 0, 0, 0, TimeZone.utc)[component];
+                    }
+
+                    throw new DateTimeFormatterError(`Expected ${dateTime.constructor.name} with ${component} component to format, found none.`);
+                },
+            });
+        }
+
+        return components;
     }
 
     /**
      * Format a DateTime according to the format string.
      *
+     * LocalDate, LocalTime and LocalDateTime values can also be formatted, provided the format uses only the components
+     * they have. In particular, a LocalDateTime has no offset.
+     *
      * @param dateTime The DateTime to format.
+     *
+     * @throws DateTimeFormatterError if a placeholder has no component formatter, or the value lacks a component that
+     * the format requires.
      */
-    public format(dateTime: DateTimeInterface): string
+    public format(dateTime: FormattableDateTime): string
     {
+        const components = DateTimeFormatter.components(dateTime);
         let format = this.formatString;
         let str: string = "";
         let result: RegExpExecArray;
 
         while (result = DateTimeFormatter.PlaceholderMatcher.exec(format)) {
-            const [match, formatter, args] = result;
+            const [match, specifier, args] = result;
+            const formatter = this.registry.formatter(specifier);
 
-            if (undefined === DateTimeFormatter.formatters[formatter]) {
-                throw new DateTimeFormatterError(`Undefined component formatter '${formatter}'.`);
+            if (undefined === formatter) {
+                throw new DateTimeFormatterError(`Undefined component formatter '${specifier}'.`);
             }
 
             // add any literal content from the format string before the placeholder, followed by the formatted
             // component from the DateTime
-            str += format.substring(0, result.index) + DateTimeFormatter.formatters[formatter](dateTime, args);
+            str += format.substring(0, result.index) + formatter(components, args, this.locale);
             format = format.substring(result.index + match.length);
         }
 
         return str + format;
     }
+
+    /**
+     * Parse a date-time string according to the format string.
+     *
+     * Literal text in the format string must appear verbatim in the date-time string. Fields that are absent from the
+     * format default to the start of their range (month and day 1, time 00:00:00.000) except the year, which is required.
+     * A week date is read if the format has a week, which requires a week-numbering year; an ordinal date is read if the
+     * format has a day of the year. Other date fields in the string must agree with the date read. If the date-time
+     * string contains an offset from UTC the DateTime uses a TimeZone with that offset, otherwise it uses the provided
+     * TimeZone.
+     *
+     * @param dateTime The date-time string to parse.
+     * @param timeZone The TimeZone to use if the date-time string has no offset. Defaults to UTC.
+     *
+     * @return The parsed DateTime.
+     * @throws DateTimeFormatterError if the string doesn't match the format, or a placeholder has no component parser.
+     * @throws DateTimeError if the string contains an invalid date-time.
+     */
+    public parse(dateTime: string, timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        let format = this.formatString;
+        let input = dateTime;
+        let result: RegExpExecArray;
+        const fields: DateTimeFields = {};
+
+        const consumeLiteral = (literal: string) => {
+            if (literal !== input.substring(0, literal.length)) {
+                throw new DateTimeFormatterError(`Expected "${literal}" at position ${dateTime.length - input.length} of "${dateTime}".`);
+            }
+
+            input = input.substring(literal.length);
+        };
+
+        while (result = DateTimeFormatter.PlaceholderMatcher.exec(format)) {
+            const [match, specifier, args] = result;
+            const parser = this.registry.parser(specifier);
+
+            if (undefined === parser) {
+                throw new DateTimeFormatterError(`Undefined component parser '${specifier}'.`);
+            }
+
+            consumeLiteral(format.substring(0, result.index));
+            const length = parser(input, args, fields, this.locale);
+
+            if (0 > length) {
+                throw new DateTimeFormatterError(`Expected valid '${specifier}' component at position ${dateTime.length - input.length} of "${dateTime}".`);
+            }
+
+            input = input.substring(length);
+            format = format.substring(result.index + match.length);
+        }
+
+        consumeLiteral(format);
+
+        if (0 < input.length) {
+            throw new DateTimeFormatterError(`Unexpected trailing content "${input}" in "${dateTime}".`);
+        }
+
+        if (undefined === fields.hour && undefined !== fields.hour12) {
+            fields.hour = (fields.hour12 % 12) + (1 === fields.dayPeriod ? 12 : 0);
+        }
+
+        if (undefined === fields.year && undefined !== fields.yearOfEra) {
+            fields.year = (0 === fields.era ? 1 - fields.yearOfEra : fields.yearOfEra);
+        }
+
+        const zone = (undefined === fields.offset ? timeZone : new TimeZone(fields.offset));
+        let parsed: DateTime;
+
+        if (undefined !== fields.week) {
+            if (undefined === fields.weekYear) {
+                throw new DateTimeFormatterError(`Expected week-numbering year with week in "${dateTime}".`);
+            }
+
+            parsed = DateTime.fromIsoWeekDate(fields.weekYear, fields.week, fields.isoWeekday ?? 1, fields.hour ?? 0, fields.minute ?? 0, fields.second ?? 0, fields.ms ?? 0, zone);
+        } else if (undefined === fields.year) {
+            throw new DateTimeFormatterError(`Expected year in "${dateTime}".`);
+        } else if (undefined !== fields.dayOfYear) {
+            parsed = DateTime.fromOrdinalDate(fields.year, fields.dayOfYear, fields.hour ?? 0, fields.minute ?? 0, fields.second ?? 0, fields.ms ?? 0, zone);
+        } else {
+            parsed = DateTime.fromDateTime(
+                fields.year,
+                fields.month ?? 1,
+                fields.day ?? 1,
+                fields.hour ?? 0,
+                fields.minute ?? 0,
+                fields.second ?? 0,
+                fields.ms ?? 0,
+                zone
+            );
+        }
+
+        // date fields that weren't used to build the DateTime must agree with it
+        for (const [field, component, name] of DateTimeFormatter.DateChecks) {
+            if (undefined !== fields[field] && fields[field] !== parsed[component]) {
+                throw new DateTimeFormatterError(`Expected ${name} matching date in "${dateTime}".`);
+            }
+        }
+
+        if (undefined !== fields.era && fields.era !== (0 < parsed.year ? 1 : 0)) {
+            throw new DateTimeFormatterError(`Expected era matching date in "${dateTime}".`);
+        }
+
+        return parsed;
+    }
 }
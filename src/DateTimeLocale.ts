@@ -0,0 +1,99 @@
+/** A set of names (of months or weekdays) in each of the widths in which they can be formatted. */
+export interface DateTimeLocaleNameSet
+{
+    /** The full names, e.g. "January". */
+    readonly long: string[];
+    /** The abbreviated names, e.g. "Jan". */
+    readonly short: string[];
+    /** The narrow names, e.g. "J". */
+    readonly narrow: string[];
+}
+
+/** The names of months or weekdays in a locale, in the forms in which they can be formatted. */
+export interface DateTimeLocaleNames
+{
+    /** The names as used within a date, e.g. "1. März". */
+    readonly format: DateTimeLocaleNameSet;
+    /**
+     * The names as used on their own, e.g. in a calendar heading. Defaults to the format names, so locales whose names
+     * don't change form on their own, such as English, French, Spanish and Japanese, omit them.
+     */
+    readonly standalone?: DateTimeLocaleNameSet;
+}
+
+/**
+ * Patterns for a relative time, keyed by the plural category of the amount, e.g. {one: "in {0} day", other: "in {0}
+ * days"}. {0} in a pattern is replaced with the amount. The "other" category is used for any category without a
+ * pattern.
+ */
+export interface DateTimeLocalePluralPatterns
+{
+    readonly zero?: string;
+    readonly one?: string;
+    readonly two?: string;
+    readonly few?: string;
+    readonly many?: string;
+    readonly other: string;
+}
+
+/** The wording of relative times in one unit. */
+export interface DateTimeLocaleRelativeUnit
+{
+    /** The patterns for times in the future, e.g. "in {0} days". */
+    readonly future: DateTimeLocalePluralPatterns;
+    /** The patterns for times in the past, e.g. "{0} days ago". */
+    readonly past: DateTimeLocalePluralPatterns;
+    /** Idiomatic wording for particular amounts, keyed by the signed amount, e.g. {"-1": "yesterday", "0": "today"}. */
+    readonly idioms?: {readonly [amount: string]: string};
+}
+
+/** The wording of relative times in each unit, for one style. */
+export interface DateTimeLocaleRelativeUnits
+{
+    readonly year: DateTimeLocaleRelativeUnit;
+    readonly month: DateTimeLocaleRelativeUnit;
+    readonly week: DateTimeLocaleRelativeUnit;
+    readonly day: DateTimeLocaleRelativeUnit;
+    readonly hour: DateTimeLocaleRelativeUnit;
+    readonly minute: DateTimeLocaleRelativeUnit;
+    readonly second: DateTimeLocaleRelativeUnit;
+}
+
+/** The wording of relative times in a locale, as used by RelativeTimeFormatter. */
+export interface DateTimeLocaleRelativeTime
+{
+    /** The full wording, e.g. "in 3 hours". */
+    readonly long: DateTimeLocaleRelativeUnits;
+    /** The abbreviated wording, e.g. "in 3 hr.". Defaults to the long wording. */
+    readonly short?: DateTimeLocaleRelativeUnits;
+    /** The narrowest wording, e.g. "in 3h". Defaults to the short wording. */
+    readonly narrow?: DateTimeLocaleRelativeUnits;
+
+    /** Fetch the plural category of an amount, e.g. "one" or "other". */
+    plural(amount: number): keyof DateTimeLocalePluralPatterns;
+}
+
+/**
+ * Locale data for DateTimeFormatter.
+ *
+ * Month names are indexed from 0 (January) to 11 (December). Weekday names are indexed by Weekday, from 0 (Sunday) to
+ * 6 (Saturday).
+ */
+export interface DateTimeLocale
+{
+    /** The locale code, e.g. "en" or "de". */
+    readonly code: string;
+    /** The names of the months. */
+    readonly months: DateTimeLocaleNames;
+    /** The names of the days of the week. */
+    readonly weekdays: DateTimeLocaleNames;
+    /** The markers for times before and after noon, e.g. ["AM", "PM"]. */
+    readonly dayPeriods: [string, string];
+    /** The abbreviated names of the eras before year 1 and from year 1, e.g. ["BCE", "CE"]. Defaults to ["BCE", "CE"]. */
+    readonly eras?: [string, string];
+    /** The wording of relative times, e.g. "3 days ago". */
+    readonly relativeTime?: DateTimeLocaleRelativeTime;
+
+    /** Fetch the ordinal form of a number, as used for days of the month, e.g. "1st". */
+    ordinal(value: number): string;
+}
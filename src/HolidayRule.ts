@@ -0,0 +1,221 @@
+import {DateTime, Weekday} from "./DateTime.js";
+import {BusinessCalendarError} from "./BusinessCalendarError.js";
+
+/** How a holiday that falls on a weekend day is observed. */
+export enum HolidaySubstitution
+{
+    /** The holiday is not moved. */
+    None = 0,
+
+    /** The holiday moves to the nearest business day, the earlier one if two are equally near (Saturday to Friday, Sunday to Monday). */
+    Nearest,
+
+    /** The holiday moves to the next business day (Saturday or Sunday to Monday, or Tuesday if Monday is also a holiday). */
+    Following,
+}
+
+/** Type for the function a HolidayRule uses to find its date in a year, as [month, day]. */
+type HolidayDate = (year: number) => [number, number]|undefined;
+
+/**
+ * A rule for the date of an annual holiday.
+ *
+ * Rules are created using the static factory methods, for fixed dates, the nth weekday of a month, and dates relative to
+ * (Gregorian) Easter Sunday. Instances are immutable.
+ */
+export class HolidayRule
+{
+    /** The name of the holiday. */
+    private readonly m_name: string;
+
+    /** Computes the date of the holiday in a year, before substitution. */
+    private readonly m_date: HolidayDate;
+
+    /** How the holiday is observed if it falls on a weekend day. */
+    private readonly m_substitution: HolidaySubstitution;
+
+    /** The first year the holiday is observed, if any. */
+    private readonly m_firstYear?: number;
+
+    /** The last year the holiday is observed, if any. */
+    private readonly m_lastYear?: number;
+
+    private constructor(name: string, date: HolidayDate, substitution: HolidaySubstitution, firstYear?: number, lastYear?: number)
+    {
+        this.m_name = name;
+        this.m_date = date;
+        this.m_substitution = substitution;
+        this.m_firstYear = firstYear;
+        this.m_lastYear = lastYear;
+    }
+
+    /** The name of the holiday. */
+    public get name(): string
+    {
+        return this.m_name;
+    }
+
+    /** How the holiday is observed if it falls on a weekend day. */
+    public get substitution(): HolidaySubstitution
+    {
+        return this.m_substitution;
+    }
+
+    /** The first year the holiday is observed, or `undefined` if it has always been observed. */
+    public get firstYear(): number|undefined
+    {
+        return this.m_firstYear;
+    }
+
+    /** The last year the holiday is observed, or `undefined` if it is still observed. */
+    public get lastYear(): number|undefined
+    {
+        return this.m_lastYear;
+    }
+
+    /**
+     * Clone the rule, but observed only in a range of years.
+     *
+     * @param firstYear The first year the holiday is observed, or `undefined` if it has always been observed.
+     * @param lastYear The last year the holiday is observed, or `undefined` if it is still observed.
+     *
+     * @throws BusinessCalendarError if the last year is before the first.
+     */
+    public withYears(firstYear: number|undefined, lastYear: number|undefined = undefined): HolidayRule
+    {
+        if (undefined !== firstYear && undefined !== lastYear && lastYear < firstYear) {
+            throw new BusinessCalendarError(`Expected last year of holiday ${this.name} at or after ${firstYear}, found ${lastYear}.`);
+        }
+
+        return new HolidayRule(this.name, this.m_date, this.substitution, firstYear, lastYear);
+    }
+
+    /**
+     * Find the date of the holiday in a year, before any substitution.
+     *
+     * @param year The year.
+     *
+     * @return The date, as [month, day], or `undefined` if the holiday is not observed in the year.
+     */
+    public date(year: number): [number, number]|undefined
+    {
+        if ((undefined !== this.firstYear && year < this.firstYear) || (undefined !== this.lastYear && year > this.lastYear)) {
+            return undefined;
+        }
+
+        return this.m_date(year);
+    }
+
+    /**
+     * Create a rule for a holiday on the same date every year.
+     *
+     * @param name The name of the holiday.
+     * @param month The month (1 = January, 12 = December).
+     * @param day The day of the month. February 29th is observed only in leap years.
+     * @param substitution How the holiday is observed if it falls on a weekend day. Defaults to no substitution.
+     *
+     * @throws BusinessCalendarError if the month or day is not valid.
+     */
+    public static fixed(name: string, month: number, day: number, substitution: HolidaySubstitution = HolidaySubstitution.None): HolidayRule
+    {
+        if (!Number.isInteger(month) || 1 > month || 12 < month) {
+            throw new BusinessCalendarError(`Expected month between 1 and 12 for holiday ${name}, found ${month}.`);
+        }
+
+        if (!Number.isInteger(day) || 1 > day || HolidayRule.daysInMonth(2000, month) < day) {
+            throw new BusinessCalendarError(`Expected day between 1 and ${HolidayRule.daysInMonth(2000, month)} for holiday ${name}, found ${day}.`);
+        }
+
+        return new HolidayRule(name, (year: number) => (day > HolidayRule.daysInMonth(year, month) ? undefined : [month, day]), substitution);
+    }
+
+    /**
+     * Create a rule for a holiday on the nth occurrence of a weekday in a month, e.g. the fourth Thursday in November.
+     *
+     * @param name The name of the holiday.
+     * @param month The month (1 = January, 12 = December).
+     * @param weekday The day of the week.
+     * @param occurrence The occurrence, 1 to 5 counting from the start of the month or -1 to -5 counting back from the
+     * end. The holiday is not observed in years where the month has no such occurrence.
+     *
+     * @throws BusinessCalendarError if the month or occurrence is not valid.
+     */
+    public static nthWeekday(name: string, month: number, weekday: Weekday, occurrence: number): HolidayRule
+    {
+        if (!Number.isInteger(month) || 1 > month || 12 < month) {
+            throw new BusinessCalendarError(`Expected month between 1 and 12 for holiday ${name}, found ${month}.`);
+        }
+
+        if (!Number.isInteger(occurrence) || 0 === occurrence || 5 < Math.abs(occurrence)) {
+            throw new BusinessCalendarError(`Expected occurrence between 1 and 5 or -1 and -5 for holiday ${name}, found ${occurrence}.`);
+        }
+
+        return new HolidayRule(name, (year: number) => {
+            const length = HolidayRule.daysInMonth(year, month);
+            let day: number;
+
+            if (0 < occurrence) {
+                day = 1 + ((7 + weekday - DateTime.utcDate(year, month, 1).getUTCDay()) % 7) + 7 * (occurrence - 1);
+            } else {
+                day = length - ((7 + DateTime.utcDate(year, month, length).getUTCDay() - weekday) % 7) + 7 * (occurrence + 1);
+            }
+
+            return (1 > day || length < day ? undefined : [month, day]);
+        }, HolidaySubstitution.None);
+    }
+
+    /**
+     * Create a rule for a holiday a number of days before or after Easter Sunday (Gregorian computus).
+     *
+     * @param name The name of the holiday.
+     * @param offset The number of days after Easter Sunday; negative for days before. Defaults to Easter Sunday itself.
+     *
+     * @throws BusinessCalendarError if the offset is not an integer or could move the holiday into a different year.
+     */
+    public static easter(name: string, offset: number = 0): HolidayRule
+    {
+        // Easter Sunday falls between March 22nd and April 25th
+        if (!Number.isInteger(offset) || -80 > offset || 250 < offset) {
+            throw new BusinessCalendarError(`Expected integer offset from Easter between -80 and 250 for holiday ${name}, found ${offset}.`);
+        }
+
+        return new HolidayRule(name, (year: number) => {
+            const [month, day] = HolidayRule.easterSunday(year);
+            const date = DateTime.utcDate(year, month, day + offset);
+            return [date.getUTCMonth() + 1, date.getUTCDate()];
+        }, HolidaySubstitution.None);
+    }
+
+    /**
+     * Find the date of Easter Sunday in a year, using the Gregorian computus.
+     *
+     * @param year The year.
+     *
+     * @return The date, as [month, day].
+     */
+    public static easterSunday(year: number): [number, number]
+    {
+        // the "anonymous Gregorian algorithm"
+        const a = year % 19;
+        const b = Math.floor(year / 100);
+        const c = year % 100;
+        const d = Math.floor(b / 4);
+        const e = b % 4;
+        const f = Math.floor((b + 8) / 25);
+        const g = Math.floor((b - f + 1) / 3);
+        const h = (19 * a + b - d - g + 15) % 30;
+        const i = Math.floor(c / 4);
+        const k = c % 4;
+        const l = (32 + 2 * e + 2 * i - h - k) % 7;
+        const m = Math.floor((a + 11 * h + 22 * l) / 451);
+        const month = Math.floor((h + l - 7 * m + 114) / 31);
+        const day = ((h + l - 7 * m + 114) % 31) + 1;
+        return [month, day];
+    }
+
+    /** Helper to determine the number of days in a month. */
+    private static daysInMonth(year: number, month: number): number
+    {
+        return DateTime.utcDate(year, month + 1, 0).getUTCDate();
+    }
+}
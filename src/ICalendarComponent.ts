@@ -0,0 +1,43 @@
+import {DateTime, Duration} from "./DateTime.js";
+import {RecurrenceSet} from "./RecurrenceSet.js";
+
+/** A property (content line) of an iCalendar component, e.g. "DTSTART;TZID=Europe/London:20240101T090000". */
+export interface ICalendarProperty
+{
+    /** The name of the property, in upper case. */
+    readonly name: string;
+    /** The parameters of the property, keyed by name in upper case, with any quotes removed from their values. */
+    readonly parameters: {readonly [name: string]: string};
+    /** The value of the property, as written. */
+    readonly value: string;
+}
+
+/** An iCalendar component, e.g. VCALENDAR, VEVENT or VTIMEZONE. */
+export interface ICalendarComponent
+{
+    /** The name of the component, in upper case. */
+    readonly name: string;
+    /** The properties of the component, in the order in which they appear. */
+    readonly properties: ICalendarProperty[];
+    /** The components nested in the component, in the order in which they appear. */
+    readonly components: ICalendarComponent[];
+}
+
+/** The date-related parts of an iCalendar VEVENT. */
+export interface ICalendarEvent
+{
+    /** The unique identifier of the event (UID). */
+    readonly uid?: string;
+    /** The summary of the event (SUMMARY). */
+    readonly summary?: string;
+    /** The start of the event (DTSTART). */
+    readonly start: DateTime;
+    /** The end of the event (DTEND), if it is given as a point in time. */
+    readonly end?: DateTime;
+    /** The duration of the event (DURATION), if it is given as an amount of time. */
+    readonly duration?: Duration;
+    /** Whether the start is a DATE rather than a DATE-TIME, i.e. the event lasts all day. */
+    readonly isAllDay: boolean;
+    /** The recurrences of the event, from its RRULE, RDATE and EXDATE properties and including its start. */
+    readonly recurrence?: RecurrenceSet;
+}
@@ -0,0 +1,3 @@
+/** Custom Error class thrown by ICalendarReader and ICalendarWriter instances. */
+export class ICalendarError extends Error
+{}
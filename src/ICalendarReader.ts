@@ -0,0 +1,556 @@
+import {DateTime, Disambiguation, Duration} from "./DateTime.js";
+import {ICalendarComponent, ICalendarEvent, ICalendarProperty} from "./ICalendarComponent.js";
+import {ICalendarError} from "./ICalendarError.js";
+import {RecurrenceRule, RecurrenceFrequency} from "./RecurrenceRule.js";
+import {RecurrenceSet} from "./RecurrenceSet.js";
+import {DaylightSavingRule, TimeZone, TimeZoneTransition} from "./TimeZone.js";
+
+/** An observance (STANDARD or DAYLIGHT sub-component) of a VTIMEZONE. */
+type Observance = {
+    isDaylightSaving: boolean,
+    offsetFrom: number,
+    offsetTo: number,
+    abbreviation?: string,
+    start: DateTime,
+    rule?: RecurrenceRule,
+    dates: DateTime[],
+};
+
+/**
+ * Read the date-related parts of iCalendar (RFC 5545) data, such as .ics files.
+ *
+ * DATE-TIME values are read in UTC ("Z" suffix), in the TimeZone named by their TZID parameter, or in the reader's
+ * floating TimeZone if they have neither. TZIDs are resolved first through the VTIMEZONE components of the calendar,
+ * then as TimeZone names. Each VTIMEZONE is mapped to a TimeZone built from its STANDARD and DAYLIGHT observances: open-
+ * ended yearly observances become daylight saving rules, and all other onsets become explicit transitions. DATE values
+ * are read as midnight in the floating TimeZone.
+ *
+ * Local times that are skipped by a daylight saving change are moved forward by the length of the gap, and local times
+ * that occur twice resolve to the first, as RFC 5545 requires.
+ */
+export class ICalendarReader
+{
+    /** The year to which observances that can't be expressed as daylight saving rules are expanded. */
+    private static readonly MaxExpansionYear = 2100;
+
+    /** The tz database weekday names, indexed by Weekday. */
+    private static readonly RuleWeekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+    /** The top-level components of the data. */
+    private readonly m_components: ICalendarComponent[];
+
+    /** The TimeZones built from the VTIMEZONE components, keyed by TZID. */
+    private readonly m_timeZones: Map<string, TimeZone> = new Map<string, TimeZone>();
+
+    /** The TimeZone in which floating DATE-TIME and DATE values are read. */
+    private readonly m_floatingTimeZone: TimeZone;
+
+    /**
+     * Initialise a new reader.
+     *
+     * @param ics The iCalendar data.
+     * @param floatingTimeZone The TimeZone in which to read floating DATE-TIME values and DATE values. Defaults to UTC.
+     *
+     * @throws ICalendarError if the data is not valid iCalendar data.
+     */
+    public constructor(ics: string, floatingTimeZone: TimeZone = TimeZone.utc)
+    {
+        this.m_components = ICalendarReader.parse(ics);
+        this.m_floatingTimeZone = floatingTimeZone;
+
+        for (const calendar of this.m_components) {
+            for (const component of calendar.components) {
+                if ("VTIMEZONE" === component.name) {
+                    const tzid = ICalendarReader.property(component, "TZID");
+
+                    if (undefined === tzid) {
+                        throw new ICalendarError("Expected TZID in VTIMEZONE.");
+                    }
+
+                    this.m_timeZones.set(tzid.value, ICalendarReader.readTimeZone(component));
+                }
+            }
+        }
+    }
+
+    /** The top-level components of the data, usually a single VCALENDAR. */
+    public get components(): ICalendarComponent[]
+    {
+        return [...this.m_components];
+    }
+
+    /** The TimeZones built from the VTIMEZONE components, keyed by TZID. */
+    public get timeZones(): Map<string, TimeZone>
+    {
+        return new Map<string, TimeZone>(this.m_timeZones);
+    }
+
+    /** The TimeZone in which floating DATE-TIME and DATE values are read. */
+    public get floatingTimeZone(): TimeZone
+    {
+        return this.m_floatingTimeZone;
+    }
+
+    /**
+     * The events (VEVENT components) in the data.
+     *
+     * @throws ICalendarError if an event has no DTSTART or any of its date-related properties are not valid.
+     */
+    public get events(): ICalendarEvent[]
+    {
+        const events: ICalendarEvent[] = [];
+
+        for (const calendar of this.m_components) {
+            for (const component of calendar.components) {
+                if ("VEVENT" === component.name) {
+                    events.push(this.readEvent(component));
+                }
+            }
+        }
+
+        return events;
+    }
+
+    /**
+     * Resolve a TZID to a TimeZone.
+     *
+     * @param tzid The TZID.
+     *
+     * @return The TimeZone from the VTIMEZONE with the TZID, or the TimeZone with the TZID as its name.
+     * @throws ICalendarError if the TZID doesn't resolve to a TimeZone.
+     */
+    public timeZone(tzid: string): TimeZone
+    {
+        const timeZone = this.m_timeZones.get(tzid);
+
+        if (undefined !== timeZone) {
+            return timeZone;
+        }
+
+        try {
+            return new TimeZone(tzid);
+        } catch (err) {
+            throw new ICalendarError(`Unrecognised TZID ${tzid}.`);
+        }
+    }
+
+    /**
+     * Read the DATE or DATE-TIME value of a property.
+     *
+     * @param property The property, e.g. a DTSTART property.
+     *
+     * @return The DateTime.
+     * @throws ICalendarError if the value is not a valid DATE or DATE-TIME, or its TZID doesn't resolve.
+     */
+    public dateTime(property: ICalendarProperty): DateTime
+    {
+        const dateTimes = this.dateTimes(property);
+
+        if (1 !== dateTimes.length) {
+            throw new ICalendarError(`Expected a single DATE or DATE-TIME in ${property.name}, found "${property.value}".`);
+        }
+
+        return dateTimes[0];
+    }
+
+    /**
+     * Read the comma-separated DATE or DATE-TIME values of a property, such as RDATE or EXDATE.
+     *
+     * @param property The property.
+     *
+     * @return The DateTimes.
+     * @throws ICalendarError if a value is not a valid DATE or DATE-TIME, or the TZID doesn't resolve.
+     */
+    public dateTimes(property: ICalendarProperty): DateTime[]
+    {
+        const timeZone = (undefined === property.parameters["TZID"] ? this.m_floatingTimeZone : this.timeZone(property.parameters["TZID"]));
+        return property.value.split(",").map((value) => ICalendarReader.parseDateTime(value, timeZone));
+    }
+
+    /** Helper to read the date-related parts of a VEVENT. */
+    private readEvent(component: ICalendarComponent): ICalendarEvent
+    {
+        const startProperty = ICalendarReader.property(component, "DTSTART");
+
+        if (undefined === startProperty) {
+            throw new ICalendarError("Expected DTSTART in VEVENT.");
+        }
+
+        const start = this.dateTime(startProperty);
+        const event: {-readonly [key in keyof ICalendarEvent]: ICalendarEvent[key]} = {
+            start: start,
+            isAllDay: "DATE" === startProperty.parameters["VALUE"] || /^\d{8}$/.test(startProperty.value),
+        };
+
+        const uid = ICalendarReader.property(component, "UID");
+        const summary = ICalendarReader.property(component, "SUMMARY");
+        const end = ICalendarReader.property(component, "DTEND");
+        const duration = ICalendarReader.property(component, "DURATION");
+
+        if (undefined !== uid) {
+            event.uid = uid.value;
+        }
+
+        if (undefined !== summary) {
+            event.summary = ICalendarReader.unescapeText(summary.value);
+        }
+
+        if (undefined !== end) {
+            event.end = this.dateTime(end);
+        }
+
+        if (undefined !== duration) {
+            event.duration = ICalendarReader.parseDuration(duration.value);
+        }
+
+        // a start in a daylight saving gap is moved forward, but the other instances keep its wall-clock time
+        const wallClock = ICalendarReader.parseDateTime(startProperty.value);
+        const rules: RecurrenceRule[] = [];
+        const dates: DateTime[] = [];
+        const exclusions: DateTime[] = [];
+
+        for (const property of component.properties) {
+            try {
+                switch (property.name) {
+                    case "RRULE":
+                        rules.push(RecurrenceRule.parse(property.value, start, wallClock));
+                        break;
+
+                    case "RDATE":
+                        dates.push(...this.dateTimes(property));
+                        break;
+
+                    case "EXDATE":
+                        exclusions.push(...this.dateTimes(property));
+                        break;
+                }
+            } catch (err) {
+                throw (err instanceof ICalendarError ? err : new ICalendarError(`Invalid ${property.name} "${property.value}": ${err.message}`));
+            }
+        }
+
+        if (0 < rules.length || 0 < dates.length) {
+            // the start is always the first instance of a recurring event
+            event.recurrence = new RecurrenceSet(rules, [start, ...dates], exclusions);
+        }
+
+        return event;
+    }
+
+    /**
+     * Parse iCalendar data into its components.
+     *
+     * Folded lines are unfolded, and property and parameter names are converted to upper case.
+     *
+     * @param ics The iCalendar data.
+     *
+     * @return The top-level components.
+     * @throws ICalendarError if the data is not valid iCalendar data.
+     */
+    public static parse(ics: string): ICalendarComponent[]
+    {
+        const components: ICalendarComponent[] = [];
+        const stack: ICalendarComponent[] = [];
+
+        for (const line of ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/)) {
+            if ("" === line) {
+                continue;
+            }
+
+            const property = ICalendarReader.parseProperty(line);
+
+            if ("BEGIN" === property.name) {
+                const component: ICalendarComponent = {name: property.value.toUpperCase(), properties: [], components: []};
+                (0 === stack.length ? components : stack[stack.length - 1].components).push(component);
+                stack.push(component);
+            } else if ("END" === property.name) {
+                const component = stack.pop();
+
+                if (undefined === component || property.value.toUpperCase() !== component.name) {
+                    throw new ICalendarError(`Unexpected END:${property.value}.`);
+                }
+            } else if (0 === stack.length) {
+                throw new ICalendarError(`Expected BEGIN, found ${property.name}.`);
+            } else {
+                stack[stack.length - 1].properties.push(property);
+            }
+        }
+
+        if (0 < stack.length) {
+            throw new ICalendarError(`Expected END:${stack[stack.length - 1].name}.`);
+        }
+
+        return components;
+    }
+
+    /** Helper to parse an unfolded content line. */
+    private static parseProperty(line: string): ICalendarProperty
+    {
+        const match = /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:,]*)(?:,(?:"[^"]*"|[^";:,]*))*)*):(.*)$/.exec(line);
+
+        if (!match) {
+            throw new ICalendarError(`Invalid content line "${line}".`);
+        }
+
+        const parameters: {[name: string]: string} = {};
+        const parameterMatcher = /;([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:,]*)(?:,(?:"[^"]*"|[^";:,]*))*)/g;
+        let parameter: RegExpExecArray;
+
+        while (null !== (parameter = parameterMatcher.exec(match[2]))) {
+            parameters[parameter[1].toUpperCase()] = parameter[2].replace(/"/g, "");
+        }
+
+        return {name: match[1].toUpperCase(), parameters: parameters, value: match[3]};
+    }
+
+    /** Helper to fetch the first property of a component with a given name. */
+    private static property(component: ICalendarComponent, name: string): ICalendarProperty|undefined
+    {
+        return component.properties.filter((property) => name === property.name)[0];
+    }
+
+    /** Helper to unescape a TEXT value. */
+    private static unescapeText(text: string): string
+    {
+        return text.replace(/\\([\\;,nN])/g, (escape: string, char: string) => ("n" === char || "N" === char ? "\n" : char));
+    }
+
+    /**
+     * Parse a DATE or DATE-TIME value.
+     *
+     * @param value The value, e.g. "20240101", "20240101T090000" or "20240101T090000Z".
+     * @param timeZone The TimeZone in which to read DATE values and DATE-TIME values without a "Z" suffix. Defaults to
+     * UTC.
+     *
+     * @return The DateTime.
+     * @throws ICalendarError if the value is not a valid DATE or DATE-TIME.
+     */
+    public static parseDateTime(value: string, timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value);
+
+        if (!match) {
+            throw new ICalendarError(`Expected DATE or DATE-TIME, found "${value}".`);
+        }
+
+        const [year, month, day, hour, minute, second] = match.slice(1, 7).map((field) => Number.parseInt(field ?? "0"));
+
+        try {
+            return DateTime.fromDateTime(year, month, day, hour, minute, second, 0, ("Z" === match[7] ? TimeZone.utc : timeZone), Disambiguation.Compatible);
+        } catch (err) {
+            throw new ICalendarError(`Invalid DATE or DATE-TIME "${value}": ${err.message}`);
+        }
+    }
+
+    /**
+     * Parse a DURATION value.
+     *
+     * @param value The value, e.g. "P1DT2H", "PT15M" or "-P2W".
+     *
+     * @return The duration. All its amounts are negative if the duration is negative.
+     * @throws ICalendarError if the value is not a valid DURATION.
+     */
+    public static parseDuration(value: string): Duration
+    {
+        const match = /^([+-]?)P(?:(\d+)W|(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?)$/.exec(value);
+
+        if (!match || /T$/.test(value) || "P" === value.replace(/^[+-]/, "")) {
+            throw new ICalendarError(`Expected DURATION, found "${value}".`);
+        }
+
+        const sign = ("-" === match[1] ? -1 : 1);
+        const keys: (keyof Duration)[] = ["weeks", "days", "hours", "minutes", "seconds"];
+        const duration: {-readonly [key in keyof Duration]: number} = {};
+
+        for (let idx = 0; idx < keys.length; ++idx) {
+            if (undefined !== match[idx + 2]) {
+                duration[keys[idx]] = sign * Number.parseInt(match[idx + 2]);
+            }
+        }
+
+        return duration;
+    }
+
+    /**
+     * Build a TimeZone from a VTIMEZONE component.
+     *
+     * @param component The VTIMEZONE component.
+     *
+     * @return The TimeZone.
+     * @throws ICalendarError if the component has no valid observances.
+     */
+    public static readTimeZone(component: ICalendarComponent): TimeZone
+    {
+        const observances = component.components
+            .filter((observance) => "STANDARD" === observance.name || "DAYLIGHT" === observance.name)
+            .map((observance) => ICalendarReader.readObservance(observance));
+
+        if (0 === observances.length) {
+            throw new ICalendarError("Expected STANDARD or DAYLIGHT in VTIMEZONE.");
+        }
+
+        // open-ended yearly observances become rules, from the point at which the last of them starts
+        const rules: DaylightSavingRule[] = [];
+        const ruleObservances = observances.filter((observance) => undefined !== observance.rule && undefined !== ICalendarReader.ruleFor(observance));
+        let rulesStart = Number.POSITIVE_INFINITY;
+        let standardOffset: number = undefined;
+
+        if (ruleObservances.some((observance) => !observance.isDaylightSaving)) {
+            rulesStart = Math.max(...ruleObservances.map((observance) => observance.start.timestamp));
+            standardOffset = ruleObservances.filter((observance) => !observance.isDaylightSaving)[0].offsetTo;
+
+            for (const observance of ruleObservances) {
+                rules.push({...ICalendarReader.ruleFor(observance), save: observance.offsetTo - standardOffset});
+            }
+        } else {
+            ruleObservances.length = 0;
+        }
+
+        const transitions: TimeZoneTransition[] = [];
+
+        for (const observance of observances) {
+            const onsets = [observance.start, ...observance.dates];
+
+            if (undefined !== observance.rule) {
+                for (const onset of observance.rule.occurrences()) {
+                    // the rule's first occurrence is the start of the observance, which is already an onset
+                    if (onset.timestamp === observance.start.timestamp) {
+                        continue;
+                    }
+
+                    if (onset.timestamp >= rulesStart || ICalendarReader.MaxExpansionYear < onset.year) {
+                        break;
+                    }
+
+                    onsets.push(onset);
+                }
+            }
+
+            for (const onset of onsets) {
+                // onsets of rule observances after the rules take over are left to the rules
+                if (onset.timestamp <= rulesStart || 0 > ruleObservances.indexOf(observance)) {
+                    transitions.push({timestamp: onset.timestamp, offset: observance.offsetTo, isDaylightSaving: observance.isDaylightSaving, abbreviation: observance.abbreviation});
+                }
+            }
+        }
+
+        transitions.sort((lhs, rhs) => lhs.timestamp - rhs.timestamp);
+
+        // before the first onset, the offset it changes from applies
+        const first = observances.filter((observance) => transitions[0].timestamp === observance.start.timestamp)[0] ?? observances[0];
+        transitions.unshift({timestamp: Number.NEGATIVE_INFINITY, offset: first.offsetFrom, isDaylightSaving: false});
+
+        if (undefined === standardOffset) {
+            // without rules the last transition applies indefinitely; its standard offset is the most recent non-DST one
+            standardOffset = transitions.filter((transition) => !transition.isDaylightSaving).pop().offset;
+        }
+
+        return new TimeZone(standardOffset, rules, transitions);
+    }
+
+    /** Helper to read a STANDARD or DAYLIGHT sub-component of a VTIMEZONE. */
+    private static readObservance(component: ICalendarComponent): Observance
+    {
+        const start = ICalendarReader.property(component, "DTSTART");
+        const offsetFrom = ICalendarReader.property(component, "TZOFFSETFROM");
+        const offsetTo = ICalendarReader.property(component, "TZOFFSETTO");
+        const abbreviation = ICalendarReader.property(component, "TZNAME");
+
+        if (undefined === start || undefined === offsetFrom || undefined === offsetTo) {
+            throw new ICalendarError(`Expected DTSTART, TZOFFSETFROM and TZOFFSETTO in ${component.name}.`);
+        }
+
+        // onsets are expressed in the local time before the observance starts
+        const from = ICalendarReader.parseUtcOffset(offsetFrom.value);
+        const localTimeZone = new TimeZone(from);
+        const observance: Observance = {
+            isDaylightSaving: "DAYLIGHT" === component.name,
+            offsetFrom: from,
+            offsetTo: ICalendarReader.parseUtcOffset(offsetTo.value),
+            start: ICalendarReader.parseDateTime(start.value, localTimeZone),
+            dates: [],
+        };
+
+        if (undefined !== abbreviation) {
+            observance.abbreviation = abbreviation.value;
+        }
+
+        for (const property of component.properties) {
+            try {
+                if ("RRULE" === property.name) {
+                    observance.rule = RecurrenceRule.parse(property.value, observance.start);
+                } else if ("RDATE" === property.name) {
+                    observance.dates.push(...property.value.split(",").map((value) => ICalendarReader.parseDateTime(value, localTimeZone)));
+                }
+            } catch (err) {
+                throw (err instanceof ICalendarError ? err : new ICalendarError(`Invalid ${property.name} "${property.value}": ${err.message}`));
+            }
+        }
+
+        return observance;
+    }
+
+    /** Helper to parse a UTC-OFFSET value, e.g. "-0500", to minutes. Seconds are rounded to the nearest minute. */
+    private static parseUtcOffset(value: string): number
+    {
+        const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value);
+
+        if (!match) {
+            throw new ICalendarError(`Expected UTC-OFFSET, found "${value}".`);
+        }
+
+        const minutes = (Number.parseInt(match[2]) * 60) + Number.parseInt(match[3]) + Math.round(Number.parseInt(match[4] ?? "0") / 60);
+        return ("-" === match[1] ? -minutes : minutes);
+    }
+
+    /**
+     * Helper to express an open-ended yearly observance as a daylight saving rule.
+     *
+     * @return The rule, without its save, or `undefined` if the observance's recurrence can't be expressed as a rule.
+     */
+    private static ruleFor(observance: Observance): DaylightSavingRule|undefined
+    {
+        const options = observance.rule.options;
+
+        if (RecurrenceFrequency.Yearly !== options.frequency || 1 !== (options.interval ?? 1) || undefined !== options.count || undefined !== options.until
+            || 1 !== options.byMonth?.length || undefined !== options.byYearDay || undefined !== options.byWeekNo || undefined !== options.bySetPos
+            || undefined !== options.byHour || undefined !== options.byMinute || undefined !== options.bySecond || 0 < observance.dates.length) {
+            return undefined;
+        }
+
+        let day: string = undefined;
+        const monthDays = options.byMonthDay ?? [];
+        const weekday = (1 === options.byDay?.length ? options.byDay[0] : undefined);
+
+        if (undefined === options.byDay && 1 === monthDays.length && 0 < monthDays[0]) {
+            // e.g. BYMONTHDAY=15
+            day = `${monthDays[0]}`;
+        } else if (undefined !== weekday && 0 === monthDays.length && -1 === weekday.ordinal) {
+            // e.g. BYDAY=-1SU
+            day = `last${ICalendarReader.RuleWeekdays[weekday.weekday]}`;
+        } else if (undefined !== weekday && 0 === monthDays.length && 0 < weekday.ordinal && 4 >= weekday.ordinal) {
+            // e.g. BYDAY=2SU
+            day = `${ICalendarReader.RuleWeekdays[weekday.weekday]}>=${((weekday.ordinal - 1) * 7) + 1}`;
+        } else if (undefined !== weekday && undefined === weekday.ordinal && 7 === monthDays.length) {
+            // e.g. BYMONTHDAY=8,9,10,11,12,13,14;BYDAY=SU
+            const first = Math.min(...monthDays);
+
+            if (0 < first && monthDays.every((monthDay) => monthDay >= first && monthDay < first + 7)) {
+                day = `${ICalendarReader.RuleWeekdays[weekday.weekday]}>=${first}`;
+            }
+        }
+
+        if (undefined === day) {
+            return undefined;
+        }
+
+        return {
+            from: observance.start.year,
+            month: options.byMonth[0],
+            day: day,
+            at: (observance.start.hour * 60) + observance.start.minute,
+            save: 0,
+            abbreviation: observance.abbreviation,
+        };
+    }
+}
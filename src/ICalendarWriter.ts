@@ -0,0 +1,480 @@
+import {DateTime, Duration} from "./DateTime.js";
+import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {ICalendarEvent} from "./ICalendarComponent.js";
+import {ICalendarError} from "./ICalendarError.js";
+import {RecurrenceRule, RecurrenceFrequency, RecurrenceRuleOptions} from "./RecurrenceRule.js";
+import {DaylightSavingRule, TimeZone, TransitionTimeType} from "./TimeZone.js";
+
+/** Enumeration of the forms in which DATE-TIME values can be written. */
+export enum ICalendarDateTimeForm
+{
+    /** Local time with no time zone, e.g. "20240101T090000". */
+    Floating = 0,
+    /** UTC, e.g. "20240101T090000Z". */
+    Utc,
+    /** Local time with a TZID parameter, e.g. "TZID=Europe/London:20240101T090000". */
+    Zoned,
+}
+
+/**
+ * Write the date-related parts of iCalendar (RFC 5545) data, such as .ics files.
+ *
+ * Components are written by calling begin(), writing the properties of the component, and calling end(). Lines are
+ * folded at 75 octets, without splitting UTF-8 sequences, and terminated with CRLF. For example:
+ *
+ *     const writer = new ICalendarWriter();
+ *     writer.begin("VCALENDAR");
+ *     writer.property("VERSION", "2.0");
+ *     writer.property("PRODID", "-//Example//Calendar//EN");
+ *     writer.timeZone("Europe/London", timeZone, start, end);
+ *     writer.event({uid: "1@example.com", start: start, end: end, isAllDay: false});
+ *     writer.end();
+ *     const ics = writer.toString();
+ */
+export class ICalendarWriter
+{
+    /** The tz database weekday names, indexed by Weekday. */
+    private static readonly RuleWeekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+    /** The unfolded lines written so far. */
+    private readonly m_lines: string[] = [];
+
+    /** The names of the components that have been begun but not ended. */
+    private readonly m_components: string[] = [];
+
+    /**
+     * Begin a component.
+     *
+     * @param name The name of the component, e.g. "VEVENT".
+     */
+    public begin(name: string): void
+    {
+        name = name.toUpperCase();
+        this.m_lines.push(`BEGIN:${name}`);
+        this.m_components.push(name);
+    }
+
+    /**
+     * End the most recently begun component.
+     *
+     * @throws ICalendarError if there is no component to end.
+     */
+    public end(): void
+    {
+        const name = this.m_components.pop();
+
+        if (undefined === name) {
+            throw new ICalendarError("There is no component to end.");
+        }
+
+        this.m_lines.push(`END:${name}`);
+    }
+
+    /**
+     * Write a property.
+     *
+     * @param name The name of the property.
+     * @param value The value, as it is to be written.
+     * @param parameters The parameters of the property, if any. Values are quoted if necessary.
+     *
+     * @throws ICalendarError if there is no component to write the property in.
+     */
+    public property(name: string, value: string, parameters: {[name: string]: string} = {}): void
+    {
+        if (0 === this.m_components.length) {
+            throw new ICalendarError(`Expected a component for property ${name}.`);
+        }
+
+        let line = name.toUpperCase();
+
+        for (const parameter of Object.keys(parameters)) {
+            const parameterValue = parameters[parameter];
+            line += `;${parameter.toUpperCase()}=${/[;:,]/.test(parameterValue) ? `"${parameterValue}"` : parameterValue}`;
+        }
+
+        this.m_lines.push(`${line}:${value}`);
+    }
+
+    /**
+     * Write a TEXT property, escaping its value.
+     *
+     * @param name The name of the property, e.g. "SUMMARY".
+     * @param text The text.
+     */
+    public text(name: string, text: string): void
+    {
+        this.property(name, text.replace(/([\\;,])/g, "\\$1").replace(/\r?\n/g, "\\n"));
+    }
+
+    /**
+     * Write a DATE-TIME property.
+     *
+     * @param name The name of the property, e.g. "DTSTART".
+     * @param dateTime The DateTime.
+     * @param form The form in which to write the DATE-TIME. Defaults to Zoned.
+     * @param tzid The TZID for the Zoned form. Defaults to the name of the DateTime's TimeZone.
+     *
+     * @throws ICalendarError if the form is Zoned and there is no TZID.
+     */
+    public dateTime(name: string, dateTime: DateTime, form: ICalendarDateTimeForm = ICalendarDateTimeForm.Zoned, tzid: string = undefined): void
+    {
+        switch (form) {
+            case ICalendarDateTimeForm.Utc:
+                this.property(name, ICalendarWriter.formatDateTime(dateTime, true));
+                break;
+
+            case ICalendarDateTimeForm.Floating:
+                this.property(name, ICalendarWriter.formatDateTime(dateTime));
+                break;
+
+            default:
+                tzid = tzid ?? dateTime.timeZone.name;
+
+                if (undefined === tzid) {
+                    throw new ICalendarError(`Expected TZID for ${name}, since the TimeZone has no name.`);
+                }
+
+                this.property(name, ICalendarWriter.formatDateTime(dateTime), {TZID: tzid});
+        }
+    }
+
+    /**
+     * Write a DATE property.
+     *
+     * @param name The name of the property, e.g. "DTSTART".
+     * @param dateTime The DateTime whose local date is to be written.
+     */
+    public date(name: string, dateTime: DateTime): void
+    {
+        this.property(name, ICalendarWriter.formatDate(dateTime), {VALUE: "DATE"});
+    }
+
+    /**
+     * Write a DURATION property.
+     *
+     * @param name The name of the property, e.g. "DURATION".
+     * @param duration The duration.
+     *
+     * @throws ICalendarError if the duration can't be expressed as a DURATION.
+     */
+    public duration(name: string, duration: Duration): void
+    {
+        this.property(name, ICalendarWriter.formatDuration(duration));
+    }
+
+    /**
+     * Write a VTIMEZONE component describing a TimeZone over a span of time.
+     *
+     * Explicit transitions of the TimeZone in the span become observances with a single onset; daylight saving rules in
+     * force during the span become observances with a yearly RRULE.
+     *
+     * @param tzid The TZID of the time zone.
+     * @param timeZone The TimeZone.
+     * @param start The start of the span to describe.
+     * @param end The end of the span to describe.
+     */
+    public timeZone(tzid: string, timeZone: TimeZone, start: DateTime, end: DateTime): void
+    {
+        this.begin("VTIMEZONE");
+        this.property("TZID", tzid);
+
+        const transitions = timeZone.transitions;
+        const rules = timeZone.rules;
+        let explicit = transitions.filter((transition) => start.timestamp <= transition.timestamp && transition.timestamp < end.timestamp);
+
+        // include the transition in force at the start of the span, unless the rules are in force by then
+        const current = transitions.filter((transition) => transition.timestamp < start.timestamp).pop();
+
+        if (undefined !== current && (0 === rules.length || current !== transitions[transitions.length - 1])) {
+            explicit = [current, ...explicit];
+        }
+
+        for (const transition of explicit) {
+            // the offset before the first transition is written as starting in 1601, as is customary
+            const timestamp = (Number.isFinite(transition.timestamp) ? transition.timestamp : Date.UTC(1601, 0, 1));
+            const offsetFrom = (Number.isFinite(transition.timestamp) ? timeZone.offsetAt(timestamp - 1) : transition.offset);
+            this.observance(transition.isDaylightSaving, DateTime.fromTimestamp(timestamp, new TimeZone(offsetFrom)), offsetFrom, transition.offset, transition.abbreviation);
+        }
+
+        const rulesFrom = (0 < transitions.length ? transitions[transitions.length - 1].timestamp : Number.NEGATIVE_INFINITY);
+
+        for (const rule of rules) {
+            if ((undefined !== rule.to && rule.to < start.year) || rule.from > end.year || rulesFrom >= end.timestamp) {
+                continue;
+            }
+
+            // start from the year before the span, so that the offset at the start of the span is described
+            this.ruleObservance(timeZone, rule, Math.max(rule.from, start.year - 1, Number.isFinite(rulesFrom) ? new Date(rulesFrom).getUTCFullYear() : start.year - 1), rulesFrom);
+        }
+
+        if (0 === explicit.length && 0 === rules.length) {
+            this.observance(false, DateTime.fromTimestamp(0, new TimeZone(timeZone.offset)), timeZone.offset, timeZone.offset, undefined);
+        }
+
+        this.end();
+    }
+
+    /** Helper to write an observance of a VTIMEZONE. */
+    private observance(isDaylightSaving: boolean, start: DateTime, offsetFrom: number, offsetTo: number, abbreviation: string|undefined, rule: string = undefined): void
+    {
+        this.begin(isDaylightSaving ? "DAYLIGHT" : "STANDARD");
+        this.dateTime("DTSTART", start, ICalendarDateTimeForm.Floating);
+        this.property("TZOFFSETFROM", ICalendarWriter.formatUtcOffset(offsetFrom));
+        this.property("TZOFFSETTO", ICalendarWriter.formatUtcOffset(offsetTo));
+
+        if (undefined !== rule) {
+            this.property("RRULE", rule);
+        }
+
+        if (undefined !== abbreviation) {
+            this.text("TZNAME", abbreviation);
+        }
+
+        this.end();
+    }
+
+    /** Helper to write an observance for a daylight saving rule, with its first onset in or after a given year. */
+    private ruleObservance(timeZone: TimeZone, rule: DaylightSavingRule, year: number, notBefore: number): void
+    {
+        const day = /^(?:(\d+)|last([A-Z][a-z]{2})|([A-Z][a-z]{2})([<>]=)(\d+))$/.exec(rule.day);
+
+        if (!day) {
+            throw new ICalendarError(`Unsupported daylight saving rule day "${rule.day}".`);
+        }
+
+        const options: {-readonly [key in keyof RecurrenceRuleOptions]: RecurrenceRuleOptions[key]} = {frequency: RecurrenceFrequency.Yearly, byMonth: [rule.month]};
+
+        if (undefined !== day[1]) {
+            options.byMonthDay = [Number.parseInt(day[1])];
+        } else if (undefined !== day[2]) {
+            options.byDay = [{weekday: ICalendarWriter.RuleWeekdays.indexOf(day[2]), ordinal: -1}];
+        } else {
+            const first = Number.parseInt(day[5]) - (">=" === day[4] ? 0 : 6);
+            options.byDay = [{weekday: ICalendarWriter.RuleWeekdays.indexOf(day[3])}];
+            options.byMonthDay = [0, 1, 2, 3, 4, 5, 6].map((offset) => first + offset);
+        }
+
+        if (undefined !== rule.to) {
+            options.until = DateTime.fromDateTime(rule.to, 12, 31, 23, 59, 59, 0, TimeZone.utc);
+        }
+
+        // find the first onset of the rule in or after the year that the rules are in force, skipping the start of the
+        // series since it is always an occurrence
+        for (const date of new RecurrenceRule(DateTime.fromDateTime(year - 1, 12, 31, 0, 0, 0, 0, TimeZone.utc), options)) {
+            if (date.year < year) {
+                continue;
+            }
+
+            const midnight = date.timestamp - (timeZone.offset * 60 * 1000);
+
+            // daylight saving transitions are assumed to be more than a day apart, so the offset the day before applies
+            const offsetFrom = timeZone.offsetAt(midnight - (24 * 60 * 60 * 1000));
+            let atOffset: number;
+
+            switch (rule.atType ?? TransitionTimeType.Wall) {
+                case TransitionTimeType.Utc:
+                    atOffset = 0;
+                    break;
+
+                case TransitionTimeType.Standard:
+                    atOffset = timeZone.offset;
+                    break;
+
+                default:
+                    atOffset = offsetFrom;
+            }
+
+            const onset = date.timestamp + ((rule.at - atOffset) * 60 * 1000);
+
+            if (onset < notBefore) {
+                continue;
+            }
+
+            const start = DateTime.fromTimestamp(onset, new TimeZone(offsetFrom));
+            this.observance(0 !== rule.save, start, offsetFrom, timeZone.offset + rule.save, rule.abbreviation, new RecurrenceRule(start, options).toString());
+            return;
+        }
+    }
+
+    /**
+     * Write a VEVENT component with the date-related parts of an event.
+     *
+     * DTSTAMP is written as the current time. An all-day event's start and end are written as DATE values.
+     *
+     * @param event The event.
+     * @param form The form in which to write its DATE-TIME values. Defaults to Zoned.
+     * @param tzid The TZID for the Zoned form. Defaults to the name of the TimeZone of each DateTime.
+     *
+     * @throws ICalendarError if the form is Zoned and a DateTime's TimeZone has no name, or the duration can't be
+     * expressed as a DURATION.
+     */
+    public event(event: ICalendarEvent, form: ICalendarDateTimeForm = ICalendarDateTimeForm.Zoned, tzid: string = undefined): void
+    {
+        const write = (name: string, dateTime: DateTime) => {
+            if (event.isAllDay) {
+                this.date(name, dateTime);
+            } else {
+                this.dateTime(name, dateTime, form, tzid);
+            }
+        };
+
+        this.begin("VEVENT");
+
+        if (undefined !== event.uid) {
+            this.property("UID", event.uid);
+        }
+
+        this.dateTime("DTSTAMP", DateTime.now(), ICalendarDateTimeForm.Utc);
+        write("DTSTART", event.start);
+
+        if (undefined !== event.end) {
+            write("DTEND", event.end);
+        }
+
+        if (undefined !== event.duration) {
+            this.duration("DURATION", event.duration);
+        }
+
+        if (undefined !== event.summary) {
+            this.text("SUMMARY", event.summary);
+        }
+
+        if (undefined !== event.recurrence) {
+            for (const rule of event.recurrence.rules) {
+                this.property("RRULE", rule.toString());
+            }
+
+            for (const date of event.recurrence.dates) {
+                if (date.timestamp !== event.start.timestamp) {
+                    write("RDATE", date);
+                }
+            }
+
+            for (const exclusion of event.recurrence.exclusions) {
+                write("EXDATE", exclusion);
+            }
+        }
+
+        this.end();
+    }
+
+    /**
+     * Fetch the iCalendar data written so far.
+     *
+     * @return The data, with lines folded and terminated with CRLF.
+     * @throws ICalendarError if any components have been begun but not ended.
+     */
+    public toString(): string
+    {
+        if (0 < this.m_components.length) {
+            throw new ICalendarError(`Expected END:${this.m_components[this.m_components.length - 1]}.`);
+        }
+
+        return this.m_lines.map((line) => `${ICalendarWriter.fold(line)}\r\n`).join("");
+    }
+
+    /**
+     * Fold a content line so that no line is longer than 75 octets, as RFC 5545 requires.
+     *
+     * Lines are only broken between characters, never within a UTF-8 sequence. Continuation lines start with a space.
+     *
+     * @param line The line.
+     *
+     * @return The folded line, with CRLF between the folded lines but not at the end.
+     */
+    public static fold(line: string): string
+    {
+        let folded = "";
+        let octets = 0;
+
+        for (const char of line) {
+            const codePoint = char.codePointAt(0);
+            const length = (0x80 > codePoint ? 1 : (0x800 > codePoint ? 2 : (0x10000 > codePoint ? 3 : 4)));
+
+            if (75 < octets + length) {
+                folded += "\r\n ";
+                octets = 1;
+            }
+
+            folded += char;
+            octets += length;
+        }
+
+        return folded;
+    }
+
+    /**
+     * Format the local date of a DateTime as a DATE value.
+     *
+     * @param dateTime The DateTime.
+     *
+     * @return The DATE, e.g. "20240101".
+     */
+    public static formatDate(dateTime: DateTime): string
+    {
+        return (new DateTimeFormatter("{Y}{M}{D}")).format(dateTime);
+    }
+
+    /**
+     * Format a DateTime as a DATE-TIME value.
+     *
+     * @param dateTime The DateTime.
+     * @param utc Whether to write the DATE-TIME in UTC, with a "Z" suffix. Otherwise the local time is written.
+     *
+     * @return The DATE-TIME, e.g. "20240101T090000".
+     */
+    public static formatDateTime(dateTime: DateTime, utc: boolean = false): string
+    {
+        return (new DateTimeFormatter(utc ? "{Y}{M}{D}T{h}{m}{s}Z" : "{Y}{M}{D}T{h}{m}{s}")).format(utc ? dateTime.withTimeZone(TimeZone.utc) : dateTime);
+    }
+
+    /**
+     * Format a duration as a DURATION value.
+     *
+     * @param duration The duration. Its amounts must all have the same sign.
+     *
+     * @return The DURATION, e.g. "P1DT2H".
+     * @throws ICalendarError if the duration has years, months or ms, or amounts with different signs.
+     */
+    public static formatDuration(duration: Duration): string
+    {
+        if (undefined !== duration.years || undefined !== duration.months || undefined !== duration.ms) {
+            throw new ICalendarError("Expected duration without years, months or ms, which DURATION can't express.");
+        }
+
+        const amounts = [duration.weeks ?? 0, duration.days ?? 0, duration.hours ?? 0, duration.minutes ?? 0, duration.seconds ?? 0];
+
+        if (amounts.some((amount) => 0 > amount) && amounts.some((amount) => 0 < amount)) {
+            throw new ICalendarError("Expected duration with amounts of the same sign.");
+        }
+
+        const [weeks, days, hours, minutes, seconds] = amounts.map((amount) => Math.abs(amount));
+        const sign = (amounts.some((amount) => 0 > amount) ? "-" : "");
+
+        // weeks can only be written on their own
+        if (0 < weeks && 0 === days + hours + minutes + seconds) {
+            return `${sign}P${weeks}W`;
+        }
+
+        let value = `${sign}P`;
+
+        if (0 < weeks + days) {
+            value += `${(weeks * 7) + days}D`;
+        }
+
+        if (0 < hours + minutes + seconds) {
+            value += "T" + (0 < hours ? `${hours}H` : "") + (0 < minutes ? `${minutes}M` : "") + (0 < seconds ? `${seconds}S` : "");
+        }
+
+        return ("P" === value.replace("-", "") ? "PT0S" : value);
+    }
+
+    /** Helper to format an offset in minutes as a UTC-OFFSET value, e.g. "-0500". */
+    private static formatUtcOffset(offset: number): string
+    {
+        const magnitude = Math.abs(offset);
+        const hours = Math.floor(magnitude / 60);
+        const minutes = magnitude % 60;
+        return (0 > offset ? "-" : "+") + (10 > hours ? "0" : "") + hours + (10 > minutes ? "0" : "") + minutes;
+    }
+}
@@ -0,0 +1,265 @@
+import {DateTime, Duration} from "./DateTime.js";
+import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {IntervalError} from "./IntervalError.js";
+
+/** Interface for Interval instances. */
+export interface IntervalInterface
+{
+    readonly start: DateTime;
+    readonly end: DateTime;
+    readonly duration: number;
+}
+
+/**
+ * A half-open span of time between two DateTimes.
+ *
+ * The span includes the start but excludes the end, so intervals that abut don't overlap. The start and end may be in
+ * different TimeZones - all comparisons are made using their timestamps. Instances are immutable.
+ */
+export class Interval implements IntervalInterface
+{
+    /** The start of the interval (inclusive). */
+    private readonly m_start: DateTime;
+
+    /** The end of the interval (exclusive). */
+    private readonly m_end: DateTime;
+
+    /**
+     * Initialise a new Interval.
+     *
+     * @param start The start of the interval (inclusive).
+     * @param end The end of the interval (exclusive).
+     *
+     * @throws IntervalError if the end is before the start.
+     */
+    public constructor(start: DateTime, end: DateTime)
+    {
+        if (end.timestamp < start.timestamp) {
+            throw new IntervalError(`Expected end of interval at or after ${start.toISOString()}, found ${end.toISOString()}.`);
+        }
+
+        this.m_start = start;
+        this.m_end = end;
+    }
+
+    /** The start of the interval (inclusive). */
+    public get start(): DateTime
+    {
+        return this.m_start;
+    }
+
+    /** The end of the interval (exclusive). */
+    public get end(): DateTime
+    {
+        return this.m_end;
+    }
+
+    /** The duration of the interval, in ms. */
+    public get duration(): number
+    {
+        return this.end.timestamp - this.start.timestamp;
+    }
+
+    /** Whether the interval is empty (i.e. its start and end are the same point in time). */
+    public get isEmpty(): boolean
+    {
+        return this.start.timestamp === this.end.timestamp;
+    }
+
+    /**
+     * Determine whether the interval contains a point in time.
+     *
+     * @param dateTime The point in time.
+     */
+    public contains(dateTime: DateTime): boolean
+    {
+        return this.start.timestamp <= dateTime.timestamp && dateTime.timestamp < this.end.timestamp;
+    }
+
+    /**
+     * Determine whether the interval overlaps another.
+     *
+     * Intervals that abut do not overlap, and empty intervals overlap nothing.
+     *
+     * @param other The other interval.
+     */
+    public overlaps(other: Interval): boolean
+    {
+        return !this.isEmpty && !other.isEmpty && this.start.timestamp < other.end.timestamp && other.start.timestamp < this.end.timestamp;
+    }
+
+    /**
+     * Determine whether the interval abuts another - i.e. one ends exactly where the other starts.
+     *
+     * @param other The other interval.
+     */
+    public abuts(other: Interval): boolean
+    {
+        return this.end.timestamp === other.start.timestamp || other.end.timestamp === this.start.timestamp;
+    }
+
+    /**
+     * Fetch the span of time common to the interval and another.
+     *
+     * @param other The other interval.
+     *
+     * @return The intersection, or `undefined` if the intervals don't overlap, which is always the case if either is
+     * empty.
+     */
+    public intersection(other: Interval): Interval|undefined
+    {
+        if (!this.overlaps(other)) {
+            return undefined;
+        }
+
+        return new Interval(
+            (this.start.timestamp >= other.start.timestamp ? this.start : other.start),
+            (this.end.timestamp <= other.end.timestamp ? this.end : other.end)
+        );
+    }
+
+    /**
+     * Fetch the span of time covered by the interval and another.
+     *
+     * @param other The other interval.
+     *
+     * @return The union, or `undefined` if the intervals neither overlap nor abut, since the union would not be a single
+     * interval.
+     */
+    public union(other: Interval): Interval|undefined
+    {
+        // an empty interval doesn't overlap the interval it lies within, but doesn't extend it either
+        if (!this.overlaps(other) && !this.abuts(other) && !this.encloses(other) && !other.encloses(this)) {
+            return undefined;
+        }
+
+        return new Interval(
+            (this.start.timestamp <= other.start.timestamp ? this.start : other.start),
+            (this.end.timestamp >= other.end.timestamp ? this.end : other.end)
+        );
+    }
+
+    /**
+     * Fetch the span of time between the interval and another.
+     *
+     * @param other The other interval.
+     *
+     * @return The gap, or `undefined` if the intervals overlap or abut, or one is an empty interval within the other.
+     */
+    public gap(other: Interval): Interval|undefined
+    {
+        if (this.end.timestamp < other.start.timestamp) {
+            return new Interval(this.end, other.start);
+        }
+
+        if (other.end.timestamp < this.start.timestamp) {
+            return new Interval(other.end, this.start);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Split the interval at the given points in time.
+     *
+     * Points in time that are not strictly inside the interval are ignored, as are duplicates.
+     *
+     * @param dateTimes The points in time at which to split the interval.
+     *
+     * @return The consecutive intervals that make up the interval.
+     */
+    public splitAt(...dateTimes: DateTime[]): Interval[]
+    {
+        const points = dateTimes
+            .filter((dateTime) => this.start.timestamp < dateTime.timestamp && dateTime.timestamp < this.end.timestamp)
+            .sort((lhs, rhs) => lhs.timestamp - rhs.timestamp);
+
+        const intervals: Interval[] = [];
+        let start = this.start;
+
+        for (const point of points) {
+            if (point.timestamp !== start.timestamp) {
+                intervals.push(new Interval(start, point));
+                start = point;
+            }
+        }
+
+        intervals.push(new Interval(start, this.end));
+        return intervals;
+    }
+
+    /**
+     * Split the interval into consecutive intervals of a given duration.
+     *
+     * Each boundary is calculated from the start of the interval using DateTime.plus(), so calendar units are applied in
+     * the start's TimeZone and don't accumulate clamping errors (splitting by 1 month from 31st January gives boundaries
+     * on the last days of February, March 31st, and so on). The last interval is truncated at the end of the interval.
+     *
+     * @param duration The duration of each interval.
+     *
+     * @return The consecutive intervals that make up the interval.
+     * @throws IntervalError if the duration is not positive.
+     */
+    public splitBy(duration: Duration): Interval[]
+    {
+        const intervals: Interval[] = [];
+        let start = this.start;
+
+        for (let count = 1; start.timestamp < this.end.timestamp; ++count) {
+            const end = this.start.plus(Interval.multiplyDuration(duration, count));
+
+            if (end.timestamp <= start.timestamp) {
+                throw new IntervalError("Expected positive duration to split interval.");
+            }
+
+            intervals.push(new Interval(start, (end.timestamp < this.end.timestamp ? end : this.end)));
+            start = end;
+        }
+
+        return intervals;
+    }
+
+    /** Helper to multiply all the amounts in a Duration. */
+    private static multiplyDuration(duration: Duration, factor: number): Duration
+    {
+        return {
+            years: (duration.years ?? 0) * factor,
+            months: (duration.months ?? 0) * factor,
+            weeks: (duration.weeks ?? 0) * factor,
+            days: (duration.days ?? 0) * factor,
+            hours: (duration.hours ?? 0) * factor,
+            minutes: (duration.minutes ?? 0) * factor,
+            seconds: (duration.seconds ?? 0) * factor,
+            ms: (duration.ms ?? 0) * factor,
+        };
+    }
+
+    /**
+     * Format the interval using a DateTimeFormatter.
+     *
+     * The start and end are each formatted, and joined with the separator.
+     *
+     * @param formatter The formatter, or a format string for a DateTimeFormatter.
+     * @param separator The separator to place between the formatted start and end. Defaults to "/", as in ISO 8601.
+     */
+    public format(formatter: DateTimeFormatter|string, separator: string = "/"): string
+    {
+        if ("string" === typeof formatter) {
+            formatter = new DateTimeFormatter(formatter);
+        }
+
+        return `${formatter.format(this.start)}${separator}${formatter.format(this.end)}`;
+    }
+
+    /** Generate an ISO8601 interval string for the Interval. */
+    public toISOString(): string
+    {
+        return this.format(DateTimeFormatter.formatStringIso8601);
+    }
+
+    /** Helper to determine whether another interval lies entirely within the interval. */
+    private encloses(other: Interval): boolean
+    {
+        return this.start.timestamp <= other.start.timestamp && other.end.timestamp <= this.end.timestamp;
+    }
+}
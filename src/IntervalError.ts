@@ -0,0 +1,3 @@
+/** Custom Error class thrown by Interval instances. */
+export class IntervalError extends Error
+{}
@@ -0,0 +1,198 @@
+import {DateTime} from "./DateTime.js";
+import {TimeZone, TimeZoneOffsetSource, TimeZoneProvider} from "./TimeZone.js";
+import {TimeZoneError} from "./TimeZoneError.js";
+
+/** The part of the host's Intl.DateTimeFormat that IntlTimeZoneSource uses. Hosts before ES2017 lack formatToParts(). */
+interface HostDateTimeFormat
+{
+    formatToParts?(date: number): {type: string, value: string}[];
+}
+
+/** The part of the host's Intl namespace that IntlTimeZoneSource uses. */
+interface HostIntl
+{
+    DateTimeFormat?: {
+        new (locale: string, options: {[option: string]: string|boolean}): HostDateTimeFormat;
+        readonly prototype?: HostDateTimeFormat;
+    };
+}
+
+/**
+ * A source of time zone offsets backed by the host's Intl.DateTimeFormat.
+ *
+ * The offset at each point in time is found by formatting the point in time in the IANA time zone and comparing the
+ * wall-clock time with UTC, so any zone the host knows is supported with the host's own (usually up-to-date) data.
+ * Offsets are accurate to the minute. Register IntlTimeZoneSource.provider() with TimeZone.addProvider() to have the
+ * TimeZone constructor resolve names that aren't in the built-in table:
+ *
+ *     TimeZone.addProvider(IntlTimeZoneSource.provider(), true);
+ */
+export class IntlTimeZoneSource implements TimeZoneOffsetSource
+{
+    /** The number of ms in 400 Gregorian years, after which the calendar repeats. */
+    private static readonly GregorianCycle = 146097 * 86400000;
+
+    /** The IANA name of the time zone. */
+    private readonly m_name: string;
+
+    /** Formatter for the wall-clock date and time in the time zone. */
+    private readonly m_dateTimeFormat: HostDateTimeFormat;
+
+    /** Formatter for the short name of the time zone. */
+    private readonly m_nameFormat: HostDateTimeFormat;
+
+    /** Cache of standard offsets, keyed by year. */
+    private readonly m_standardOffsets = new Map<number, number>();
+
+    /**
+     * Initialise a new IntlTimeZoneSource.
+     *
+     * @param name The IANA name of the time zone, e.g. "America/Nuuk".
+     *
+     * @throws TimeZoneError if the host doesn't support Intl time zones or doesn't recognise the name.
+     */
+    public constructor(name: string)
+    {
+        if (!IntlTimeZoneSource.isSupported) {
+            throw new TimeZoneError("The host provides no Intl.DateTimeFormat with time zone support.");
+        }
+
+        const intl = (globalThis as {Intl?: HostIntl}).Intl;
+
+        try {
+            this.m_dateTimeFormat = new intl.DateTimeFormat("en-US", {
+                timeZone: name,
+                hour12: false,
+                era: "short",
+                year: "numeric",
+                month: "numeric",
+                day: "numeric",
+                hour: "numeric",
+                minute: "numeric",
+                second: "numeric",
+            });
+
+            this.m_nameFormat = new intl.DateTimeFormat("en-US", {timeZone: name, timeZoneName: "short"});
+        } catch (err) {
+            throw new TimeZoneError(`Expected time zone name known to Intl, found "${name}".`);
+        }
+
+        this.m_name = name;
+    }
+
+    /** Determine whether the host provides Intl.DateTimeFormat with time zone support. */
+    public static get isSupported(): boolean
+    {
+        return "function" === typeof (globalThis as {Intl?: HostIntl}).Intl?.DateTimeFormat?.prototype?.formatToParts;
+    }
+
+    /**
+     * Create a TimeZone provider that resolves IANA names through the host's Intl support.
+     *
+     * Sources are created on first use and cached. Names the host doesn't recognise, or all names if the host has no Intl
+     * support, are left for the next provider.
+     */
+    public static provider(): TimeZoneProvider
+    {
+        const cache = new Map<string, TimeZone|undefined>();
+
+        return (name: string): TimeZone|undefined => {
+            if (!cache.has(name)) {
+                let timeZone: TimeZone = undefined;
+
+                if (IntlTimeZoneSource.isSupported) {
+                    try {
+                        const source = new IntlTimeZoneSource(name);
+                        timeZone = new TimeZone(source.standardOffsetIn(new Date().getUTCFullYear()), [], [], source);
+                    } catch (err) {
+                        if (!(err instanceof TimeZoneError)) {
+                            throw err;
+                        }
+                    }
+                }
+
+                cache.set(name, timeZone);
+            }
+
+            return cache.get(name);
+        };
+    }
+
+    /** The IANA name of the time zone. */
+    public get name(): string
+    {
+        return this.m_name;
+    }
+
+    /**
+     * Fetch the offset from UTC in force at a given point in time.
+     *
+     * @param timestamp The ECMA timestamp (ms since 1970-01-01T00:00:00.000UTC)
+     *
+     * @return The offset, in minutes.
+     */
+    public offsetAt(timestamp: number): number
+    {
+        const fields: {[type: string]: string} = {};
+
+        for (const part of this.m_dateTimeFormat.formatToParts(timestamp)) {
+            fields[part.type] = part.value;
+        }
+
+        // the year is numbered within the era, and some hosts format midnight as hour 24
+        const year = ("BC" === fields.era || "B" === fields.era ? 1 - Number(fields.year) : Number(fields.year));
+
+        // the wall-clock time can be outside the ECMAScript time range, so it is read 400 years towards the epoch
+        const cycles = (0 > year ? 1 : -1);
+        const local = DateTime.utcDate(year + 400 * cycles, Number(fields.month), Number(fields.day));
+        local.setUTCHours(Number(fields.hour) % 24, Number(fields.minute), Number(fields.second));
+        return Math.round((local.getTime() - cycles * IntlTimeZoneSource.GregorianCycle - Math.floor(timestamp / 1000) * 1000) / 60000);
+    }
+
+    /**
+     * Determine whether daylight saving is in force at a given point in time.
+     *
+     * Daylight saving is taken to be in force when the offset is greater than the lesser of the offsets on 1st January
+     * and 1st July of the year.
+     *
+     * @param timestamp The ECMA timestamp (ms since 1970-01-01T00:00:00.000UTC)
+     */
+    public isDaylightSavingAt(timestamp: number): boolean
+    {
+        return this.offsetAt(timestamp) > this.standardOffsetIn(new Date(timestamp).getUTCFullYear());
+    }
+
+    /**
+     * Fetch the abbreviation for the time zone in force at a given point in time.
+     *
+     * @param timestamp The ECMA timestamp (ms since 1970-01-01T00:00:00.000UTC)
+     *
+     * @return The abbreviation, or `undefined` if the host only has a numeric name such as "GMT+2" for the time.
+     */
+    public abbreviationAt(timestamp: number): string|undefined
+    {
+        for (const part of this.m_nameFormat.formatToParts(timestamp)) {
+            if ("timeZoneName" === part.type) {
+                return (/^[A-Za-z]+$/.test(part.value) ? part.value : undefined);
+            }
+        }
+
+        return undefined;
+    }
+
+    /** Helper to fetch the standard offset in a year: the lesser of the offsets on 1st January and 1st July. */
+    private standardOffsetIn(year: number): number
+    {
+        if (!this.m_standardOffsets.has(year)) {
+            // in the first and last years of the ECMAScript time range, the dates are clamped to the range
+            const offsetOn = (month: number) => {
+                const timestamp = DateTime.utcDate(year, month, 1).getTime();
+                return this.offsetAt(Number.isNaN(timestamp) ? Math.sign(year) * 8.64e15 : timestamp);
+            };
+
+            this.m_standardOffsets.set(year, Math.min(offsetOn(1), offsetOn(7)));
+        }
+
+        return this.m_standardOffsets.get(year);
+    }
+}
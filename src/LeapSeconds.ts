@@ -0,0 +1,156 @@
+import {LeapSecondsError} from "./LeapSecondsError.js";
+
+/** Enumeration of options for mapping the points in time during a leap second to ECMA timestamps, which have no leap seconds. */
+export enum LeapSecondPolicy
+{
+    /** Reject points in time during a leap second. */
+    Reject = 0,
+    /** Clamp points in time during a leap second to the last ms before it (23:59:59.999). */
+    Clamp,
+    /**
+     * Smear the leap second linearly over the 24 hours from noon to noon UTC around it, as Google and AWS do. Every point
+     * in time in the smear maps to a timestamp up to 1s earlier than it would otherwise, so timestamps stay in order.
+     */
+    Smear,
+}
+
+/**
+ * The table of (positive) leap seconds inserted into UTC, and conversions between UTC and TAI.
+ *
+ * UTC timestamps are ECMA timestamps, which ignore leap seconds. TAI timestamps count ms on the TAI scale since
+ * 1970-01-01T00:00:00 TAI, ignoring the TAI-UTC offset of the "rubber seconds" era: before 1972, TAI-UTC is taken to be
+ * 10s, as it was at the start of 1972.
+ *
+ * The bundled table includes every leap second up to the end of 2016 and is known to be complete up to its expiry date
+ * of 28th December 2026, per IERS Bulletin C. Leap seconds announced later can be added with addLeapSecond().
+ */
+export class LeapSeconds
+{
+    /** The UTC days that end with a leap second, as [year, month, day]. */
+    private static readonly Days: [number, number, number][] = [
+        [1972, 6, 30], [1972, 12, 31], [1973, 12, 31], [1974, 12, 31], [1975, 12, 31], [1976, 12, 31], [1977, 12, 31],
+        [1978, 12, 31], [1979, 12, 31], [1981, 6, 30], [1982, 6, 30], [1983, 6, 30], [1985, 6, 30], [1987, 12, 31],
+        [1989, 12, 31], [1990, 12, 31], [1992, 6, 30], [1993, 6, 30], [1994, 6, 30], [1995, 12, 31], [1997, 6, 30],
+        [1998, 12, 31], [2005, 12, 31], [2008, 12, 31], [2012, 6, 30], [2015, 6, 30], [2016, 12, 31],
+    ];
+
+    /** TAI-UTC, in seconds, before the first leap second. */
+    private static readonly InitialOffset = 10;
+
+    /** The number of ms either side of a leap second that a smear covers. */
+    private static readonly SmearHalfWidth = 12 * 60 * 60 * 1000;
+
+    /** The UTC timestamps at which each leap second ends (the midnight after it), in order. */
+    private static ends: number[] = LeapSeconds.Days.map(([year, month, day]) => Date.UTC(year, month - 1, day + 1));
+
+    /** The UTC timestamp up to which the table is known to be complete, as given by the IERS leap-seconds.list. */
+    private static expiry: number = Date.UTC(2026, 11, 28);
+
+    /** The UTC timestamps at which each leap second ends (the midnight after it), in order. */
+    public static get leapSeconds(): number[]
+    {
+        return [...LeapSeconds.ends];
+    }
+
+    /** The UTC timestamp up to which the table is known to be complete. */
+    public static get expires(): number
+    {
+        return LeapSeconds.expiry;
+    }
+
+    /**
+     * Add a leap second to the table.
+     *
+     * @param year The year of the UTC day that ends with the leap second.
+     * @param month The month of the UTC day that ends with the leap second.
+     * @param day The day of the month of the UTC day that ends with the leap second.
+     * @param expires The UTC timestamp up to which the table is now known to be complete. Defaults to the end of the leap
+     * second.
+     *
+     * @throws LeapSecondsError if the day is not after the last leap second in the table or the expiry is before the
+     * end of the leap second.
+     */
+    public static addLeapSecond(year: number, month: number, day: number, expires?: number): void
+    {
+        const end = Date.UTC(year, month - 1, day + 1);
+
+        if (end <= LeapSeconds.ends[LeapSeconds.ends.length - 1]) {
+            throw new LeapSecondsError(`Expected leap second after ${new Date(LeapSeconds.ends[LeapSeconds.ends.length - 1] - 1).toISOString().substring(0, 10)}, found ${year}-${month}-${day}.`);
+        }
+
+        if (undefined !== expires && expires < end) {
+            throw new LeapSecondsError(`Expected expiry at or after the leap second ending ${new Date(end).toISOString()}, found ${new Date(expires).toISOString()}.`);
+        }
+
+        LeapSeconds.ends.push(end);
+        LeapSeconds.expiry = Math.max(LeapSeconds.expiry, expires ?? end);
+    }
+
+    /**
+     * Determine whether a leap second ends at a UTC timestamp.
+     *
+     * @param timestamp The UTC timestamp.
+     */
+    public static endsAt(timestamp: number): boolean
+    {
+        return 0 <= LeapSeconds.ends.indexOf(timestamp);
+    }
+
+    /**
+     * Find TAI-UTC at a UTC timestamp.
+     *
+     * @param timestamp The UTC timestamp.
+     *
+     * @return TAI-UTC, in seconds.
+     */
+    public static offset(timestamp: number): number
+    {
+        return LeapSeconds.InitialOffset + LeapSeconds.ends.filter((end) => end <= timestamp).length;
+    }
+
+    /**
+     * Convert a UTC timestamp to a TAI timestamp.
+     *
+     * @param timestamp The UTC timestamp.
+     */
+    public static utcToTai(timestamp: number): number
+    {
+        return timestamp + LeapSeconds.offset(timestamp) * 1000;
+    }
+
+    /**
+     * Convert a TAI timestamp to a UTC timestamp.
+     *
+     * @param tai The TAI timestamp.
+     * @param policy How to map points in time during a leap second. Defaults to Clamp.
+     *
+     * @return The UTC timestamp, or `undefined` if the point in time is during a leap second and the policy is Reject.
+     */
+    public static taiToUtc(tai: number, policy: LeapSecondPolicy = LeapSecondPolicy.Clamp): number|undefined
+    {
+        let offset = LeapSeconds.InitialOffset;
+
+        for (const end of LeapSeconds.ends) {
+            const endTai = LeapSeconds.utcToTai(end);
+
+            if (LeapSecondPolicy.Smear === policy && tai >= endTai - 1000 - LeapSeconds.SmearHalfWidth && tai < endTai + LeapSeconds.SmearHalfWidth) {
+                // 86401 SI seconds map to 86400 UTC seconds
+                const start = end - LeapSeconds.SmearHalfWidth;
+                const elapsed = tai - (endTai - 1000 - LeapSeconds.SmearHalfWidth);
+                return start + Math.floor(elapsed * (2 * LeapSeconds.SmearHalfWidth) / (2 * LeapSeconds.SmearHalfWidth + 1000));
+            }
+
+            if (tai >= endTai - 1000 && tai < endTai) {
+                return (LeapSecondPolicy.Reject === policy ? undefined : end - 1);
+            }
+
+            if (tai < endTai) {
+                break;
+            }
+
+            ++offset;
+        }
+
+        return tai - offset * 1000;
+    }
+}
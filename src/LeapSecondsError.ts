@@ -0,0 +1,3 @@
+/** Custom Error class thrown by LeapSeconds. */
+export class LeapSecondsError extends Error
+{}
@@ -0,0 +1,234 @@
+import {DateTime, Duration, Weekday} from "./DateTime.js";
+import {DateTimeError} from "./DateTimeError.js";
+import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {LocalDateTime} from "./LocalDateTime.js";
+import {LocalTime} from "./LocalTime.js";
+import {TimeZone} from "./TimeZone.js";
+
+/**
+ * Interface for LocalDate instances.
+ *
+ * The ISO 8601 week date and ordinal date components are optional, as they are for DateTimeInterface.
+ */
+export interface LocalDateInterface
+{
+    readonly year: number;
+    readonly month: number;
+    readonly day: number;
+    readonly weekday: Weekday;
+    readonly isoWeekday?: number;
+    readonly isoWeek?: number;
+    readonly isoWeekYear?: number;
+    readonly dayOfYear?: number;
+}
+
+/**
+ * A calendar date with no time and no TimeZone, such as a birthday.
+ *
+ * A LocalDate is not a point in time. Use atTime() to combine it with a LocalTime, and LocalDateTime.inZone() to place
+ * that in a TimeZone. Instances are immutable.
+ */
+export class LocalDate implements LocalDateInterface
+{
+    /** The year. */
+    private readonly m_year: number;
+
+    /** The month (1 = January, 12 = December). */
+    private readonly m_month: number;
+
+    /** The day of the month. */
+    private readonly m_day: number;
+
+    /** The day of the week. */
+    private readonly m_weekday: Weekday;
+
+    /**
+     * Initialise a new LocalDate.
+     *
+     * @param year The year.
+     * @param month The month (1 = January, 12 = December).
+     * @param day The day of the month.
+     *
+     * @throws DateTimeError if the date is not valid.
+     */
+    public constructor(year: number, month: number, day: number)
+    {
+        if (!DateTime.isValidYear(year)) {
+            throw new DateTimeError(`Expected valid year, found ${year}.`);
+        }
+
+        if (!DateTime.isValidMonth(month)) {
+            throw new DateTimeError(`Expected valid month, found ${month}.`);
+        }
+
+        if (!DateTime.isValidDay(day, month, year)) {
+            throw new DateTimeError(`Expected valid day, found ${day}.`);
+        }
+
+        this.m_year = year;
+        this.m_month = month;
+        this.m_day = day;
+        this.m_weekday = DateTime.utcDate(year, month, day).getUTCDay();
+    }
+
+    /** The year. */
+    public get year(): number
+    {
+        return this.m_year;
+    }
+
+    /** Clone the LocalDate, but with a different year. */
+    public withYear(year: number): LocalDate
+    {
+        return new LocalDate(year, this.month, this.day);
+    }
+
+    /** The month (1 = January, 12 = December). */
+    public get month(): number
+    {
+        return this.m_month;
+    }
+
+    /** Clone the LocalDate, but with a different month. */
+    public withMonth(month: number): LocalDate
+    {
+        return new LocalDate(this.year, month, this.day);
+    }
+
+    /** The day of the month. */
+    public get day(): number
+    {
+        return this.m_day;
+    }
+
+    /** Clone the LocalDate, but with a different day. */
+    public withDay(day: number): LocalDate
+    {
+        return new LocalDate(this.year, this.month, day);
+    }
+
+    /** The day of the week. */
+    public get weekday(): Weekday
+    {
+        return this.m_weekday;
+    }
+
+    /** The ISO 8601 day of the week (1 = Monday, 7 = Sunday). */
+    public get isoWeekday(): number
+    {
+        return (Weekday.Sunday === this.weekday ? 7 : this.weekday);
+    }
+
+    /** The ISO 8601 week (1..53). See DateTime.isoWeek. */
+    public get isoWeek(): number
+    {
+        return this.atStartOfDay().inZone(TimeZone.utc).isoWeek;
+    }
+
+    /** The ISO 8601 week-numbering year, i.e. the year to which the isoWeek belongs. */
+    public get isoWeekYear(): number
+    {
+        return this.atStartOfDay().inZone(TimeZone.utc).isoWeekYear;
+    }
+
+    /** The day of the year (1..366). */
+    public get dayOfYear(): number
+    {
+        return this.atStartOfDay().inZone(TimeZone.utc).dayOfYear;
+    }
+
+    /**
+     * Add an amount of time to the LocalDate.
+     *
+     * Calendar units are added as for DateTime.plus(), so a month added to January 31st gives the last day of February.
+     * Time units are added to the start of the day, and only whole days count.
+     *
+     * @param duration The amount of time to add. Negative amounts are subtracted.
+     */
+    public plus(duration: Duration): LocalDate
+    {
+        return this.atStartOfDay().plus(duration).date;
+    }
+
+    /**
+     * Subtract an amount of time from the LocalDate.
+     *
+     * @param duration The amount of time to subtract. Negative amounts are added.
+     */
+    public minus(duration: Duration): LocalDate
+    {
+        return this.atStartOfDay().minus(duration).date;
+    }
+
+    /**
+     * Combine the LocalDate with a time.
+     *
+     * @param time The time.
+     */
+    public atTime(time: LocalTime): LocalDateTime
+    {
+        return new LocalDateTime(this.year, this.month, this.day, time.hour, time.minute, time.second, time.ms);
+    }
+
+    /** Combine the LocalDate with midnight. */
+    public atStartOfDay(): LocalDateTime
+    {
+        return new LocalDateTime(this.year, this.month, this.day);
+    }
+
+    /** Determine whether the LocalDate is the same date as another. */
+    public equals(other: LocalDate): boolean
+    {
+        return 0 === this.compareTo(other);
+    }
+
+    /**
+     * Compare the LocalDate to another.
+     *
+     * @return A negative number if the LocalDate is before the other, a positive number if it is after, or 0 if they are
+     * the same date.
+     */
+    public compareTo(other: LocalDate): number
+    {
+        return (this.year - other.year) || (this.month - other.month) || (this.day - other.day);
+    }
+
+    /** Determine whether the LocalDate is before another. */
+    public isBefore(other: LocalDate): boolean
+    {
+        return 0 > this.compareTo(other);
+    }
+
+    /** Determine whether the LocalDate is after another. */
+    public isAfter(other: LocalDate): boolean
+    {
+        return 0 < this.compareTo(other);
+    }
+
+    /** Generate an ISO 8601 date string for the LocalDate, e.g. 2024-02-01. */
+    public toString(): string
+    {
+        return new DateTimeFormatter("{Y}-{M}-{D}").format(this);
+    }
+
+    /**
+     * Compare two LocalDates, for sorting.
+     *
+     * @return A negative number if the first is before the second, a positive number if it is after, or 0 if they are the
+     * same date.
+     */
+    public static compare(lhs: LocalDate, rhs: LocalDate): number
+    {
+        return lhs.compareTo(rhs);
+    }
+
+    /**
+     * Fetch the current date in a TimeZone.
+     *
+     * @param timeZone The TimeZone. Defaults to UTC.
+     */
+    public static today(timeZone: TimeZone = TimeZone.utc): LocalDate
+    {
+        return DateTime.now(timeZone).toLocalDate();
+    }
+}
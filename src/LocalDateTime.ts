@@ -0,0 +1,263 @@
+import {DateTime, Disambiguation, Duration, Weekday} from "./DateTime.js";
+import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {LocalDate, LocalDateInterface} from "./LocalDate.js";
+import {LocalTime, LocalTimeInterface} from "./LocalTime.js";
+import {TimeZone} from "./TimeZone.js";
+
+/** Interface for LocalDateTime instances. */
+export interface LocalDateTimeInterface extends LocalDateInterface, LocalTimeInterface
+{}
+
+/**
+ * A calendar date and wall-clock time with no TimeZone, such as the "9:00 on 4th March" of a meeting.
+ *
+ * A LocalDateTime is not a point in time until it is placed in a TimeZone using inZone(). Instances are immutable.
+ */
+export class LocalDateTime implements LocalDateTimeInterface
+{
+    /** The date. */
+    private readonly m_date: LocalDate;
+
+    /** The time. */
+    private readonly m_time: LocalTime;
+
+    /**
+     * Initialise a new LocalDateTime.
+     *
+     * @param year The year.
+     * @param month The month (1 = January, 12 = December).
+     * @param day The day of the month.
+     * @param hour The hour (0..23). Defaults to 0.
+     * @param minute The minute (0..59). Defaults to 0.
+     * @param second The second (0..59). Defaults to 0.
+     * @param ms The millisecond (0..999). Defaults to 0.
+     *
+     * @throws DateTimeError if the date or time is not valid.
+     */
+    public constructor(year: number, month: number, day: number, hour: number = 0, minute: number = 0, second: number = 0, ms: number = 0)
+    {
+        this.m_date = new LocalDate(year, month, day);
+        this.m_time = new LocalTime(hour, minute, second, ms);
+    }
+
+    /** The date. */
+    public get date(): LocalDate
+    {
+        return this.m_date;
+    }
+
+    /** Clone the LocalDateTime, but with a different date. */
+    public withDate(date: LocalDate): LocalDateTime
+    {
+        return date.atTime(this.time);
+    }
+
+    /** The time. */
+    public get time(): LocalTime
+    {
+        return this.m_time;
+    }
+
+    /** Clone the LocalDateTime, but with a different time. */
+    public withTime(time: LocalTime): LocalDateTime
+    {
+        return this.date.atTime(time);
+    }
+
+    /** The year. */
+    public get year(): number
+    {
+        return this.date.year;
+    }
+
+    /** Clone the LocalDateTime, but with a different year. */
+    public withYear(year: number): LocalDateTime
+    {
+        return this.date.withYear(year).atTime(this.time);
+    }
+
+    /** The month (1 = January, 12 = December). */
+    public get month(): number
+    {
+        return this.date.month;
+    }
+
+    /** Clone the LocalDateTime, but with a different month. */
+    public withMonth(month: number): LocalDateTime
+    {
+        return this.date.withMonth(month).atTime(this.time);
+    }
+
+    /** The day of the month. */
+    public get day(): number
+    {
+        return this.date.day;
+    }
+
+    /** Clone the LocalDateTime, but with a different day. */
+    public withDay(day: number): LocalDateTime
+    {
+        return this.date.withDay(day).atTime(this.time);
+    }
+
+    /** The day of the week. */
+    public get weekday(): Weekday
+    {
+        return this.date.weekday;
+    }
+
+    /** The ISO 8601 day of the week (1 = Monday, 7 = Sunday). */
+    public get isoWeekday(): number
+    {
+        return this.date.isoWeekday;
+    }
+
+    /** The ISO 8601 week (1..53). See DateTime.isoWeek. */
+    public get isoWeek(): number
+    {
+        return this.date.isoWeek;
+    }
+
+    /** The ISO 8601 week-numbering year, i.e. the year to which the isoWeek belongs. */
+    public get isoWeekYear(): number
+    {
+        return this.date.isoWeekYear;
+    }
+
+    /** The day of the year (1..366). */
+    public get dayOfYear(): number
+    {
+        return this.date.dayOfYear;
+    }
+
+    /** The hour (0..23). */
+    public get hour(): number
+    {
+        return this.time.hour;
+    }
+
+    /** Clone the LocalDateTime, but with a different hour. */
+    public withHour(hour: number): LocalDateTime
+    {
+        return this.date.atTime(this.time.withHour(hour));
+    }
+
+    /** The minute (0..59). */
+    public get minute(): number
+    {
+        return this.time.minute;
+    }
+
+    /** Clone the LocalDateTime, but with a different minute. */
+    public withMinute(minute: number): LocalDateTime
+    {
+        return this.date.atTime(this.time.withMinute(minute));
+    }
+
+    /** The second (0..59). */
+    public get second(): number
+    {
+        return this.time.second;
+    }
+
+    /** Clone the LocalDateTime, but with a different second. */
+    public withSecond(second: number): LocalDateTime
+    {
+        return this.date.atTime(this.time.withSecond(second));
+    }
+
+    /** The millisecond (0..999). */
+    public get ms(): number
+    {
+        return this.time.ms;
+    }
+
+    /** Clone the LocalDateTime, but with a different millisecond. */
+    public withMs(ms: number): LocalDateTime
+    {
+        return this.date.atTime(this.time.withMs(ms));
+    }
+
+    /**
+     * Add an amount of time to the LocalDateTime.
+     *
+     * Units are added as for DateTime.plus() in a TimeZone with no daylight saving, so every day is 24 hours long.
+     *
+     * @param duration The amount of time to add. Negative amounts are subtracted.
+     */
+    public plus(duration: Duration): LocalDateTime
+    {
+        return this.inZone(TimeZone.utc).plus(duration).toLocalDateTime();
+    }
+
+    /**
+     * Subtract an amount of time from the LocalDateTime.
+     *
+     * @param duration The amount of time to subtract. Negative amounts are added.
+     */
+    public minus(duration: Duration): LocalDateTime
+    {
+        return this.inZone(TimeZone.utc).minus(duration).toLocalDateTime();
+    }
+
+    /**
+     * Place the LocalDateTime in a TimeZone, giving a point in time.
+     *
+     * @param timeZone The TimeZone.
+     * @param disambiguation How to resolve wall-clock times that are ambiguous or don't exist in the TimeZone. Defaults to
+     * Earlier.
+     *
+     * @throws DateTimeError if the wall-clock time is ambiguous or doesn't exist in the TimeZone and disambiguation is
+     * Reject.
+     */
+    public inZone(timeZone: TimeZone, disambiguation: Disambiguation = Disambiguation.Earlier): DateTime
+    {
+        return DateTime.fromDateTime(this.year, this.month, this.day, this.hour, this.minute, this.second, this.ms, timeZone, disambiguation);
+    }
+
+    /** Determine whether the LocalDateTime is the same date and time as another. */
+    public equals(other: LocalDateTime): boolean
+    {
+        return 0 === this.compareTo(other);
+    }
+
+    /**
+     * Compare the LocalDateTime to another.
+     *
+     * @return A negative number if the LocalDateTime is before the other, a positive number if it is after, or 0 if they
+     * are the same date and time.
+     */
+    public compareTo(other: LocalDateTime): number
+    {
+        return this.date.compareTo(other.date) || this.time.compareTo(other.time);
+    }
+
+    /** Determine whether the LocalDateTime is before another. */
+    public isBefore(other: LocalDateTime): boolean
+    {
+        return 0 > this.compareTo(other);
+    }
+
+    /** Determine whether the LocalDateTime is after another. */
+    public isAfter(other: LocalDateTime): boolean
+    {
+        return 0 < this.compareTo(other);
+    }
+
+    /** Generate an ISO 8601 date-time string for the LocalDateTime, e.g. 2024-02-01T09:30:00.000. */
+    public toString(): string
+    {
+        return new DateTimeFormatter("{Y}-{M}-{D}T{h}:{m}:{s}.{ms:3}").format(this);
+    }
+
+    /**
+     * Compare two LocalDateTimes, for sorting.
+     *
+     * @return A negative number if the first is before the second, a positive number if it is after, or 0 if they are the
+     * same date and time.
+     */
+    public static compare(lhs: LocalDateTime, rhs: LocalDateTime): number
+    {
+        return lhs.compareTo(rhs);
+    }
+}
@@ -0,0 +1,215 @@
+import {DateTime, Duration} from "./DateTime.js";
+import {DateTimeError} from "./DateTimeError.js";
+import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {LocalDate} from "./LocalDate.js";
+import {LocalDateTime} from "./LocalDateTime.js";
+
+/** Interface for LocalTime instances. */
+export interface LocalTimeInterface
+{
+    readonly hour: number;
+    readonly minute: number;
+    readonly second: number;
+    readonly ms: number;
+}
+
+/**
+ * A wall-clock time of day with no date and no TimeZone, such as a store's opening time.
+ *
+ * Use atDate() to combine it with a LocalDate. Instances are immutable.
+ */
+export class LocalTime implements LocalTimeInterface
+{
+    /** The number of ms in a day. */
+    private static readonly MsPerDay = 86400000;
+
+    /** The hour (0..23). */
+    private readonly m_hour: number;
+
+    /** The minute (0..59). */
+    private readonly m_minute: number;
+
+    /** The second (0..59). */
+    private readonly m_second: number;
+
+    /** The millisecond (0..999). */
+    private readonly m_ms: number;
+
+    /**
+     * Initialise a new LocalTime.
+     *
+     * @param hour The hour (0..23).
+     * @param minute The minute (0..59). Defaults to 0.
+     * @param second The second (0..59). Defaults to 0.
+     * @param ms The millisecond (0..999). Defaults to 0.
+     *
+     * @throws DateTimeError if the time is not valid.
+     */
+    public constructor(hour: number, minute: number = 0, second: number = 0, ms: number = 0)
+    {
+        if (!DateTime.isValidHour(hour)) {
+            throw new DateTimeError(`Expected valid hour, found ${hour}.`);
+        }
+
+        if (!DateTime.isValidMinute(minute)) {
+            throw new DateTimeError(`Expected valid minute, found ${minute}.`);
+        }
+
+        if (!DateTime.isValidSecond(second)) {
+            throw new DateTimeError(`Expected valid second, found ${second}.`);
+        }
+
+        if (!DateTime.isValidMs(ms)) {
+            throw new DateTimeError(`Expected valid ms, found ${ms}.`);
+        }
+
+        this.m_hour = hour;
+        this.m_minute = minute;
+        this.m_second = second;
+        this.m_ms = ms;
+    }
+
+    /** The hour (0..23). */
+    public get hour(): number
+    {
+        return this.m_hour;
+    }
+
+    /** Clone the LocalTime, but with a different hour. */
+    public withHour(hour: number): LocalTime
+    {
+        return new LocalTime(hour, this.minute, this.second, this.ms);
+    }
+
+    /** The minute (0..59). */
+    public get minute(): number
+    {
+        return this.m_minute;
+    }
+
+    /** Clone the LocalTime, but with a different minute. */
+    public withMinute(minute: number): LocalTime
+    {
+        return new LocalTime(this.hour, minute, this.second, this.ms);
+    }
+
+    /** The second (0..59). */
+    public get second(): number
+    {
+        return this.m_second;
+    }
+
+    /** Clone the LocalTime, but with a different second. */
+    public withSecond(second: number): LocalTime
+    {
+        return new LocalTime(this.hour, this.minute, second, this.ms);
+    }
+
+    /** The millisecond (0..999). */
+    public get ms(): number
+    {
+        return this.m_ms;
+    }
+
+    /** Clone the LocalTime, but with a different millisecond. */
+    public withMs(ms: number): LocalTime
+    {
+        return new LocalTime(this.hour, this.minute, this.second, ms);
+    }
+
+    /** The number of ms since midnight. */
+    public get msOfDay(): number
+    {
+        return ((((this.hour * 60) + this.minute) * 60) + this.second) * 1000 + this.ms;
+    }
+
+    /**
+     * Add an amount of time to the LocalTime, wrapping around midnight.
+     *
+     * Calendar units (years, months, weeks and days) don't change the time of day and are ignored.
+     *
+     * @param duration The amount of time to add. Negative amounts are subtracted.
+     */
+    public plus(duration: Duration): LocalTime
+    {
+        const ms = ((((duration.hours ?? 0) * 60) + (duration.minutes ?? 0)) * 60 + (duration.seconds ?? 0)) * 1000 + (duration.ms ?? 0);
+        return LocalTime.fromMsOfDay(this.msOfDay + ms);
+    }
+
+    /**
+     * Subtract an amount of time from the LocalTime, wrapping around midnight.
+     *
+     * @param duration The amount of time to subtract. Negative amounts are added.
+     */
+    public minus(duration: Duration): LocalTime
+    {
+        return this.plus({hours: -(duration.hours ?? 0), minutes: -(duration.minutes ?? 0), seconds: -(duration.seconds ?? 0), ms: -(duration.ms ?? 0)});
+    }
+
+    /**
+     * Combine the LocalTime with a date.
+     *
+     * @param date The date.
+     */
+    public atDate(date: LocalDate): LocalDateTime
+    {
+        return date.atTime(this);
+    }
+
+    /** Determine whether the LocalTime is the same time as another. */
+    public equals(other: LocalTime): boolean
+    {
+        return this.msOfDay === other.msOfDay;
+    }
+
+    /**
+     * Compare the LocalTime to another.
+     *
+     * @return A negative number if the LocalTime is before the other, a positive number if it is after, or 0 if they are
+     * the same time.
+     */
+    public compareTo(other: LocalTime): number
+    {
+        return this.msOfDay - other.msOfDay;
+    }
+
+    /** Determine whether the LocalTime is before another. */
+    public isBefore(other: LocalTime): boolean
+    {
+        return 0 > this.compareTo(other);
+    }
+
+    /** Determine whether the LocalTime is after another. */
+    public isAfter(other: LocalTime): boolean
+    {
+        return 0 < this.compareTo(other);
+    }
+
+    /** Generate an ISO 8601 time string for the LocalTime, e.g. 09:30:00.000. */
+    public toString(): string
+    {
+        return new DateTimeFormatter("{h}:{m}:{s}.{ms:3}").format(this);
+    }
+
+    /**
+     * Create a new LocalTime from the number of ms since midnight.
+     *
+     * @param ms The number of ms since midnight. Values outside a day wrap around midnight.
+     */
+    public static fromMsOfDay(ms: number): LocalTime
+    {
+        ms = ((Math.floor(ms) % LocalTime.MsPerDay) + LocalTime.MsPerDay) % LocalTime.MsPerDay;
+        return new LocalTime(Math.floor(ms / 3600000), Math.floor(ms / 60000) % 60, Math.floor(ms / 1000) % 60, ms % 1000);
+    }
+
+    /**
+     * Compare two LocalTimes, for sorting.
+     *
+     * @return A negative number if the first is before the second, a positive number if it is after, or 0 if they are the
+     * same time.
+     */
+    public static compare(lhs: LocalTime, rhs: LocalTime): number
+    {
+        return lhs.compareTo(rhs);
+    }
+}
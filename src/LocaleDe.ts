@@ -0,0 +1,110 @@
+import {DateTimeLocale} from "./DateTimeLocale.js";
+
+/** German locale data for DateTimeFormatter. */
+export const LocaleDe: DateTimeLocale = {
+    code: "de",
+    months: {
+        format: {
+            long: ["Januar", "Februar", "März", "April", "Mai", "Juni", "Juli", "August", "September", "Oktober", "November", "Dezember"],
+            short: ["Jan.", "Feb.", "März", "Apr.", "Mai", "Juni", "Juli", "Aug.", "Sept.", "Okt.", "Nov.", "Dez."],
+            narrow: ["J", "F", "M", "A", "M", "J", "J", "A", "S", "O", "N", "D"],
+        },
+        standalone: {
+            long: ["Januar", "Februar", "März", "April", "Mai", "Juni", "Juli", "August", "September", "Oktober", "November", "Dezember"],
+            short: ["Jan", "Feb", "Mär", "Apr", "Mai", "Jun", "Jul", "Aug", "Sep", "Okt", "Nov", "Dez"],
+            narrow: ["J", "F", "M", "A", "M", "J", "J", "A", "S", "O", "N", "D"],
+        },
+    },
+    weekdays: {
+        format: {
+            long: ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"],
+            short: ["So.", "Mo.", "Di.", "Mi.", "Do.", "Fr.", "Sa."],
+            narrow: ["S", "M", "D", "M", "D", "F", "S"],
+        },
+        standalone: {
+            long: ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"],
+            short: ["So", "Mo", "Di", "Mi", "Do", "Fr", "Sa"],
+            narrow: ["S", "M", "D", "M", "D", "F", "S"],
+        },
+    },
+    dayPeriods: ["AM", "PM"],
+    eras: ["v. u. Z.", "u. Z."],
+    relativeTime: {
+        long: {
+            year: {
+                future: {one: "in {0} Jahr", other: "in {0} Jahren"},
+                past: {one: "vor {0} Jahr", other: "vor {0} Jahren"},
+                idioms: {"-1": "letztes Jahr", "0": "dieses Jahr", "1": "nächstes Jahr"},
+            },
+            month: {
+                future: {one: "in {0} Monat", other: "in {0} Monaten"},
+                past: {one: "vor {0} Monat", other: "vor {0} Monaten"},
+                idioms: {"-1": "letzten Monat", "0": "diesen Monat", "1": "nächsten Monat"},
+            },
+            week: {
+                future: {one: "in {0} Woche", other: "in {0} Wochen"},
+                past: {one: "vor {0} Woche", other: "vor {0} Wochen"},
+                idioms: {"-1": "letzte Woche", "0": "diese Woche", "1": "nächste Woche"},
+            },
+            day: {
+                future: {one: "in {0} Tag", other: "in {0} Tagen"},
+                past: {one: "vor {0} Tag", other: "vor {0} Tagen"},
+                idioms: {"-2": "vorgestern", "-1": "gestern", "0": "heute", "1": "morgen", "2": "übermorgen"},
+            },
+            hour: {
+                future: {one: "in {0} Stunde", other: "in {0} Stunden"},
+                past: {one: "vor {0} Stunde", other: "vor {0} Stunden"},
+                idioms: {"0": "in dieser Stunde"},
+            },
+            minute: {
+                future: {one: "in {0} Minute", other: "in {0} Minuten"},
+                past: {one: "vor {0} Minute", other: "vor {0} Minuten"},
+                idioms: {"0": "in dieser Minute"},
+            },
+            second: {
+                future: {one: "in {0} Sekunde", other: "in {0} Sekunden"},
+                past: {one: "vor {0} Sekunde", other: "vor {0} Sekunden"},
+                idioms: {"0": "jetzt"},
+            },
+        },
+        short: {
+            year: {
+                future: {other: "in {0} J."},
+                past: {other: "vor {0} J."},
+                idioms: {"-1": "letztes Jahr", "0": "dieses Jahr", "1": "nächstes Jahr"},
+            },
+            month: {
+                future: {other: "in {0} Mon."},
+                past: {other: "vor {0} Mon."},
+                idioms: {"-1": "letzten Monat", "0": "diesen Monat", "1": "nächsten Monat"},
+            },
+            week: {
+                future: {other: "in {0} Wo."},
+                past: {other: "vor {0} Wo."},
+                idioms: {"-1": "letzte Woche", "0": "diese Woche", "1": "nächste Woche"},
+            },
+            day: {
+                future: {one: "in {0} Tag", other: "in {0} Tagen"},
+                past: {one: "vor {0} Tag", other: "vor {0} Tagen"},
+                idioms: {"-2": "vorgestern", "-1": "gestern", "0": "heute", "1": "morgen", "2": "übermorgen"},
+            },
+            hour: {
+                future: {other: "in {0} Std."},
+                past: {other: "vor {0} Std."},
+                idioms: {"0": "in dieser Stunde"},
+            },
+            minute: {
+                future: {other: "in {0} Min."},
+                past: {other: "vor {0} Min."},
+                idioms: {"0": "in dieser Minute"},
+            },
+            second: {
+                future: {other: "in {0} Sek."},
+                past: {other: "vor {0} Sek."},
+                idioms: {"0": "jetzt"},
+            },
+        },
+        plural: (amount: number) => (1 === Math.abs(amount) ? "one" : "other"),
+    },
+    ordinal: (value: number): string => `${value}.`,
+};
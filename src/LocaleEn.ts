@@ -0,0 +1,149 @@
+import {DateTimeLocale} from "./DateTimeLocale.js";
+
+/** English locale data for DateTimeFormatter. */
+export const LocaleEn: DateTimeLocale = {
+    code: "en",
+    months: {
+        format: {
+            long: ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"],
+            short: ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"],
+            narrow: ["J", "F", "M", "A", "M", "J", "J", "A", "S", "O", "N", "D"],
+        },
+    },
+    weekdays: {
+        format: {
+            long: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+            short: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+            narrow: ["S", "M", "T", "W", "T", "F", "S"],
+        },
+    },
+    dayPeriods: ["AM", "PM"],
+    eras: ["BCE", "CE"],
+    relativeTime: {
+        long: {
+            year: {
+                future: {one: "in {0} year", other: "in {0} years"},
+                past: {one: "{0} year ago", other: "{0} years ago"},
+                idioms: {"-1": "last year", "0": "this year", "1": "next year"},
+            },
+            month: {
+                future: {one: "in {0} month", other: "in {0} months"},
+                past: {one: "{0} month ago", other: "{0} months ago"},
+                idioms: {"-1": "last month", "0": "this month", "1": "next month"},
+            },
+            week: {
+                future: {one: "in {0} week", other: "in {0} weeks"},
+                past: {one: "{0} week ago", other: "{0} weeks ago"},
+                idioms: {"-1": "last week", "0": "this week", "1": "next week"},
+            },
+            day: {
+                future: {one: "in {0} day", other: "in {0} days"},
+                past: {one: "{0} day ago", other: "{0} days ago"},
+                idioms: {"-1": "yesterday", "0": "today", "1": "tomorrow"},
+            },
+            hour: {
+                future: {one: "in {0} hour", other: "in {0} hours"},
+                past: {one: "{0} hour ago", other: "{0} hours ago"},
+                idioms: {"0": "this hour"},
+            },
+            minute: {
+                future: {one: "in {0} minute", other: "in {0} minutes"},
+                past: {one: "{0} minute ago", other: "{0} minutes ago"},
+                idioms: {"0": "this minute"},
+            },
+            second: {
+                future: {one: "in {0} second", other: "in {0} seconds"},
+                past: {one: "{0} second ago", other: "{0} seconds ago"},
+                idioms: {"0": "now"},
+            },
+        },
+        short: {
+            year: {
+                future: {other: "in {0} yr."},
+                past: {other: "{0} yr. ago"},
+                idioms: {"-1": "last yr.", "0": "this yr.", "1": "next yr."},
+            },
+            month: {
+                future: {other: "in {0} mo."},
+                past: {other: "{0} mo. ago"},
+                idioms: {"-1": "last mo.", "0": "this mo.", "1": "next mo."},
+            },
+            week: {
+                future: {other: "in {0} wk."},
+                past: {other: "{0} wk. ago"},
+                idioms: {"-1": "last wk.", "0": "this wk.", "1": "next wk."},
+            },
+            day: {
+                future: {one: "in {0} day", other: "in {0} days"},
+                past: {one: "{0} day ago", other: "{0} days ago"},
+                idioms: {"-1": "yesterday", "0": "today", "1": "tomorrow"},
+            },
+            hour: {
+                future: {other: "in {0} hr."},
+                past: {other: "{0} hr. ago"},
+                idioms: {"0": "this hour"},
+            },
+            minute: {
+                future: {other: "in {0} min."},
+                past: {other: "{0} min. ago"},
+                idioms: {"0": "this minute"},
+            },
+            second: {
+                future: {other: "in {0} sec."},
+                past: {other: "{0} sec. ago"},
+                idioms: {"0": "now"},
+            },
+        },
+        narrow: {
+            year: {
+                future: {other: "in {0}y"},
+                past: {other: "{0}y ago"},
+                idioms: {"-1": "last yr.", "0": "this yr.", "1": "next yr."},
+            },
+            month: {
+                future: {other: "in {0}mo"},
+                past: {other: "{0}mo ago"},
+                idioms: {"-1": "last mo.", "0": "this mo.", "1": "next mo."},
+            },
+            week: {
+                future: {other: "in {0}w"},
+                past: {other: "{0}w ago"},
+                idioms: {"-1": "last wk.", "0": "this wk.", "1": "next wk."},
+            },
+            day: {
+                future: {other: "in {0}d"},
+                past: {other: "{0}d ago"},
+                idioms: {"-1": "yesterday", "0": "today", "1": "tomorrow"},
+            },
+            hour: {
+                future: {other: "in {0}h"},
+                past: {other: "{0}h ago"},
+                idioms: {"0": "this hour"},
+            },
+            minute: {
+                future: {other: "in {0}m"},
+                past: {other: "{0}m ago"},
+                idioms: {"0": "this minute"},
+            },
+            second: {
+                future: {other: "in {0}s"},
+                past: {other: "{0}s ago"},
+                idioms: {"0": "now"},
+            },
+        },
+        plural: (amount: number) => (1 === Math.abs(amount) ? "one" : "other"),
+    },
+    ordinal: (value: number): string => {
+        if (10 <= value % 100 && 20 > value % 100) {
+            return `${value}th`;
+        }
+
+        switch (value % 10) {
+            case 1: return `${value}st`;
+            case 2: return `${value}nd`;
+            case 3: return `${value}rd`;
+        }
+
+        return `${value}th`;
+    },
+};
@@ -0,0 +1,100 @@
+import {DateTimeLocale} from "./DateTimeLocale.js";
+
+/** Spanish locale data for DateTimeFormatter. */
+export const LocaleEs: DateTimeLocale = {
+    code: "es",
+    months: {
+        format: {
+            long: ["enero", "febrero", "marzo", "abril", "mayo", "junio", "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre"],
+            short: ["ene", "feb", "mar", "abr", "may", "jun", "jul", "ago", "sept", "oct", "nov", "dic"],
+            narrow: ["E", "F", "M", "A", "M", "J", "J", "A", "S", "O", "N", "D"],
+        },
+    },
+    weekdays: {
+        format: {
+            long: ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"],
+            short: ["dom", "lun", "mar", "mié", "jue", "vie", "sáb"],
+            narrow: ["D", "L", "M", "X", "J", "V", "S"],
+        },
+    },
+    dayPeriods: ["a. m.", "p. m."],
+    eras: ["a. e. c.", "e. c."],
+    relativeTime: {
+        long: {
+            year: {
+                future: {one: "dentro de {0} año", other: "dentro de {0} años"},
+                past: {one: "hace {0} año", other: "hace {0} años"},
+                idioms: {"-1": "el año pasado", "0": "este año", "1": "el próximo año"},
+            },
+            month: {
+                future: {one: "dentro de {0} mes", other: "dentro de {0} meses"},
+                past: {one: "hace {0} mes", other: "hace {0} meses"},
+                idioms: {"-1": "el mes pasado", "0": "este mes", "1": "el próximo mes"},
+            },
+            week: {
+                future: {one: "dentro de {0} semana", other: "dentro de {0} semanas"},
+                past: {one: "hace {0} semana", other: "hace {0} semanas"},
+                idioms: {"-1": "la semana pasada", "0": "esta semana", "1": "la próxima semana"},
+            },
+            day: {
+                future: {one: "dentro de {0} día", other: "dentro de {0} días"},
+                past: {one: "hace {0} día", other: "hace {0} días"},
+                idioms: {"-2": "anteayer", "-1": "ayer", "0": "hoy", "1": "mañana", "2": "pasado mañana"},
+            },
+            hour: {
+                future: {one: "dentro de {0} hora", other: "dentro de {0} horas"},
+                past: {one: "hace {0} hora", other: "hace {0} horas"},
+                idioms: {"0": "esta hora"},
+            },
+            minute: {
+                future: {one: "dentro de {0} minuto", other: "dentro de {0} minutos"},
+                past: {one: "hace {0} minuto", other: "hace {0} minutos"},
+                idioms: {"0": "este minuto"},
+            },
+            second: {
+                future: {one: "dentro de {0} segundo", other: "dentro de {0} segundos"},
+                past: {one: "hace {0} segundo", other: "hace {0} segundos"},
+                idioms: {"0": "ahora"},
+            },
+        },
+        short: {
+            year: {
+                future: {other: "dentro de {0} a"},
+                past: {other: "hace {0} a"},
+                idioms: {"-1": "el año pasado", "0": "este año", "1": "el próximo año"},
+            },
+            month: {
+                future: {other: "dentro de {0} m"},
+                past: {other: "hace {0} m"},
+                idioms: {"-1": "el mes pasado", "0": "este mes", "1": "el próximo mes"},
+            },
+            week: {
+                future: {other: "dentro de {0} sem."},
+                past: {other: "hace {0} sem."},
+                idioms: {"-1": "la semana pasada", "0": "esta semana", "1": "la próxima semana"},
+            },
+            day: {
+                future: {one: "dentro de {0} día", other: "dentro de {0} días"},
+                past: {one: "hace {0} día", other: "hace {0} días"},
+                idioms: {"-2": "anteayer", "-1": "ayer", "0": "hoy", "1": "mañana", "2": "pasado mañana"},
+            },
+            hour: {
+                future: {other: "dentro de {0} h"},
+                past: {other: "hace {0} h"},
+                idioms: {"0": "esta hora"},
+            },
+            minute: {
+                future: {other: "dentro de {0} min"},
+                past: {other: "hace {0} min"},
+                idioms: {"0": "este minuto"},
+            },
+            second: {
+                future: {other: "dentro de {0} s"},
+                past: {other: "hace {0} s"},
+                idioms: {"0": "ahora"},
+            },
+        },
+        plural: (amount: number) => (1 === Math.abs(amount) ? "one" : "other"),
+    },
+    ordinal: (value: number): string => `${value}.º`,
+};
@@ -0,0 +1,100 @@
+import {DateTimeLocale} from "./DateTimeLocale.js";
+
+/** French locale data for DateTimeFormatter. */
+export const LocaleFr: DateTimeLocale = {
+    code: "fr",
+    months: {
+        format: {
+            long: ["janvier", "février", "mars", "avril", "mai", "juin", "juillet", "août", "septembre", "octobre", "novembre", "décembre"],
+            short: ["janv.", "févr.", "mars", "avr.", "mai", "juin", "juil.", "août", "sept.", "oct.", "nov.", "déc."],
+            narrow: ["J", "F", "M", "A", "M", "J", "J", "A", "S", "O", "N", "D"],
+        },
+    },
+    weekdays: {
+        format: {
+            long: ["dimanche", "lundi", "mardi", "mercredi", "jeudi", "vendredi", "samedi"],
+            short: ["dim.", "lun.", "mar.", "mer.", "jeu.", "ven.", "sam."],
+            narrow: ["D", "L", "M", "M", "J", "V", "S"],
+        },
+    },
+    dayPeriods: ["AM", "PM"],
+    eras: ["AEC", "EC"],
+    relativeTime: {
+        long: {
+            year: {
+                future: {one: "dans {0} an", other: "dans {0} ans"},
+                past: {one: "il y a {0} an", other: "il y a {0} ans"},
+                idioms: {"-1": "l’année dernière", "0": "cette année", "1": "l’année prochaine"},
+            },
+            month: {
+                future: {other: "dans {0} mois"},
+                past: {other: "il y a {0} mois"},
+                idioms: {"-1": "le mois dernier", "0": "ce mois-ci", "1": "le mois prochain"},
+            },
+            week: {
+                future: {one: "dans {0} semaine", other: "dans {0} semaines"},
+                past: {one: "il y a {0} semaine", other: "il y a {0} semaines"},
+                idioms: {"-1": "la semaine dernière", "0": "cette semaine", "1": "la semaine prochaine"},
+            },
+            day: {
+                future: {one: "dans {0} jour", other: "dans {0} jours"},
+                past: {one: "il y a {0} jour", other: "il y a {0} jours"},
+                idioms: {"-2": "avant-hier", "-1": "hier", "0": "aujourd’hui", "1": "demain", "2": "après-demain"},
+            },
+            hour: {
+                future: {one: "dans {0} heure", other: "dans {0} heures"},
+                past: {one: "il y a {0} heure", other: "il y a {0} heures"},
+                idioms: {"0": "cette heure-ci"},
+            },
+            minute: {
+                future: {one: "dans {0} minute", other: "dans {0} minutes"},
+                past: {one: "il y a {0} minute", other: "il y a {0} minutes"},
+                idioms: {"0": "cette minute-ci"},
+            },
+            second: {
+                future: {one: "dans {0} seconde", other: "dans {0} secondes"},
+                past: {one: "il y a {0} seconde", other: "il y a {0} secondes"},
+                idioms: {"0": "maintenant"},
+            },
+        },
+        short: {
+            year: {
+                future: {other: "dans {0} a"},
+                past: {other: "il y a {0} a"},
+                idioms: {"-1": "l’année dernière", "0": "cette année", "1": "l’année prochaine"},
+            },
+            month: {
+                future: {other: "dans {0} m."},
+                past: {other: "il y a {0} m."},
+                idioms: {"-1": "le mois dernier", "0": "ce mois-ci", "1": "le mois prochain"},
+            },
+            week: {
+                future: {other: "dans {0} sem."},
+                past: {other: "il y a {0} sem."},
+                idioms: {"-1": "la semaine dernière", "0": "cette semaine", "1": "la semaine prochaine"},
+            },
+            day: {
+                future: {other: "dans {0} j"},
+                past: {other: "il y a {0} j"},
+                idioms: {"-2": "avant-hier", "-1": "hier", "0": "aujourd’hui", "1": "demain", "2": "après-demain"},
+            },
+            hour: {
+                future: {other: "dans {0} h"},
+                past: {other: "il y a {0} h"},
+                idioms: {"0": "cette heure-ci"},
+            },
+            minute: {
+                future: {other: "dans {0} min"},
+                past: {other: "il y a {0} min"},
+                idioms: {"0": "cette minute-ci"},
+            },
+            second: {
+                future: {other: "dans {0} s"},
+                past: {other: "il y a {0} s"},
+                idioms: {"0": "maintenant"},
+            },
+        },
+        plural: (amount: number) => (2 > Math.abs(amount) ? "one" : "other"),
+    },
+    ordinal: (value: number): string => (1 === value ? "1er" : `${value}e`),
+};
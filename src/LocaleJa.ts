@@ -0,0 +1,63 @@
+import {DateTimeLocale} from "./DateTimeLocale.js";
+
+/** Japanese locale data for DateTimeFormatter. */
+export const LocaleJa: DateTimeLocale = {
+    code: "ja",
+    months: {
+        format: {
+            long: ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"],
+            short: ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"],
+            narrow: ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"],
+        },
+    },
+    weekdays: {
+        format: {
+            long: ["日曜日", "月曜日", "火曜日", "水曜日", "木曜日", "金曜日", "土曜日"],
+            short: ["日", "月", "火", "水", "木", "金", "土"],
+            narrow: ["日", "月", "火", "水", "木", "金", "土"],
+        },
+    },
+    dayPeriods: ["午前", "午後"],
+    eras: ["西暦紀元前", "西暦紀元"],
+    relativeTime: {
+        long: {
+            year: {
+                future: {other: "{0} 年後"},
+                past: {other: "{0} 年前"},
+                idioms: {"-1": "昨年", "0": "今年", "1": "来年"},
+            },
+            month: {
+                future: {other: "{0} か月後"},
+                past: {other: "{0} か月前"},
+                idioms: {"-1": "先月", "0": "今月", "1": "来月"},
+            },
+            week: {
+                future: {other: "{0} 週間後"},
+                past: {other: "{0} 週間前"},
+                idioms: {"-1": "先週", "0": "今週", "1": "来週"},
+            },
+            day: {
+                future: {other: "{0} 日後"},
+                past: {other: "{0} 日前"},
+                idioms: {"-2": "一昨日", "-1": "昨日", "0": "今日", "1": "明日", "2": "明後日"},
+            },
+            hour: {
+                future: {other: "{0} 時間後"},
+                past: {other: "{0} 時間前"},
+                idioms: {"0": "1 時間以内"},
+            },
+            minute: {
+                future: {other: "{0} 分後"},
+                past: {other: "{0} 分前"},
+                idioms: {"0": "1 分以内"},
+            },
+            second: {
+                future: {other: "{0} 秒後"},
+                past: {other: "{0} 秒前"},
+                idioms: {"0": "今"},
+            },
+        },
+        plural: () => "other",
+    },
+    ordinal: (value: number): string => `${value}日`,
+};
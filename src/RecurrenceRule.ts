@@ -0,0 +1,773 @@
+import {DateTime, Disambiguation, Weekday} from "./DateTime.js";
+import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {RecurrenceRuleError} from "./RecurrenceRuleError.js";
+import {TimeZone} from "./TimeZone.js";
+
+/** The frequencies at which a RecurrenceRule can repeat. */
+export enum RecurrenceFrequency
+{
+    Yearly = 0,
+    Monthly,
+    Weekly,
+    Daily,
+    Hourly,
+    Minutely,
+    Secondly,
+}
+
+/**
+ * A day of the week in a RecurrenceRule, optionally restricted to one occurrence of it in the month or year.
+ *
+ * For example, {weekday: Weekday.Friday, ordinal: -1} is the last Friday (-1FR).
+ */
+export interface RecurrenceWeekday
+{
+    readonly weekday: Weekday;
+    /** The occurrence of the weekday within the month or year, counting from the end if negative. */
+    readonly ordinal?: number;
+}
+
+/** The parts of a RecurrenceRule, as described in RFC 5545 section 3.3.10. */
+export interface RecurrenceRuleOptions
+{
+    readonly frequency: RecurrenceFrequency;
+    /** The number of periods of the frequency between repetitions. Defaults to 1. */
+    readonly interval?: number;
+    /** The number of occurrences after which to stop. */
+    readonly count?: number;
+    /** The point in time after which to stop (inclusive). */
+    readonly until?: DateTime;
+    readonly bySecond?: number[];
+    readonly byMinute?: number[];
+    readonly byHour?: number[];
+    readonly byDay?: RecurrenceWeekday[];
+    readonly byMonthDay?: number[];
+    readonly byYearDay?: number[];
+    readonly byWeekNo?: number[];
+    readonly byMonth?: number[];
+    readonly bySetPos?: number[];
+    /** The day on which weeks start, for WEEKLY rules and BYWEEKNO. Defaults to Monday. */
+    readonly weekStart?: Weekday;
+}
+
+/** The parts of a rule that take lists of numbers. */
+type NumericListKey = "bySecond"|"byMinute"|"byHour"|"byMonthDay"|"byYearDay"|"byWeekNo"|"byMonth"|"bySetPos";
+
+/** The numeric parts of a rule that take lists, with their names in RFC 5545 and the range of valid values. */
+type NumericListPart = {
+    key: NumericListKey,
+    name: string,
+    min: number,
+    max: number,
+    signed: boolean,
+};
+
+/**
+ * A recurrence rule (RRULE) as described in RFC 5545.
+ *
+ * Occurrences are computed on the local calendar of the TimeZone of the start of the series, so a daily event at 09:00
+ * stays at 09:00 across daylight saving changes. Local times that are skipped by a daylight saving change are moved
+ * forward by the length of the gap, and local times that occur twice resolve to the first, as RFC 5545 requires. Dates
+ * that don't exist (e.g. 30th February) are skipped. The start is always the first occurrence, and counts towards the
+ * COUNT, even if it doesn't match the rule.
+ *
+ * Occurrences are produced lazily, so rules without a COUNT or UNTIL can be iterated; expansion stops at the end of the
+ * year 9999, or once a 400-year cycle of the calendar passes without a match, since the rule can then never match again.
+ * Instances are immutable.
+ */
+export class RecurrenceRule
+{
+    /** The year after which no occurrences are produced. */
+    private static readonly MaxYear = 9999;
+
+    /** The RFC 5545 frequency names, indexed by RecurrenceFrequency. */
+    private static readonly FrequencyNames = ["YEARLY", "MONTHLY", "WEEKLY", "DAILY", "HOURLY", "MINUTELY", "SECONDLY"];
+
+    /** The RFC 5545 weekday codes, indexed by Weekday. */
+    private static readonly WeekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+    /** The numeric list parts, in the order in which they are written. */
+    private static readonly NumericListParts: NumericListPart[] = [
+        {key: "byMonth", name: "BYMONTH", min: 1, max: 12, signed: false},
+        {key: "byWeekNo", name: "BYWEEKNO", min: 1, max: 53, signed: true},
+        {key: "byYearDay", name: "BYYEARDAY", min: 1, max: 366, signed: true},
+        {key: "byMonthDay", name: "BYMONTHDAY", min: 1, max: 31, signed: true},
+        {key: "byHour", name: "BYHOUR", min: 0, max: 23, signed: false},
+        {key: "byMinute", name: "BYMINUTE", min: 0, max: 59, signed: false},
+        {key: "bySecond", name: "BYSECOND", min: 0, max: 60, signed: false},
+        {key: "bySetPos", name: "BYSETPOS", min: 1, max: 366, signed: true},
+    ];
+
+    /** The number of ms in a day. */
+    private static readonly DayMs = 24 * 60 * 60 * 1000;
+
+    /**
+     * The number of periods of each frequency in 400 Gregorian years, after which the calendar repeats. The candidates
+     * in a period repeat at most this many periods later, so a rule with no candidates for this many consecutive periods
+     * has no more occurrences.
+     */
+    private static readonly CyclePeriods = [400, 4800, 20871, 146097, 146097 * 24, 146097 * 24 * 60, 146097 * 24 * 60 * 60];
+
+    /** The first occurrence of the series, which also determines its TimeZone and default parts. */
+    private readonly m_start: DateTime;
+
+    /** The wall-clock date and time of the start, which provides the default parts of the rule. */
+    private readonly m_wallClock: DateTime;
+
+    /** The parts of the rule. */
+    private readonly m_options: RecurrenceRuleOptions;
+
+    /**
+     * Initialise a new RecurrenceRule.
+     *
+     * @param start The start of the series (DTSTART). Its TimeZone is the TimeZone in which occurrences are computed, and
+     * it provides the month, day and time of occurrences for parts of the rule that are not given.
+     * @param options The parts of the rule.
+     * @param wallClock The wall-clock date and time of the start, as a DateTime in any TimeZone, if it differs from that
+     * of the start - i.e. the start was given at a local time skipped by a daylight saving change. Only the start itself is
+     * moved by the gap: the month, day and time of the other occurrences come from the wall-clock time.
+     *
+     * @throws RecurrenceRuleError if the parts of the rule are not valid.
+     */
+    public constructor(start: DateTime, options: RecurrenceRuleOptions, wallClock: DateTime = undefined)
+    {
+        RecurrenceRule.validate(options);
+        this.m_start = start;
+        this.m_wallClock = wallClock ?? start;
+        this.m_options = {...options};
+    }
+
+    /** The start of the series. */
+    public get start(): DateTime
+    {
+        return this.m_start;
+    }
+
+    /** The parts of the rule. */
+    public get options(): RecurrenceRuleOptions
+    {
+        return {...this.m_options};
+    }
+
+    /** Helper to validate the parts of a rule. */
+    private static validate(options: RecurrenceRuleOptions): void
+    {
+        if (undefined === RecurrenceRule.FrequencyNames[options.frequency]) {
+            throw new RecurrenceRuleError(`Invalid frequency ${options.frequency}.`);
+        }
+
+        if (undefined !== options.interval && (!Number.isInteger(options.interval) || 1 > options.interval)) {
+            throw new RecurrenceRuleError(`Expected positive integer interval, found ${options.interval}.`);
+        }
+
+        if (undefined !== options.count && (!Number.isInteger(options.count) || 1 > options.count)) {
+            throw new RecurrenceRuleError(`Expected positive integer count, found ${options.count}.`);
+        }
+
+        if (undefined !== options.count && undefined !== options.until) {
+            throw new RecurrenceRuleError("Expected at most one of count and until.");
+        }
+
+        for (const part of RecurrenceRule.NumericListParts) {
+            for (const value of options[part.key] ?? []) {
+                const magnitude = (part.signed ? Math.abs(value) : value);
+
+                if (!Number.isInteger(value) || magnitude < part.min || magnitude > part.max) {
+                    throw new RecurrenceRuleError(`Invalid ${part.name} value ${value}.`);
+                }
+            }
+        }
+
+        for (const day of options.byDay ?? []) {
+            if (undefined === RecurrenceRule.WeekdayCodes[day.weekday]) {
+                throw new RecurrenceRuleError(`Invalid BYDAY weekday ${day.weekday}.`);
+            }
+
+            if (undefined !== day.ordinal && (!Number.isInteger(day.ordinal) || 1 > Math.abs(day.ordinal) || 53 < Math.abs(day.ordinal))) {
+                throw new RecurrenceRuleError(`Invalid BYDAY ordinal ${day.ordinal}.`);
+            }
+
+            if (undefined !== day.ordinal && RecurrenceFrequency.Monthly < options.frequency) {
+                throw new RecurrenceRuleError("BYDAY ordinals are only valid in MONTHLY and YEARLY rules.");
+            }
+
+            if (undefined !== day.ordinal && undefined !== options.byWeekNo) {
+                throw new RecurrenceRuleError("BYDAY ordinals are not valid in rules with BYWEEKNO.");
+            }
+        }
+
+        if (undefined !== options.weekStart && undefined === RecurrenceRule.WeekdayCodes[options.weekStart]) {
+            throw new RecurrenceRuleError(`Invalid WKST ${options.weekStart}.`);
+        }
+
+        if (undefined !== options.byWeekNo && RecurrenceFrequency.Yearly !== options.frequency) {
+            throw new RecurrenceRuleError("BYWEEKNO is only valid in YEARLY rules.");
+        }
+
+        if (undefined !== options.byYearDay && RecurrenceFrequency.Monthly <= options.frequency && RecurrenceFrequency.Daily >= options.frequency) {
+            throw new RecurrenceRuleError("BYYEARDAY is not valid in MONTHLY, WEEKLY or DAILY rules.");
+        }
+
+        if (undefined !== options.byMonthDay && RecurrenceFrequency.Weekly === options.frequency) {
+            throw new RecurrenceRuleError("BYMONTHDAY is not valid in WEEKLY rules.");
+        }
+    }
+
+    /**
+     * Parse a recurrence rule from its RFC 5545 representation.
+     *
+     * The rule may be prefixed with "RRULE:". A date-only UNTIL includes the whole of that day in the start's TimeZone,
+     * and an UNTIL without a "Z" suffix is in the start's TimeZone.
+     *
+     * @param rule The rule, e.g. "FREQ=MONTHLY;BYDAY=-1FR;COUNT=6".
+     * @param start The start of the series (DTSTART).
+     * @param wallClock The wall-clock date and time of the start, if it differs from that of the start. See the
+     * constructor.
+     *
+     * @return The RecurrenceRule.
+     * @throws RecurrenceRuleError if the rule is not valid.
+     */
+    public static parse(rule: string, start: DateTime, wallClock: DateTime = undefined): RecurrenceRule
+    {
+        if ("RRULE:" === rule.substring(0, 6).toUpperCase()) {
+            rule = rule.substring(6);
+        }
+
+        const options: {-readonly [key in keyof RecurrenceRuleOptions]?: RecurrenceRuleOptions[key]} = {};
+        const seen: string[] = [];
+
+        for (const part of rule.trim().split(";")) {
+            const separator = part.indexOf("=");
+
+            if (0 >= separator) {
+                throw new RecurrenceRuleError(`Expected NAME=VALUE recurrence rule part, found "${part}".`);
+            }
+
+            const name = part.substring(0, separator).toUpperCase();
+            const value = part.substring(separator + 1).toUpperCase();
+
+            if (0 <= seen.indexOf(name)) {
+                throw new RecurrenceRuleError(`Recurrence rule part ${name} appears more than once.`);
+            }
+
+            seen.push(name);
+            const listPart = RecurrenceRule.NumericListParts.filter((listPart) => name === listPart.name)[0];
+
+            if (undefined !== listPart) {
+                options[listPart.key] = value.split(",").map((item) => RecurrenceRule.parseInteger(item, name));
+                continue;
+            }
+
+            switch (name) {
+                case "FREQ":
+                    options.frequency = RecurrenceRule.FrequencyNames.indexOf(value);
+
+                    if (0 > options.frequency) {
+                        throw new RecurrenceRuleError(`Invalid FREQ ${value}.`);
+                    }
+                    break;
+
+                case "INTERVAL":
+                    options.interval = RecurrenceRule.parseInteger(value, name);
+                    break;
+
+                case "COUNT":
+                    options.count = RecurrenceRule.parseInteger(value, name);
+                    break;
+
+                case "UNTIL":
+                    options.until = RecurrenceRule.parseUntil(value, start.timeZone);
+                    break;
+
+                case "BYDAY":
+                    options.byDay = value.split(",").map((item) => RecurrenceRule.parseWeekday(item));
+                    break;
+
+                case "WKST":
+                    options.weekStart = RecurrenceRule.WeekdayCodes.indexOf(value);
+
+                    if (0 > options.weekStart) {
+                        throw new RecurrenceRuleError(`Invalid WKST ${value}.`);
+                    }
+                    break;
+
+                default:
+                    throw new RecurrenceRuleError(`Unrecognised recurrence rule part ${name}.`);
+            }
+        }
+
+        if (undefined === options.frequency) {
+            throw new RecurrenceRuleError("Expected FREQ in recurrence rule.");
+        }
+
+        return new RecurrenceRule(start, {...options, frequency: options.frequency}, wallClock);
+    }
+
+    /** Helper to parse an integer rule value. */
+    private static parseInteger(value: string, name: string): number
+    {
+        if (!/^[+-]?\d+$/.test(value)) {
+            throw new RecurrenceRuleError(`Expected integer ${name} value, found "${value}".`);
+        }
+
+        return Number.parseInt(value);
+    }
+
+    /** Helper to parse a BYDAY value, e.g. "-1FR". */
+    private static parseWeekday(value: string): RecurrenceWeekday
+    {
+        const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(value);
+        const weekday = (match ? RecurrenceRule.WeekdayCodes.indexOf(match[2]) : -1);
+
+        if (0 > weekday) {
+            throw new RecurrenceRuleError(`Invalid BYDAY value "${value}".`);
+        }
+
+        return (undefined === match[1] ? {weekday: weekday} : {weekday: weekday, ordinal: Number.parseInt(match[1])});
+    }
+
+    /** Helper to parse an UNTIL value, either a DATE or a DATE-TIME. */
+    private static parseUntil(value: string, timeZone: TimeZone): DateTime
+    {
+        const date = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+
+        try {
+            if (date) {
+                return DateTime.fromDateTime(Number.parseInt(date[1]), Number.parseInt(date[2]), Number.parseInt(date[3]), 23, 59, 59, 999, timeZone);
+            }
+
+            if (/^\d{8}T\d{6}Z?$/.test(value)) {
+                return DateTime.parse(value, timeZone);
+            }
+        } catch (err) {
+            throw new RecurrenceRuleError(`Invalid UNTIL "${value}": ${err.message}`);
+        }
+
+        throw new RecurrenceRuleError(`Expected DATE or DATE-TIME UNTIL, found "${value}".`);
+    }
+
+    /**
+     * Fetch the RFC 5545 representation of the rule.
+     *
+     * UNTIL is always written in UTC. The "RRULE:" prefix is not included.
+     */
+    public toString(): string
+    {
+        const options = this.m_options;
+        const parts = [`FREQ=${RecurrenceRule.FrequencyNames[options.frequency]}`];
+
+        if (undefined !== options.interval) {
+            parts.push(`INTERVAL=${options.interval}`);
+        }
+
+        if (undefined !== options.count) {
+            parts.push(`COUNT=${options.count}`);
+        }
+
+        if (undefined !== options.until) {
+            parts.push(`UNTIL=${(new DateTimeFormatter("{Y}{M}{D}T{h}{m}{s}Z")).format(options.until.withTimeZone(TimeZone.utc))}`);
+        }
+
+        for (const part of RecurrenceRule.NumericListParts) {
+            if ("bySetPos" !== part.key && undefined !== options[part.key]) {
+                parts.push(`${part.name}=${options[part.key].join(",")}`);
+            }
+        }
+
+        if (undefined !== options.byDay) {
+            parts.push(`BYDAY=${options.byDay.map((day) => `${day.ordinal ?? ""}${RecurrenceRule.WeekdayCodes[day.weekday]}`).join(",")}`);
+        }
+
+        if (undefined !== options.bySetPos) {
+            parts.push(`BYSETPOS=${options.bySetPos.join(",")}`);
+        }
+
+        if (undefined !== options.weekStart) {
+            parts.push(`WKST=${RecurrenceRule.WeekdayCodes[options.weekStart]}`);
+        }
+
+        return parts.join(";");
+    }
+
+    /** Iterate over the occurrences of the rule. */
+    public [Symbol.iterator](): IterableIterator<DateTime>
+    {
+        return this.occurrences();
+    }
+
+    /**
+     * Iterate over the occurrences of the rule, in order.
+     *
+     * The occurrences are computed lazily, so this can be used with rules that have no end.
+     */
+    public *occurrences(): IterableIterator<DateTime>
+    {
+        const start = this.start;
+        const wallClock = this.m_wallClock;
+        const options = this.m_options;
+        const frequency = options.frequency;
+        const interval = options.interval ?? 1;
+        const weekStart = options.weekStart ?? Weekday.Monday;
+        let byMonth = options.byMonth;
+        let byMonthDay = options.byMonthDay;
+        let byDay = options.byDay;
+
+        // without any day parts, the day of the start determines the day of each occurrence
+        if (undefined === options.byWeekNo && undefined === options.byYearDay && undefined === byMonthDay && undefined === byDay) {
+            switch (frequency) {
+                case RecurrenceFrequency.Yearly:
+                    byMonth = byMonth ?? [wallClock.month];
+                    byMonthDay = [wallClock.day];
+                    break;
+
+                case RecurrenceFrequency.Monthly:
+                    byMonthDay = [wallClock.day];
+                    break;
+
+                case RecurrenceFrequency.Weekly:
+                    byDay = [{weekday: wallClock.weekday}];
+                    break;
+            }
+        }
+
+        const filter: RecurrenceRuleOptions = {...options, byMonth: byMonth, byMonthDay: byMonthDay, byDay: byDay};
+        const startDay = RecurrenceRule.dayNumber(wallClock.year, wallClock.month, wallClock.day);
+        const startLocal = (startDay * RecurrenceRule.DayMs) + (((wallClock.hour * 60) + wallClock.minute) * 60 + wallClock.second) * 1000 + wallClock.ms;
+        const step = [0, 0, 0, 0, 60 * 60 * 1000, 60 * 1000, 1000][frequency];
+        const base = (0 < step ? Math.floor(startLocal / step) * step : 0);
+        let count = 1;
+        let last = start.timestamp;
+
+        // the start is the first occurrence whether or not it matches the rule
+        yield start;
+
+        if (count === options.count) {
+            return;
+        }
+
+        let lastCandidatePeriod = 0;
+
+        for (let period = 0; ; ++period) {
+            // the candidates repeat with the calendar, so a rule that has none for a whole cycle can never match again
+            if (period - lastCandidatePeriod > RecurrenceRule.CyclePeriods[frequency]) {
+                return;
+            }
+
+            let days: number[];
+            let times: number[];
+
+            switch (frequency) {
+                case RecurrenceFrequency.Yearly: {
+                    const year = wallClock.year + (period * interval);
+                    days = RecurrenceRule.dayRange(RecurrenceRule.dayNumber(year, 1, 1), RecurrenceRule.dayNumber(year + 1, 1, 1));
+                    break;
+                }
+
+                case RecurrenceFrequency.Monthly: {
+                    const month = (wallClock.year * 12) + wallClock.month - 1 + (period * interval);
+                    days = RecurrenceRule.dayRange(RecurrenceRule.dayNumber(Math.floor(month / 12), (month % 12) + 1, 1), RecurrenceRule.dayNumber(Math.floor((month + 1) / 12), ((month + 1) % 12) + 1, 1));
+                    break;
+                }
+
+                case RecurrenceFrequency.Weekly: {
+                    const first = startDay - ((wallClock.weekday - weekStart + 7) % 7) + (period * interval * 7);
+                    days = RecurrenceRule.dayRange(first, first + 7);
+                    break;
+                }
+
+                case RecurrenceFrequency.Daily:
+                    days = [startDay + (period * interval)];
+                    break;
+
+                default: {
+                    const local = base + (period * interval * step);
+                    const day = Math.floor(local / RecurrenceRule.DayMs);
+                    const fields = new Date(local);
+                    let skipTo: number = undefined;
+
+                    // skip directly to the next day, hour or minute that could match
+                    if (!RecurrenceRule.matchesDay(day, filter, weekStart)) {
+                        skipTo = (day + 1) * RecurrenceRule.DayMs;
+                    } else if (!RecurrenceRule.matches(options.byHour, fields.getUTCHours())) {
+                        skipTo = (Math.floor(local / (60 * 60 * 1000)) + 1) * 60 * 60 * 1000;
+                    } else if (RecurrenceFrequency.Secondly === frequency && !RecurrenceRule.matches(options.byMinute, fields.getUTCMinutes())) {
+                        skipTo = (Math.floor(local / (60 * 1000)) + 1) * 60 * 1000;
+                    }
+
+                    if (undefined !== skipTo) {
+                        if (RecurrenceRule.MaxYear < fields.getUTCFullYear()) {
+                            return;
+                        }
+
+                        period = Math.max(period, Math.ceil((skipTo - base) / (interval * step)) - 1);
+                        continue;
+                    }
+
+                    days = [day];
+                    break;
+                }
+            }
+
+            if (RecurrenceRule.MaxYear < (new Date(days[0] * RecurrenceRule.DayMs)).getUTCFullYear()) {
+                return;
+            }
+
+            times = this.times(period, base, interval, step);
+            const candidates: number[] = [];
+
+            for (const day of days) {
+                if (RecurrenceRule.matchesDay(day, filter, weekStart)) {
+                    for (const time of times) {
+                        candidates.push((day * RecurrenceRule.DayMs) + time);
+                    }
+                }
+            }
+
+            const selected = RecurrenceRule.selectPositions(candidates, options.bySetPos);
+
+            if (0 < selected.length) {
+                lastCandidatePeriod = period;
+            }
+
+            for (const local of selected) {
+                const occurrence = this.resolve(local);
+
+                // local times moved forward out of a daylight saving gap can coincide with, or pass, later ones
+                if (occurrence.timestamp <= last) {
+                    continue;
+                }
+
+                if (undefined !== options.until && occurrence.timestamp > options.until.timestamp) {
+                    return;
+                }
+
+                last = occurrence.timestamp;
+                yield occurrence;
+                ++count;
+
+                if (count === options.count) {
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Fetch the occurrences in a span of time.
+     *
+     * @param start The start of the span (inclusive).
+     * @param end The end of the span (exclusive).
+     *
+     * @return The occurrences, in order.
+     */
+    public between(start: DateTime, end: DateTime): DateTime[]
+    {
+        const occurrences: DateTime[] = [];
+
+        for (const occurrence of this.occurrences()) {
+            if (occurrence.timestamp >= end.timestamp) {
+                break;
+            }
+
+            if (occurrence.timestamp >= start.timestamp) {
+                occurrences.push(occurrence);
+            }
+        }
+
+        return occurrences;
+    }
+
+    /**
+     * Fetch the first occurrence after a point in time.
+     *
+     * @param dateTime The point in time.
+     * @param inclusive Whether an occurrence at the point in time itself counts. Defaults to false.
+     *
+     * @return The occurrence, or `undefined` if there are no more occurrences.
+     */
+    public after(dateTime: DateTime, inclusive: boolean = false): DateTime|undefined
+    {
+        for (const occurrence of this.occurrences()) {
+            if (occurrence.timestamp > dateTime.timestamp || (inclusive && occurrence.timestamp === dateTime.timestamp)) {
+                return occurrence;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Helper to fetch the times of day of the occurrences in a period, as sorted ms since midnight.
+     *
+     * For frequencies of a day or longer the times are all the combinations of the hour, minute and second parts; for
+     * shorter frequencies the fields the frequency covers are taken from the period itself.
+     */
+    private times(period: number, base: number, interval: number, step: number): number[]
+    {
+        const options = this.m_options;
+        const local = new Date(base + (period * interval * step));
+        let hours = options.byHour ?? [this.m_wallClock.hour];
+        let minutes = options.byMinute ?? [this.m_wallClock.minute];
+        let seconds = options.bySecond ?? [this.m_wallClock.second];
+
+        switch (options.frequency) {
+            case RecurrenceFrequency.Secondly:
+                seconds = (RecurrenceRule.matches(options.bySecond, local.getUTCSeconds()) ? [local.getUTCSeconds()] : []);
+                // fall through
+
+            case RecurrenceFrequency.Minutely:
+                minutes = (RecurrenceRule.matches(options.byMinute, local.getUTCMinutes()) ? [local.getUTCMinutes()] : []);
+                // fall through
+
+            case RecurrenceFrequency.Hourly:
+                hours = (RecurrenceRule.matches(options.byHour, local.getUTCHours()) ? [local.getUTCHours()] : []);
+        }
+
+        const times: number[] = [];
+
+        for (const hour of hours) {
+            for (const minute of minutes) {
+                for (const second of seconds) {
+                    // a leap second in the rule is taken as the last second of the minute, since DateTime has no leap seconds
+                    times.push((((hour * 60) + minute) * 60 + Math.min(second, 59)) * 1000 + this.m_wallClock.ms);
+                }
+            }
+        }
+
+        return times.sort((lhs, rhs) => lhs - rhs);
+    }
+
+    /** Helper to resolve a local time in the series' TimeZone, moving local times in a daylight saving gap forward. */
+    private resolve(local: number): DateTime
+    {
+        const fields = new Date(local);
+        return DateTime.fromDateTime(fields.getUTCFullYear(), fields.getUTCMonth() + 1, fields.getUTCDate(), fields.getUTCHours(), fields.getUTCMinutes(), fields.getUTCSeconds(), fields.getUTCMilliseconds(), this.start.timeZone, Disambiguation.Compatible);
+    }
+
+    /** Helper to determine whether a value is in a list of values, where an absent list matches everything. */
+    private static matches(values: number[]|undefined, value: number): boolean
+    {
+        return undefined === values || 0 <= values.indexOf(value);
+    }
+
+    /** Helper to determine whether a day matches the day parts of a rule. */
+    private static matchesDay(day: number, options: RecurrenceRuleOptions, weekStart: Weekday): boolean
+    {
+        const date = new Date(day * RecurrenceRule.DayMs);
+        const year = date.getUTCFullYear();
+        const month = date.getUTCMonth() + 1;
+        const monthDay = date.getUTCDate();
+        const weekday: Weekday = date.getUTCDay();
+        const yearDay = day - RecurrenceRule.dayNumber(year, 1, 1) + 1;
+        const yearLength = RecurrenceRule.dayNumber(year + 1, 1, 1) - RecurrenceRule.dayNumber(year, 1, 1);
+        const monthLength = RecurrenceRule.dayNumber(month === 12 ? year + 1 : year, (month % 12) + 1, 1) - (day - monthDay + 1);
+
+        if (!RecurrenceRule.matches(options.byMonth, month)) {
+            return false;
+        }
+
+        if (undefined !== options.byWeekNo && !RecurrenceRule.matchesWeekNo(day, year, options.byWeekNo, weekStart)) {
+            return false;
+        }
+
+        if (undefined !== options.byYearDay && !RecurrenceRule.matchesSigned(options.byYearDay, yearDay, yearLength)) {
+            return false;
+        }
+
+        if (undefined !== options.byMonthDay && !RecurrenceRule.matchesSigned(options.byMonthDay, monthDay, monthLength)) {
+            return false;
+        }
+
+        if (undefined !== options.byDay) {
+            // ordinals count within the month for MONTHLY rules and YEARLY rules with BYMONTH, otherwise within the
+            // year; they have no meaning for shorter frequencies
+            const inMonth = RecurrenceFrequency.Monthly === options.frequency || undefined !== options.byMonth;
+            const useOrdinals = RecurrenceFrequency.Monthly >= options.frequency && undefined === options.byWeekNo;
+            const position = (inMonth ? monthDay : yearDay);
+            const length = (inMonth ? monthLength : yearLength);
+
+            return options.byDay.some((entry) => weekday === entry.weekday && (
+                !useOrdinals
+                || undefined === entry.ordinal
+                || entry.ordinal === Math.floor((position - 1) / 7) + 1
+                || entry.ordinal === -(Math.floor((length - position) / 7) + 1)
+            ));
+        }
+
+        return true;
+    }
+
+    /** Helper to determine whether a position in a period matches a list of values counting from the start or end. */
+    private static matchesSigned(values: number[], position: number, length: number): boolean
+    {
+        return 0 <= values.indexOf(position) || 0 <= values.indexOf(position - length - 1);
+    }
+
+    /**
+     * Helper to determine whether a day is in one of a list of week numbers.
+     *
+     * Week 1 is the first week with at least four days in the year, so the first and last few days of a year can be in a
+     * week of the adjacent year.
+     */
+    private static matchesWeekNo(day: number, year: number, weekNos: number[], weekStart: Weekday): boolean
+    {
+        let first = RecurrenceRule.weekOneStart(year, weekStart);
+        let next = RecurrenceRule.weekOneStart(year + 1, weekStart);
+
+        if (day < first) {
+            next = first;
+            first = RecurrenceRule.weekOneStart(year - 1, weekStart);
+        } else if (day >= next) {
+            first = next;
+            next = RecurrenceRule.weekOneStart(year + 2, weekStart);
+        }
+
+        return RecurrenceRule.matchesSigned(weekNos, Math.floor((day - first) / 7) + 1, (next - first) / 7);
+    }
+
+    /** Helper to fetch the day number of the first day of week 1 of a year. */
+    private static weekOneStart(year: number, weekStart: Weekday): number
+    {
+        const first = RecurrenceRule.dayNumber(year, 1, 1);
+        const offset = ((new Date(first * RecurrenceRule.DayMs)).getUTCDay() - weekStart + 7) % 7;
+        return (4 > offset ? first - offset : first + 7 - offset);
+    }
+
+    /** Helper to select the candidates at the given positions in a sorted list, counting from the end if negative. */
+    private static selectPositions(candidates: number[], positions: number[]|undefined): number[]
+    {
+        if (undefined === positions) {
+            return candidates;
+        }
+
+        const selected: number[] = [];
+
+        for (const position of positions) {
+            const candidate = candidates[0 < position ? position - 1 : candidates.length + position];
+
+            if (undefined !== candidate && 0 > selected.indexOf(candidate)) {
+                selected.push(candidate);
+            }
+        }
+
+        return selected.sort((lhs, rhs) => lhs - rhs);
+    }
+
+    /** Helper to fetch the number of days since 1970-01-01 of a date. */
+    private static dayNumber(year: number, month: number, day: number): number
+    {
+        return Math.round(DateTime.utcDate(year, month, day).getTime() / RecurrenceRule.DayMs);
+    }
+
+    /** Helper to list the day numbers from a first day (inclusive) to a last day (exclusive). */
+    private static dayRange(first: number, end: number): number[]
+    {
+        const days: number[] = [];
+
+        for (let day = first; day < end; ++day) {
+            days.push(day);
+        }
+
+        return days;
+    }
+}
@@ -0,0 +1,3 @@
+/** Custom Error class thrown by RecurrenceRule instances. */
+export class RecurrenceRuleError extends Error
+{}
@@ -0,0 +1,145 @@
+import {DateTime} from "./DateTime.js";
+import {RecurrenceRule} from "./RecurrenceRule.js";
+
+/**
+ * A set of recurrences, combining recurrence rules (RRULE) with individual dates (RDATE) and exclusions (EXDATE), as
+ * described in RFC 5545.
+ *
+ * The occurrences of the set are the occurrences of all of its rules and its individual dates, in order and without
+ * duplicates, less any that are at the same point in time as an exclusion. Instances are immutable.
+ */
+export class RecurrenceSet
+{
+    /** The recurrence rules. */
+    private readonly m_rules: RecurrenceRule[];
+
+    /** The individual dates, in order. */
+    private readonly m_dates: DateTime[];
+
+    /** The points in time that are excluded. */
+    private readonly m_exclusions: DateTime[];
+
+    /**
+     * Initialise a new RecurrenceSet.
+     *
+     * @param rules The recurrence rules (RRULE).
+     * @param dates The individual dates (RDATE).
+     * @param exclusions The points in time to exclude (EXDATE).
+     */
+    public constructor(rules: RecurrenceRule[] = [], dates: DateTime[] = [], exclusions: DateTime[] = [])
+    {
+        this.m_rules = [...rules];
+        this.m_dates = [...dates].sort((lhs, rhs) => lhs.timestamp - rhs.timestamp);
+        this.m_exclusions = [...exclusions];
+    }
+
+    /** The recurrence rules. */
+    public get rules(): RecurrenceRule[]
+    {
+        return [...this.m_rules];
+    }
+
+    /** The individual dates, in order. */
+    public get dates(): DateTime[]
+    {
+        return [...this.m_dates];
+    }
+
+    /** The points in time that are excluded. */
+    public get exclusions(): DateTime[]
+    {
+        return [...this.m_exclusions];
+    }
+
+    /** Iterate over the occurrences of the set. */
+    public [Symbol.iterator](): IterableIterator<DateTime>
+    {
+        return this.occurrences();
+    }
+
+    /**
+     * Iterate over the occurrences of the set, in order.
+     *
+     * The occurrences of the rules are computed lazily, so this can be used with rules that have no end.
+     */
+    public *occurrences(): IterableIterator<DateTime>
+    {
+        const excluded = this.m_exclusions.map((exclusion) => exclusion.timestamp);
+        const sources: Iterator<DateTime>[] = [...this.m_rules.map((rule) => rule.occurrences()), this.m_dates[Symbol.iterator]()];
+        const heads: DateTime[] = sources.map((source) => RecurrenceSet.next(source));
+        let last = Number.NEGATIVE_INFINITY;
+
+        while (true) {
+            let earliest = -1;
+
+            for (let idx = 0; idx < heads.length; ++idx) {
+                if (undefined !== heads[idx] && (0 > earliest || heads[idx].timestamp < heads[earliest].timestamp)) {
+                    earliest = idx;
+                }
+            }
+
+            if (0 > earliest) {
+                return;
+            }
+
+            const occurrence = heads[earliest];
+            heads[earliest] = RecurrenceSet.next(sources[earliest]);
+
+            if (occurrence.timestamp !== last && 0 > excluded.indexOf(occurrence.timestamp)) {
+                last = occurrence.timestamp;
+                yield occurrence;
+            }
+        }
+    }
+
+    /**
+     * Fetch the occurrences in a span of time.
+     *
+     * @param start The start of the span (inclusive).
+     * @param end The end of the span (exclusive).
+     *
+     * @return The occurrences, in order.
+     */
+    public between(start: DateTime, end: DateTime): DateTime[]
+    {
+        const occurrences: DateTime[] = [];
+
+        for (const occurrence of this.occurrences()) {
+            if (occurrence.timestamp >= end.timestamp) {
+                break;
+            }
+
+            if (occurrence.timestamp >= start.timestamp) {
+                occurrences.push(occurrence);
+            }
+        }
+
+        return occurrences;
+    }
+
+    /**
+     * Fetch the first occurrence after a point in time.
+     *
+     * @param dateTime The point in time.
+     * @param inclusive Whether an occurrence at the point in time itself counts. Defaults to false.
+     *
+     * @return The occurrence, or `undefined` if there are no more occurrences.
+     */
+    public after(dateTime: DateTime, inclusive: boolean = false): DateTime|undefined
+    {
+        for (const occurrence of this.occurrences()) {
+            if (occurrence.timestamp > dateTime.timestamp || (inclusive && occurrence.timestamp === dateTime.timestamp)) {
+                return occurrence;
+            }
+        }
+
+        return undefined;
+    }
+
+    /** Helper to fetch the next value from an iterator, or `undefined` if it is done. */
+    private static next(source: Iterator<DateTime>): DateTime|undefined
+    {
+        const result = source.next();
+        return (result.done ? undefined : result.value);
+    }
+}
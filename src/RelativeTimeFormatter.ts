@@ -0,0 +1,296 @@
+import {DateTime, DateTimeUnit} from "./DateTime.js";
+import {DateTimeFormatter} from "./DateTimeFormatter.js";
+import {DateTimeLocale, DateTimeLocaleRelativeTime, DateTimeLocaleRelativeUnits} from "./DateTimeLocale.js";
+import {RelativeTimeFormatterError} from "./RelativeTimeFormatterError.js";
+
+/** The styles of wording of relative times. */
+export enum RelativeTimeStyle
+{
+    /** The full wording, e.g. "in 3 hours". */
+    Long = 0,
+    /** The abbreviated wording, e.g. "in 3 hr.". */
+    Short,
+    /** The narrowest wording, e.g. "in 3h". */
+    Narrow,
+}
+
+/**
+ * The thresholds at which a RelativeTimeFormatter switches to the next larger unit.
+ *
+ * Each threshold is the amount of its unit at which the next larger unit is used instead - for example, with an hour
+ * threshold of 22, 21 hours is formatted as "in 21 hours" but 22 hours as "tomorrow". A threshold of 0 skips the unit.
+ */
+export interface RelativeTimeThresholds
+{
+    readonly second?: number;
+    readonly minute?: number;
+    readonly hour?: number;
+    readonly day?: number;
+    readonly week?: number;
+    readonly month?: number;
+}
+
+/** Options for RelativeTimeFormatter instances. */
+export interface RelativeTimeFormatterOptions
+{
+    /** The locale, or the code of a locale registered with DateTimeFormatter. Defaults to English. */
+    readonly locale?: DateTimeLocale|string;
+    /** The style of wording. Defaults to Long. */
+    readonly style?: RelativeTimeStyle;
+    /** Whether always to use numeric wording (e.g. "in 1 day") rather than idioms (e.g. "tomorrow"). Defaults to false. */
+    readonly numeric?: boolean;
+    /** The thresholds at which to switch units. Thresholds not given take their default. */
+    readonly thresholds?: RelativeTimeThresholds;
+}
+
+/**
+ * Format DateTimes as times relative to a reference DateTime, e.g. "3 hours ago" or "in 2 days".
+ *
+ * The unit is chosen by comparing the distance between the DateTimes to the formatter's thresholds, starting with
+ * seconds. Seconds, minutes and hours are measured in elapsed time; days, weeks, months and years are measured on the
+ * local calendar of the reference DateTime's TimeZone, so that "tomorrow" is the next local day regardless of the time
+ * of day. The wording is provided by the relative time data of the formatter's locale. Instances are reusable, and the
+ * locale, style, numeric wording and thresholds can be changed at any time.
+ */
+export class RelativeTimeFormatter
+{
+    /** The default thresholds for switching units. */
+    private static readonly DefaultThresholds: Required<RelativeTimeThresholds> = {
+        second: 45,
+        minute: 45,
+        hour: 22,
+        day: 7,
+        week: 4,
+        month: 11,
+    };
+
+    /** The keys of the locale data for each unit, indexed by DateTimeUnit. */
+    private static readonly UnitKeys: (keyof DateTimeLocaleRelativeUnits)[] = ["year", "month", "week", "day", "hour", "minute", "second"];
+
+    /** The relative time data of the formatter's locale. */
+    private m_relativeTime: DateTimeLocaleRelativeTime;
+
+    /** The locale that the formatter will use. */
+    private m_locale: DateTimeLocale;
+
+    /** The style of wording that the formatter will use. */
+    private m_style: RelativeTimeStyle;
+
+    /** Whether the formatter always uses numeric wording. */
+    private m_numeric: boolean;
+
+    /** The thresholds for switching units. */
+    private m_thresholds: Required<RelativeTimeThresholds>;
+
+    /**
+     * Initialise a new formatter.
+     *
+     * @param options The locale, style, numeric wording and thresholds to use.
+     *
+     * @throws RelativeTimeFormatterError if the locale is not registered or has no relative time data.
+     */
+    public constructor(options: RelativeTimeFormatterOptions = {})
+    {
+        this.locale = options.locale ?? "en";
+        this.m_style = options.style ?? RelativeTimeStyle.Long;
+        this.m_numeric = options.numeric ?? false;
+        this.thresholds = options.thresholds ?? {};
+    }
+
+    /** The locale the formatter uses. */
+    public get locale(): DateTimeLocale
+    {
+        return this.m_locale;
+    }
+
+    /**
+     * Set the locale the formatter uses.
+     *
+     * @throws RelativeTimeFormatterError if the locale is not registered or has no relative time data.
+     */
+    public set locale(locale: DateTimeLocale|string)
+    {
+        if ("string" === typeof locale) {
+            const code = locale;
+            locale = DateTimeFormatter.findLocale(code);
+
+            if (undefined === locale) {
+                throw new RelativeTimeFormatterError(`Locale ${code} is not registered.`);
+            }
+        }
+
+        if (undefined === locale.relativeTime) {
+            throw new RelativeTimeFormatterError(`Locale ${locale.code} has no relative time data.`);
+        }
+
+        this.m_locale = locale;
+        this.m_relativeTime = locale.relativeTime;
+    }
+
+    /** The style of wording the formatter uses. */
+    public get style(): RelativeTimeStyle
+    {
+        return this.m_style;
+    }
+
+    /** Set the style of wording the formatter uses. */
+    public set style(style: RelativeTimeStyle)
+    {
+        this.m_style = style;
+    }
+
+    /** Whether the formatter always uses numeric wording rather than idioms such as "tomorrow". */
+    public get numeric(): boolean
+    {
+        return this.m_numeric;
+    }
+
+    /** Set whether the formatter always uses numeric wording. */
+    public set numeric(numeric: boolean)
+    {
+        this.m_numeric = numeric;
+    }
+
+    /** The thresholds for switching units. */
+    public get thresholds(): Required<RelativeTimeThresholds>
+    {
+        return {...this.m_thresholds};
+    }
+
+    /**
+     * Set the thresholds for switching units.
+     *
+     * Thresholds not given take their default.
+     */
+    public set thresholds(thresholds: RelativeTimeThresholds)
+    {
+        this.m_thresholds = {...RelativeTimeFormatter.DefaultThresholds, ...thresholds};
+    }
+
+    /**
+     * Format a DateTime relative to a reference DateTime.
+     *
+     * @param dateTime The DateTime to format.
+     * @param reference The DateTime to format relative to. Defaults to the current time, in the DateTime's TimeZone.
+     * @param unit The unit to use. Defaults to the unit chosen by the formatter's thresholds.
+     *
+     * @return The formatted relative time.
+     * @throws RelativeTimeFormatterError if the unit is Millisecond.
+     */
+    public format(dateTime: DateTime, reference: DateTime = undefined, unit: DateTimeUnit = undefined): string
+    {
+        reference = reference ?? DateTime.now(dateTime.timeZone);
+
+        if (undefined !== unit) {
+            return this.formatAmount(RelativeTimeFormatter.amount(dateTime, reference, unit), unit);
+        }
+
+        const units = [DateTimeUnit.Second, DateTimeUnit.Minute, DateTimeUnit.Hour, DateTimeUnit.Day, DateTimeUnit.Week, DateTimeUnit.Month, DateTimeUnit.Year];
+        unit = units[0];
+        let amount = RelativeTimeFormatter.amount(dateTime, reference, unit);
+
+        for (let idx = 0; idx < units.length - 1; ++idx) {
+            if (Math.abs(amount) < this.m_thresholds[RelativeTimeFormatter.UnitKeys[units[idx]] as keyof RelativeTimeThresholds]) {
+                break;
+            }
+
+            const next = RelativeTimeFormatter.amount(dateTime, reference, units[idx + 1]);
+
+            // e.g. 23 hours from 00:30 is still today, so stay with hours rather than saying "today"
+            if (0 === next) {
+                break;
+            }
+
+            unit = units[idx + 1];
+            amount = next;
+        }
+
+        return this.formatAmount(amount, unit);
+    }
+
+    /**
+     * Format an amount of a unit as a relative time.
+     *
+     * Negative amounts are in the past, others in the future.
+     *
+     * @param amount The amount, e.g. -3 for "3 days ago".
+     * @param unit The unit.
+     *
+     * @return The formatted relative time.
+     * @throws RelativeTimeFormatterError if the unit is Millisecond.
+     */
+    public formatAmount(amount: number, unit: DateTimeUnit): string
+    {
+        const key = RelativeTimeFormatter.UnitKeys[unit];
+
+        if (undefined === key) {
+            throw new RelativeTimeFormatterError(`Expected unit from Year to Second, found ${DateTimeUnit[unit] ?? unit}.`);
+        }
+
+        const wording = this.units[key];
+
+        if (!this.numeric && undefined !== wording.idioms?.[`${amount}`]) {
+            return wording.idioms[`${amount}`];
+        }
+
+        const patterns = (0 > amount ? wording.past : wording.future);
+        const pattern = patterns[this.m_relativeTime.plural(amount)] ?? patterns.other;
+        return pattern.replace("{0}", `${Math.abs(amount)}`);
+    }
+
+    /** Helper to fetch the locale's wording for the formatter's style, falling back to the next wider style. */
+    private get units(): DateTimeLocaleRelativeUnits
+    {
+        switch (this.style) {
+            case RelativeTimeStyle.Narrow:
+                return this.m_relativeTime.narrow ?? this.m_relativeTime.short ?? this.m_relativeTime.long;
+
+            case RelativeTimeStyle.Short:
+                return this.m_relativeTime.short ?? this.m_relativeTime.long;
+        }
+
+        return this.m_relativeTime.long;
+    }
+
+    /**
+     * Helper to measure the distance from a reference DateTime to a DateTime in a unit.
+     *
+     * Elapsed units are rounded to the nearest whole amount. Calendar units are counted on the local calendar of the
+     * reference's TimeZone, ignoring the time of day.
+     */
+    private static amount(dateTime: DateTime, reference: DateTime, unit: DateTimeUnit): number
+    {
+        const local = dateTime.withTimeZone(reference.timeZone);
+
+        switch (unit) {
+            case DateTimeUnit.Year:
+                return local.year - reference.year;
+
+            case DateTimeUnit.Month:
+                return ((local.year - reference.year) * 12) + local.month - reference.month;
+
+            case DateTimeUnit.Week:
+                return RelativeTimeFormatter.round(RelativeTimeFormatter.amount(dateTime, reference, DateTimeUnit.Day) / 7);
+
+            case DateTimeUnit.Day:
+                return local.julianDayNumber - reference.julianDayNumber;
+
+            case DateTimeUnit.Hour:
+                return RelativeTimeFormatter.round((dateTime.timestamp - reference.timestamp) / (60 * 60 * 1000));
+
+            case DateTimeUnit.Minute:
+                return RelativeTimeFormatter.round((dateTime.timestamp - reference.timestamp) / (60 * 1000));
+
+            case DateTimeUnit.Second:
+                return RelativeTimeFormatter.round((dateTime.timestamp - reference.timestamp) / 1000);
+        }
+
+        throw new RelativeTimeFormatterError(`Expected unit from Year to Second, found ${DateTimeUnit[unit] ?? unit}.`);
+    }
+
+    /** Helper to round half away from zero, so that past and future amounts are treated alike. */
+    private static round(value: number): number
+    {
+        return (0 > value ? -Math.round(-value) : Math.round(value)) + 0;
+    }
+}
@@ -0,0 +1,3 @@
+/** Custom Error class thrown by RelativeTimeFormatter instances. */
+export class RelativeTimeFormatterError extends Error
+{}
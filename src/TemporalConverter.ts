@@ -0,0 +1,410 @@
+import {DateTime, Duration} from "./DateTime.js";
+import {LocalDate, LocalDateInterface} from "./LocalDate.js";
+import {LocalDateTime, LocalDateTimeInterface} from "./LocalDateTime.js";
+import {TemporalConverterError} from "./TemporalConverterError.js";
+import {TimeZone} from "./TimeZone.js";
+
+/** The parts of a Temporal.Instant used by TemporalConverter. */
+export interface TemporalInstant
+{
+    readonly epochMilliseconds: number;
+    /** A bigint in Temporal. */
+    readonly epochNanoseconds: unknown;
+
+    toZonedDateTimeISO(timeZone: string): TemporalZonedDateTime;
+}
+
+/** The parts of a Temporal.ZonedDateTime used by TemporalConverter. */
+export interface TemporalZonedDateTime
+{
+    readonly epochMilliseconds: number;
+    /** A bigint in Temporal. */
+    readonly epochNanoseconds: unknown;
+    readonly offsetNanoseconds: number;
+    readonly timeZoneId: string;
+    readonly calendarId: string;
+}
+
+/** The parts of a Temporal.PlainDate used by TemporalConverter. */
+export interface TemporalPlainDate
+{
+    readonly year: number;
+    readonly month: number;
+    readonly day: number;
+    readonly calendarId: string;
+
+    withCalendar(calendar: string): TemporalPlainDate;
+}
+
+/** The parts of a Temporal.PlainDateTime used by TemporalConverter. */
+export interface TemporalPlainDateTime
+{
+    readonly year: number;
+    readonly month: number;
+    readonly day: number;
+    readonly hour: number;
+    readonly minute: number;
+    readonly second: number;
+    readonly millisecond: number;
+    readonly microsecond: number;
+    readonly nanosecond: number;
+    readonly calendarId: string;
+
+    withCalendar(calendar: string): TemporalPlainDateTime;
+}
+
+/** The parts of a Temporal.Duration used by TemporalConverter. */
+export interface TemporalDuration
+{
+    readonly years: number;
+    readonly months: number;
+    readonly weeks: number;
+    readonly days: number;
+    readonly hours: number;
+    readonly minutes: number;
+    readonly seconds: number;
+    readonly milliseconds: number;
+    readonly microseconds: number;
+    readonly nanoseconds: number;
+}
+
+/** The parts of the Temporal namespace used by TemporalConverter. */
+export interface TemporalNamespace
+{
+    readonly Instant: {fromEpochMilliseconds(epochMilliseconds: number): TemporalInstant};
+    readonly PlainDate: {from(fields: object): TemporalPlainDate};
+    readonly PlainDateTime: {from(fields: object): TemporalPlainDateTime};
+    readonly Duration: {from(fields: object): TemporalDuration};
+}
+
+/** Options for TemporalConverter instances. */
+export interface TemporalConverterOptions
+{
+    /** The Temporal namespace to use, e.g. from a polyfill. Defaults to globalThis.Temporal. */
+    readonly temporal?: TemporalNamespace;
+    /**
+     * Called with a description of each loss of precision or zone identity, after which the conversion continues. If
+     * not given, conversions that would lose anything throw instead.
+     */
+    readonly onLoss?: (loss: string) => void;
+}
+
+/**
+ * Convert between DateTime, LocalDate, LocalDateTime, TimeZone and Duration and their TC39 Temporal counterparts.
+ *
+ * Values are converted directly rather than via strings. Temporal is accurate to the nanosecond and supports non-ISO
+ * calendars and any IANA time zone, so some conversions lose information: sub-millisecond precision, calendars, time
+ * zones that aren't known on the other side, and daylight saving rules that Temporal can't represent. These losses are
+ * never silent - by default the conversion throws, and if the converter has an onLoss handler it is given a description
+ * of each loss instead.
+ */
+export class TemporalConverter
+{
+    /** The number of nanoseconds in a minute. */
+    private static readonly NanosecondsPerMinute = 60 * 1000 * 1000 * 1000;
+
+    /** The Temporal namespace. */
+    private readonly m_temporal: TemporalNamespace;
+
+    /** The handler for losses, if any. */
+    private readonly m_onLoss?: (loss: string) => void;
+
+    /**
+     * Initialise a new TemporalConverter.
+     *
+     * @param options The Temporal namespace to use and how to report losses.
+     *
+     * @throws TemporalConverterError if no Temporal namespace is given and the runtime doesn't provide one.
+     */
+    public constructor(options: TemporalConverterOptions = {})
+    {
+        const temporal = options.temporal ?? (globalThis as {Temporal?: TemporalNamespace}).Temporal;
+
+        if (undefined === temporal) {
+            throw new TemporalConverterError("Expected Temporal in the runtime or the options, found none.");
+        }
+
+        this.m_temporal = temporal;
+        this.m_onLoss = options.onLoss;
+    }
+
+    /** Whether the runtime provides Temporal, so that a TemporalConverter can be created without a polyfill. */
+    public static get isSupported(): boolean
+    {
+        return undefined !== (globalThis as {Temporal?: TemporalNamespace}).Temporal;
+    }
+
+    /** The Temporal namespace used by the converter. */
+    public get temporal(): TemporalNamespace
+    {
+        return this.m_temporal;
+    }
+
+    /**
+     * Convert a DateTime to a Temporal.Instant. This never loses anything except the TimeZone.
+     *
+     * @param dateTime The DateTime.
+     */
+    public toInstant(dateTime: DateTime): TemporalInstant
+    {
+        return this.m_temporal.Instant.fromEpochMilliseconds(dateTime.timestamp);
+    }
+
+    /**
+     * Convert a Temporal.Instant to a DateTime.
+     *
+     * @param instant The Instant.
+     * @param timeZone The TimeZone for the DateTime. Defaults to UTC.
+     *
+     * @throws TemporalConverterError if the Instant has sub-millisecond precision and the converter has no onLoss handler.
+     */
+    public fromInstant(instant: TemporalInstant, timeZone: TimeZone = TimeZone.utc): DateTime
+    {
+        this.checkNanoseconds(instant.epochNanoseconds, "Instant");
+        return DateTime.fromTimestamp(instant.epochMilliseconds, timeZone);
+    }
+
+    /**
+     * Convert a DateTime to a Temporal.ZonedDateTime in the ISO calendar.
+     *
+     * Named TimeZones become the Temporal time zone of the same name, and others a fixed offset. The daylight saving rules
+     * and transitions of an unnamed TimeZone are lost, and the offset is lost if Temporal's rules for a named time zone
+     * disagree with the TimeZone's at the DateTime.
+     *
+     * @param dateTime The DateTime.
+     *
+     * @throws TemporalConverterError if Temporal doesn't recognise the TimeZone's name, or the conversion loses anything
+     * and the converter has no onLoss handler.
+     */
+    public toZonedDateTime(dateTime: DateTime): TemporalZonedDateTime
+    {
+        const timeZoneId = this.toTimeZoneId(dateTime.timeZone);
+        let zonedDateTime: TemporalZonedDateTime;
+
+        try {
+            zonedDateTime = this.toInstant(dateTime).toZonedDateTimeISO(timeZoneId);
+        } catch (err) {
+            throw new TemporalConverterError(`Expected time zone known to Temporal, found "${timeZoneId}": ${err.message}`);
+        }
+
+        this.checkOffset(zonedDateTime, dateTime);
+        return zonedDateTime;
+    }
+
+    /**
+     * Convert a Temporal.ZonedDateTime to a DateTime.
+     *
+     * The DateTime is at the same point in time, in the TimeZone of the same name. Time zones that TimeZone doesn't
+     * recognise become a fixed offset, losing their identity, and the offset is lost if TimeZone's rules disagree with
+     * Temporal's at the point in time. The calendar is lost if it is not the ISO calendar.
+     *
+     * @param zonedDateTime The ZonedDateTime.
+     *
+     * @throws TemporalConverterError if the conversion loses anything and the converter has no onLoss handler.
+     */
+    public fromZonedDateTime(zonedDateTime: TemporalZonedDateTime): DateTime
+    {
+        this.checkNanoseconds(zonedDateTime.epochNanoseconds, "ZonedDateTime");
+        this.checkCalendar(zonedDateTime.calendarId, "ZonedDateTime");
+        const timeZone = this.fromTimeZoneId(zonedDateTime.timeZoneId, zonedDateTime.offsetNanoseconds / TemporalConverter.NanosecondsPerMinute);
+        const dateTime = DateTime.fromTimestamp(zonedDateTime.epochMilliseconds, timeZone);
+        this.checkOffset(zonedDateTime, dateTime);
+        return dateTime;
+    }
+
+    /**
+     * Convert a LocalDate, or the date of a DateTime or LocalDateTime, to a Temporal.PlainDate in the ISO calendar.
+     *
+     * @param date The date.
+     */
+    public toPlainDate(date: LocalDateInterface): TemporalPlainDate
+    {
+        return this.m_temporal.PlainDate.from({year: date.year, month: date.month, day: date.day});
+    }
+
+    /**
+     * Convert a Temporal.PlainDate to a LocalDate. Dates in other calendars are converted to the ISO calendar.
+     *
+     * @param plainDate The PlainDate.
+     *
+     * @throws TemporalConverterError if the PlainDate is not in the ISO calendar and the converter has no onLoss handler.
+     */
+    public fromPlainDate(plainDate: TemporalPlainDate): LocalDate
+    {
+        this.checkCalendar(plainDate.calendarId, "PlainDate");
+        const iso = plainDate.withCalendar("iso8601");
+        return new LocalDate(iso.year, iso.month, iso.day);
+    }
+
+    /**
+     * Convert a LocalDateTime, or the local date and time of a DateTime, to a Temporal.PlainDateTime in the ISO calendar.
+     *
+     * @param dateTime The date and time.
+     */
+    public toPlainDateTime(dateTime: LocalDateTimeInterface): TemporalPlainDateTime
+    {
+        return this.m_temporal.PlainDateTime.from({
+            year: dateTime.year,
+            month: dateTime.month,
+            day: dateTime.day,
+            hour: dateTime.hour,
+            minute: dateTime.minute,
+            second: dateTime.second,
+            millisecond: dateTime.ms,
+        });
+    }
+
+    /**
+     * Convert a Temporal.PlainDateTime to a LocalDateTime. Dates in other calendars are converted to the ISO calendar.
+     *
+     * @param plainDateTime The PlainDateTime.
+     *
+     * @throws TemporalConverterError if the PlainDateTime has sub-millisecond precision or is not in the ISO calendar, and
+     * the converter has no onLoss handler.
+     */
+    public fromPlainDateTime(plainDateTime: TemporalPlainDateTime): LocalDateTime
+    {
+        if (0 !== plainDateTime.microsecond || 0 !== plainDateTime.nanosecond) {
+            this.lose(`PlainDateTime ${plainDateTime} has sub-millisecond precision, which is truncated.`);
+        }
+
+        this.checkCalendar(plainDateTime.calendarId, "PlainDateTime");
+        const iso = plainDateTime.withCalendar("iso8601");
+        return new LocalDateTime(iso.year, iso.month, iso.day, iso.hour, iso.minute, iso.second, iso.millisecond);
+    }
+
+    /**
+     * Convert a Duration to a Temporal.Duration.
+     *
+     * @param duration The Duration.
+     *
+     * @throws TemporalConverterError if Temporal rejects the Duration, e.g. because its amounts have mixed signs or are
+     * not integers.
+     */
+    public toDuration(duration: Duration): TemporalDuration
+    {
+        try {
+            return this.m_temporal.Duration.from({
+                years: duration.years ?? 0,
+                months: duration.months ?? 0,
+                weeks: duration.weeks ?? 0,
+                days: duration.days ?? 0,
+                hours: duration.hours ?? 0,
+                minutes: duration.minutes ?? 0,
+                seconds: duration.seconds ?? 0,
+                milliseconds: duration.ms ?? 0,
+            });
+        } catch (err) {
+            throw new TemporalConverterError(`Expected Duration that Temporal can represent, found ${JSON.stringify(duration)}: ${err.message}`);
+        }
+    }
+
+    /**
+     * Convert a Temporal.Duration to a Duration.
+     *
+     * @param duration The Temporal.Duration.
+     *
+     * @throws TemporalConverterError if the Temporal.Duration has microseconds or nanoseconds and the converter has no
+     * onLoss handler.
+     */
+    public fromDuration(duration: TemporalDuration): Duration
+    {
+        if (0 !== duration.microseconds || 0 !== duration.nanoseconds) {
+            this.lose(`Duration ${duration} has microseconds or nanoseconds, which are dropped.`);
+        }
+
+        return {
+            years: duration.years,
+            months: duration.months,
+            weeks: duration.weeks,
+            days: duration.days,
+            hours: duration.hours,
+            minutes: duration.minutes,
+            seconds: duration.seconds,
+            ms: duration.milliseconds,
+        };
+    }
+
+    /**
+     * Convert a TimeZone to a Temporal time zone identifier: its name if it has one, otherwise its standard offset.
+     *
+     * @param timeZone The TimeZone.
+     *
+     * Rules that save no time, such as those of a POSIX zone that only carry its abbreviation, and transitions to the
+     * standard offset don't change the offset, so they lose nothing.
+     *
+     * @throws TemporalConverterError if the TimeZone is unnamed and has daylight saving rules or transitions that change
+     * its offset, and the converter has no onLoss handler.
+     */
+    public toTimeZoneId(timeZone: TimeZone): string
+    {
+        const changesOffset = timeZone.rules.some((rule) => 0 !== rule.save)
+            || timeZone.transitions.some((transition) => transition.offset !== timeZone.offset);
+
+        if (undefined === timeZone.name && changesOffset) {
+            this.lose(`TimeZone ${timeZone.toJSON()} has daylight saving rules or transitions, which Temporal can't represent; its standard offset is used.`);
+        }
+
+        return timeZone.toJSON();
+    }
+
+    /**
+     * Convert a Temporal time zone identifier to a TimeZone.
+     *
+     * @param timeZoneId The identifier: a time zone name or an offset.
+     * @param offset The offset, in minutes, to use if TimeZone doesn't recognise the identifier.
+     *
+     * @throws TemporalConverterError if TimeZone doesn't recognise the identifier, and no offset is given or the converter
+     * has no onLoss handler.
+     */
+    public fromTimeZoneId(timeZoneId: string, offset?: number): TimeZone
+    {
+        try {
+            return new TimeZone(timeZoneId);
+        } catch (err) {
+            if (undefined === offset) {
+                throw new TemporalConverterError(`Expected time zone known to TimeZone, found "${timeZoneId}".`);
+            }
+
+            this.lose(`Time zone "${timeZoneId}" is not known to TimeZone; its offset at the time is used.`);
+            return new TimeZone(offset);
+        }
+    }
+
+    /** Helper to report a loss, or throw if the converter has no handler. */
+    private lose(loss: string): void
+    {
+        if (undefined === this.m_onLoss) {
+            throw new TemporalConverterError(loss);
+        }
+
+        this.m_onLoss(loss);
+    }
+
+    /** Helper to report the loss of sub-millisecond precision from an epoch nanoseconds value. */
+    private checkNanoseconds(epochNanoseconds: unknown, type: string): void
+    {
+        // read the digits rather than doing arithmetic, so that bigint support isn't needed
+        if (!/^-?(0|\d*000000)$/.test(`${epochNanoseconds}`)) {
+            this.lose(`${type} at ${epochNanoseconds}ns since the epoch has sub-millisecond precision, which is truncated.`);
+        }
+    }
+
+    /** Helper to report the loss of a non-ISO calendar. */
+    private checkCalendar(calendarId: string, type: string): void
+    {
+        if ("iso8601" !== calendarId) {
+            this.lose(`${type} is in the ${calendarId} calendar, which is converted to the ISO calendar.`);
+        }
+    }
+
+    /** Helper to report a disagreement between the offsets of a ZonedDateTime and the equivalent DateTime. */
+    private checkOffset(zonedDateTime: TemporalZonedDateTime, dateTime: DateTime): void
+    {
+        const offset = zonedDateTime.offsetNanoseconds / TemporalConverter.NanosecondsPerMinute;
+
+        if (offset !== dateTime.offset) {
+            this.lose(`Time zone "${zonedDateTime.timeZoneId}" has offset ${new TimeZone(offset).toJSON()} in Temporal but ${new TimeZone(dateTime.offset).toJSON()} in TimeZone at ${dateTime.toISOString()}.`);
+        }
+    }
+}
@@ -0,0 +1,3 @@
+/** Custom Error class thrown by TemporalConverter instances. */
+export class TemporalConverterError extends Error
+{}
@@ -1,13 +1,98 @@
+import {DateTime} from "./DateTime.js";
 import {TimeZoneError} from "./TimeZoneError.js";
 
 type TimeZoneOffsetMap = {
     [key: string]: number,
 };
 
+type DaylightSavingRuleMap = {
+    [key: string]: DaylightSavingRule[],
+};
+
+type TimeZoneRuleNameMap = {
+    [key: string]: string,
+};
+
+/** A computed transition: the timestamp at which it occurs and the daylight saving in force from then on. */
+type DaylightSavingTransition = {
+    timestamp: number,
+    save: number,
+    abbreviation?: string,
+};
+
+/** A function that resolves a time zone name to a TimeZone, or `undefined` if it doesn't recognise the name. */
+export type TimeZoneProvider = (name: string) => TimeZone|undefined;
+
+/** Enumeration of the ways the time of a daylight saving transition can be expressed. */
+export enum TransitionTimeType
+{
+    /** Local wall-clock time, i.e. standard time plus whatever daylight saving is in force before the transition. */
+    Wall = 0,
+    /** Local standard time, ignoring any daylight saving. */
+    Standard,
+    /** UTC. */
+    Utc,
+}
+
+/**
+ * A daylight saving rule, modelled on the Rule lines in the tz database.
+ *
+ * Each rule describes one transition per year, over a range of years. The day of the month is expressed in the same
+ * way as in the tz database - either a fixed day ("15"), the last occurrence of a weekday in the month ("lastSun"), or
+ * the first occurrence of a weekday on or after/before a given day ("Sun>=8", "Sun<=25").
+ */
+export interface DaylightSavingRule
+{
+    /** The first year in which the rule applies. */
+    readonly from: number;
+    /** The last year in which the rule applies. Omit for rules that remain in force. */
+    readonly to?: number;
+    /** The month in which the transition occurs (1 = January, 12 = December). */
+    readonly month: number;
+    /** The day of the month on which the transition occurs. */
+    readonly day: string;
+    /** The time of day at which the transition occurs, in minutes after midnight. */
+    readonly at: number;
+    /** How the time of the transition is expressed. Defaults to wall-clock time. */
+    readonly atType?: TransitionTimeType;
+    /** The daylight saving, in minutes, in force after the transition. */
+    readonly save: number;
+    /** The abbreviation for the time zone after the transition, if any. */
+    readonly abbreviation?: string;
+}
+
+/** An explicit transition in the history of a time zone, such as those recorded in compiled TZif files. */
+export interface TimeZoneTransition
+{
+    /** The ECMA timestamp at which the transition occurs. */
+    readonly timestamp: number;
+    /** The offset, in minutes, from UTC in force after the transition. */
+    readonly offset: number;
+    /** Whether daylight saving is in force after the transition. */
+    readonly isDaylightSaving: boolean;
+    /** The abbreviation for the time zone after the transition, if any. */
+    readonly abbreviation?: string;
+}
+
+/**
+ * A source of the offset from UTC at each point in time, for time zones whose offsets come from elsewhere, such as the
+ * host's Intl support. See IntlTimeZoneSource.
+ */
+export interface TimeZoneOffsetSource
+{
+    /** Fetch the offset from UTC, in minutes, in force at an ECMA timestamp. */
+    offsetAt(timestamp: number): number;
+    /** Determine whether daylight saving is in force at an ECMA timestamp. */
+    isDaylightSavingAt(timestamp: number): boolean;
+    /** Fetch the abbreviation in force at an ECMA timestamp, or `undefined` if there is none. */
+    abbreviationAt(timestamp: number): string|undefined;
+}
+
 /** Interface for TimeZone objects. */
 export interface TimeZoneInterface
 {
     readonly offset: number;
+    offsetAt(timestamp: number): number;
 }
 
 /**
@@ -17,7 +102,7 @@ export interface TimeZoneInterface
  */
 export class TimeZone implements TimeZoneInterface
 {
-    // UTC offsets from timezone database as at 15th Apr 2023
+    // Standard UTC offsets from timezone database as at 15th Apr 2023
     private static readonly NamedTimeZones: TimeZoneOffsetMap = {
         // zones in tz database
         "Africa/Abidjan": 0,
@@ -643,46 +728,839 @@ export class TimeZone implements TimeZoneInterface
         "SST": -660,
     };
 
-    /** The offset in minutes from UTC for the TimeZone object. */
+    // Daylight saving rules, named as in the tz database. These cover the rules in force in recent decades, not the
+    // full history of each zone.
+    private static readonly DaylightSavingRules: DaylightSavingRuleMap = {
+        "AN": [
+            {from: 1989, to: 1999, month: 10, day: "lastSun", at: 120, atType: TransitionTimeType.Standard, save: 60},
+            {from: 1990, to: 1995, month: 3, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 0},
+            {from: 1996, to: 2005, month: 3, day: "lastSun", at: 120, atType: TransitionTimeType.Standard, save: 0},
+            {from: 2000, to: 2000, month: 8, day: "lastSun", at: 120, atType: TransitionTimeType.Standard, save: 60},
+            {from: 2001, to: 2007, month: 10, day: "lastSun", at: 120, atType: TransitionTimeType.Standard, save: 60},
+            {from: 2006, to: 2006, month: 4, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 0},
+            {from: 2007, to: 2007, month: 3, day: "lastSun", at: 120, atType: TransitionTimeType.Standard, save: 0},
+            {from: 2008, month: 4, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 0},
+            {from: 2008, month: 10, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 60},
+        ],
+        "Chatham": [
+            {from: 1990, to: 2006, month: 10, day: "Sun>=1", at: 165, atType: TransitionTimeType.Standard, save: 60},
+            {from: 1990, to: 2007, month: 3, day: "Sun>=15", at: 165, atType: TransitionTimeType.Standard, save: 0},
+            {from: 2007, month: 9, day: "lastSun", at: 165, atType: TransitionTimeType.Standard, save: 60},
+            {from: 2008, month: 4, day: "Sun>=1", at: 165, atType: TransitionTimeType.Standard, save: 0},
+        ],
+        "Chile": [
+            {from: 2022, month: 9, day: "Sun>=2", at: 240, atType: TransitionTimeType.Utc, save: 60},
+            {from: 2023, month: 4, day: "Sun>=2", at: 180, atType: TransitionTimeType.Utc, save: 0},
+        ],
+        "Cuba": [
+            {from: 2012, month: 11, day: "Sun>=1", at: 0, atType: TransitionTimeType.Standard, save: 0},
+            {from: 2013, month: 3, day: "Sun>=8", at: 0, atType: TransitionTimeType.Standard, save: 60},
+        ],
+        "Egypt": [
+            {from: 2023, month: 4, day: "lastFri", at: 0, save: 60},
+            {from: 2023, month: 10, day: "lastThu", at: 1440, save: 0},
+        ],
+        // Irish "standard" time is summer time, so the winter transition has a negative save
+        "Eire": [
+            {from: 1981, month: 3, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: 0},
+            {from: 1981, to: 1989, month: 10, day: "Sun>=23", at: 60, atType: TransitionTimeType.Utc, save: -60},
+            {from: 1990, to: 1995, month: 10, day: "Sun>=22", at: 60, atType: TransitionTimeType.Utc, save: -60},
+            {from: 1996, month: 10, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: -60},
+        ],
+        "EU": [
+            {from: 1977, to: 1980, month: 4, day: "Sun>=1", at: 60, atType: TransitionTimeType.Utc, save: 60},
+            {from: 1977, to: 1977, month: 9, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: 0},
+            {from: 1978, to: 1978, month: 10, day: "1", at: 60, atType: TransitionTimeType.Utc, save: 0},
+            {from: 1979, to: 1995, month: 9, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: 0},
+            {from: 1981, month: 3, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: 60},
+            {from: 1996, month: 10, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: 0},
+        ],
+        "Lebanon": [
+            {from: 1993, month: 3, day: "lastSun", at: 0, save: 60},
+            {from: 1999, month: 10, day: "lastSun", at: 0, save: 0},
+        ],
+        "LH": [
+            {from: 2008, month: 4, day: "Sun>=1", at: 120, save: 0},
+            {from: 2008, month: 10, day: "Sun>=1", at: 120, save: 30},
+        ],
+        "Moldova": [
+            {from: 1997, month: 3, day: "lastSun", at: 120, save: 60},
+            {from: 1997, month: 10, day: "lastSun", at: 180, save: 0},
+        ],
+        // Norfolk Island has observed the AN rules since 2019, having had no daylight saving since 1975
+        "Norfolk": [
+            {from: 2019, month: 10, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 60},
+            {from: 2020, month: 4, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 0},
+        ],
+        "NZ": [
+            {from: 1990, to: 2006, month: 10, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 60},
+            {from: 1990, to: 2007, month: 3, day: "Sun>=15", at: 120, atType: TransitionTimeType.Standard, save: 0},
+            {from: 2007, month: 9, day: "lastSun", at: 120, atType: TransitionTimeType.Standard, save: 60},
+            {from: 2008, month: 4, day: "Sun>=1", at: 120, atType: TransitionTimeType.Standard, save: 0},
+        ],
+        "Troll": [
+            {from: 2004, month: 10, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: 0},
+            {from: 2005, month: 3, day: "lastSun", at: 60, atType: TransitionTimeType.Utc, save: 120},
+        ],
+        "US": [
+            {from: 1967, to: 2006, month: 10, day: "lastSun", at: 120, save: 0},
+            {from: 1967, to: 1973, month: 4, day: "lastSun", at: 120, save: 60},
+            {from: 1974, to: 1974, month: 1, day: "6", at: 120, save: 60},
+            {from: 1975, to: 1975, month: 2, day: "lastSun", at: 120, save: 60},
+            {from: 1976, to: 1986, month: 4, day: "lastSun", at: 120, save: 60},
+            {from: 1987, to: 2006, month: 4, day: "Sun>=1", at: 120, save: 60},
+            {from: 2007, month: 3, day: "Sun>=8", at: 120, save: 60},
+            {from: 2007, month: 11, day: "Sun>=1", at: 120, save: 0},
+        ],
+        "Zion": [
+            {from: 2013, month: 3, day: "Fri>=23", at: 120, save: 60},
+            {from: 2013, month: 10, day: "lastSun", at: 120, save: 0},
+        ],
+    };
+
+    // The daylight saving rules observed by each named time zone. Zones not listed observe no daylight saving.
+    private static readonly NamedTimeZoneRules: TimeZoneRuleNameMap = {
+        "Africa/Cairo": "Egypt",
+        "Africa/Ceuta": "EU",
+        "America/Adak": "US",
+        "America/Anchorage": "US",
+        "America/Atka": "US",
+        "America/Boise": "US",
+        "America/Cambridge_Bay": "US",
+        "America/Chicago": "US",
+        "America/Ciudad_Juarez": "US",
+        "America/Denver": "US",
+        "America/Detroit": "US",
+        "America/Edmonton": "US",
+        "America/Ensenada": "US",
+        "America/Fort_Wayne": "US",
+        "America/Glace_Bay": "US",
+        "America/Godthab": "EU",
+        "America/Goose_Bay": "US",
+        "America/Grand_Turk": "US",
+        "America/Halifax": "US",
+        "America/Havana": "Cuba",
+        "America/Indiana/Indianapolis": "US",
+        "America/Indiana/Knox": "US",
+        "America/Indiana/Marengo": "US",
+        "America/Indiana/Petersburg": "US",
+        "America/Indiana/Tell_City": "US",
+        "America/Indiana/Vevay": "US",
+        "America/Indiana/Vincennes": "US",
+        "America/Indiana/Winamac": "US",
+        "America/Indianapolis": "US",
+        "America/Inuvik": "US",
+        "America/Iqaluit": "US",
+        "America/Juneau": "US",
+        "America/Kentucky/Louisville": "US",
+        "America/Kentucky/Monticello": "US",
+        "America/Knox_IN": "US",
+        "America/Los_Angeles": "US",
+        "America/Louisville": "US",
+        "America/Matamoros": "US",
+        "America/Menominee": "US",
+        "America/Metlakatla": "US",
+        "America/Miquelon": "US",
+        "America/Moncton": "US",
+        "America/Montreal": "US",
+        "America/Nassau": "US",
+        "America/New_York": "US",
+        "America/Nipigon": "US",
+        "America/Nome": "US",
+        "America/North_Dakota/Beulah": "US",
+        "America/North_Dakota/Center": "US",
+        "America/North_Dakota/New_Salem": "US",
+        "America/Nuuk": "EU",
+        "America/Ojinaga": "US",
+        "America/Pangnirtung": "US",
+        "America/Port-au-Prince": "US",
+        "America/Rainy_River": "US",
+        "America/Rankin_Inlet": "US",
+        "America/Resolute": "US",
+        "America/Santa_Isabel": "US",
+        "America/Santiago": "Chile",
+        "America/Scoresbysund": "EU",
+        "America/Shiprock": "US",
+        "America/Sitka": "US",
+        "America/St_Johns": "US",
+        "America/Thule": "US",
+        "America/Thunder_Bay": "US",
+        "America/Tijuana": "US",
+        "America/Toronto": "US",
+        "America/Vancouver": "US",
+        "America/Winnipeg": "US",
+        "America/Yakutat": "US",
+        "America/Yellowknife": "US",
+        "Antarctica/Macquarie": "AN",
+        "Antarctica/McMurdo": "NZ",
+        "Antarctica/South_Pole": "NZ",
+        "Antarctica/Troll": "Troll",
+        "Arctic/Longyearbyen": "EU",
+        "Asia/Beirut": "Lebanon",
+        "Asia/Famagusta": "EU",
+        "Asia/Jerusalem": "Zion",
+        "Asia/Nicosia": "EU",
+        "Asia/Tel_Aviv": "Zion",
+        "Atlantic/Azores": "EU",
+        "Atlantic/Bermuda": "US",
+        "Atlantic/Canary": "EU",
+        "Atlantic/Faeroe": "EU",
+        "Atlantic/Faroe": "EU",
+        "Atlantic/Jan_Mayen": "EU",
+        "Atlantic/Madeira": "EU",
+        "Australia/ACT": "AN",
+        "Australia/Adelaide": "AN",
+        "Australia/Broken_Hill": "AN",
+        "Australia/Canberra": "AN",
+        "Australia/Currie": "AN",
+        "Australia/Hobart": "AN",
+        "Australia/LHI": "LH",
+        "Australia/Lord_Howe": "LH",
+        "Australia/Melbourne": "AN",
+        "Australia/NSW": "AN",
+        "Australia/South": "AN",
+        "Australia/Sydney": "AN",
+        "Australia/Tasmania": "AN",
+        "Australia/Victoria": "AN",
+        "Australia/Yancowinna": "AN",
+        "Canada/Atlantic": "US",
+        "Canada/Central": "US",
+        "Canada/Eastern": "US",
+        "Canada/Mountain": "US",
+        "Canada/Newfoundland": "US",
+        "Canada/Pacific": "US",
+        "CET": "EU",
+        "Chile/Continental": "Chile",
+        "Chile/EasterIsland": "Chile",
+        "CST6CDT": "US",
+        "Cuba": "Cuba",
+        "EET": "EU",
+        "Egypt": "Egypt",
+        "Eire": "Eire",
+        "EST5EDT": "US",
+        "Europe/Amsterdam": "EU",
+        "Europe/Andorra": "EU",
+        "Europe/Athens": "EU",
+        "Europe/Belfast": "EU",
+        "Europe/Belgrade": "EU",
+        "Europe/Berlin": "EU",
+        "Europe/Bratislava": "EU",
+        "Europe/Brussels": "EU",
+        "Europe/Bucharest": "EU",
+        "Europe/Budapest": "EU",
+        "Europe/Busingen": "EU",
+        "Europe/Chisinau": "Moldova",
+        "Europe/Copenhagen": "EU",
+        "Europe/Dublin": "Eire",
+        "Europe/Gibraltar": "EU",
+        "Europe/Guernsey": "EU",
+        "Europe/Helsinki": "EU",
+        "Europe/Isle_of_Man": "EU",
+        "Europe/Jersey": "EU",
+        "Europe/Kiev": "EU",
+        "Europe/Kyiv": "EU",
+        "Europe/Lisbon": "EU",
+        "Europe/Ljubljana": "EU",
+        "Europe/London": "EU",
+        "Europe/Luxembourg": "EU",
+        "Europe/Madrid": "EU",
+        "Europe/Malta": "EU",
+        "Europe/Mariehamn": "EU",
+        "Europe/Monaco": "EU",
+        "Europe/Nicosia": "EU",
+        "Europe/Oslo": "EU",
+        "Europe/Paris": "EU",
+        "Europe/Podgorica": "EU",
+        "Europe/Prague": "EU",
+        "Europe/Riga": "EU",
+        "Europe/Rome": "EU",
+        "Europe/San_Marino": "EU",
+        "Europe/Sarajevo": "EU",
+        "Europe/Skopje": "EU",
+        "Europe/Sofia": "EU",
+        "Europe/Stockholm": "EU",
+        "Europe/Tallinn": "EU",
+        "Europe/Tirane": "EU",
+        "Europe/Tiraspol": "Moldova",
+        "Europe/Uzhgorod": "EU",
+        "Europe/Vaduz": "EU",
+        "Europe/Vatican": "EU",
+        "Europe/Vienna": "EU",
+        "Europe/Vilnius": "EU",
+        "Europe/Warsaw": "EU",
+        "Europe/Zagreb": "EU",
+        "Europe/Zaporozhye": "EU",
+        "Europe/Zurich": "EU",
+        "GB": "EU",
+        "GB-Eire": "EU",
+        "Israel": "Zion",
+        "MET": "EU",
+        "Mexico/BajaNorte": "US",
+        "MST7MDT": "US",
+        "Navajo": "US",
+        "NZ": "NZ",
+        "NZ-CHAT": "Chatham",
+        "Pacific/Auckland": "NZ",
+        "Pacific/Chatham": "Chatham",
+        "Pacific/Easter": "Chile",
+        "Pacific/Norfolk": "Norfolk",
+        "Poland": "EU",
+        "Portugal": "EU",
+        "PST8PDT": "US",
+        "US/Alaska": "US",
+        "US/Aleutian": "US",
+        "US/Central": "US",
+        "US/East-Indiana": "US",
+        "US/Eastern": "US",
+        "US/Indiana-Starke": "US",
+        "US/Michigan": "US",
+        "US/Mountain": "US",
+        "US/Pacific": "US",
+        "WET": "EU",
+    };
+
+    /** Abbreviated weekday names, as used in the day field of daylight saving rules. */
+    private static readonly RuleWeekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+    /** Matches strings that look like offsets from UTC, which are never offered to the providers. */
+    private static readonly OffsetLike = /^[+-]?\d/;
+
+    /** Providers consulted to resolve time zone names before the built-in table. */
+    private static providers: TimeZoneProvider[] = [];
+
+    /** Providers consulted to resolve time zone names that aren't in the built-in table. */
+    private static fallbackProviders: TimeZoneProvider[] = [];
+
+    /** The name of the TimeZone, if it was created from a named time zone. */
+    private readonly m_name?: string;
+
+    /** The standard offset in minutes from UTC for the TimeZone object. */
     private readonly m_offset: number;
 
+    /** The daylight saving rules observed in the TimeZone after its last explicit transition. */
+    private readonly m_rules: DaylightSavingRule[];
+
+    /** Explicit historical transitions, in chronological order. */
+    private readonly m_transitions: TimeZoneTransition[];
+
+    /** The source of offsets, which takes precedence over the rules and transitions, if any. */
+    private readonly m_source?: TimeZoneOffsetSource;
+
+    /** Cache of transitions computed from the rules, keyed by year. */
+    private readonly m_ruleTransitions: Map<number, DaylightSavingTransition[]> = new Map<number, DaylightSavingTransition[]>();
+
     /**
      * Initialise a new TimeZone object.
      *
+     * Offsets from UTC are parsed directly, and strings that look like offsets but aren't valid are rejected without
+     * consulting the providers. Time zone names are first offered to the registered providers, then looked up in the
+     * built-in table, then offered to the registered fallback providers. Named time zones observe the daylight saving
+     * rules of their zone, unless rules are explicitly provided.
+     *
+     * Explicit transitions take precedence over the rules: the rules only apply from the last explicit transition
+     * onwards. Before the first explicit transition, the offset of the first transition applies. A source of offsets
+     * takes precedence over both.
+     *
      * @param offset The TimeZone offset, either a number of minutes relative to UTC, an hours:minutes offset from UTC,
      * or a recognised time zone string from the timezone database.
+     * @param rules The daylight saving rules to observe, if any.
+     * @param transitions The explicit historical transitions for the time zone, if any.
+     * @param source The source of the offset at each point in time, if any. The offset argument is then the standard
+     * offset.
      */
-    public constructor(offset: number|string)
+    public constructor(offset: number|string, rules: DaylightSavingRule[] = undefined, transitions: TimeZoneTransition[] = undefined, source: TimeZoneOffsetSource = undefined)
     {
         if ("string" === typeof offset) {
-            if (undefined !== TimeZone.NamedTimeZones[offset]) {
-                offset = TimeZone.NamedTimeZones[offset];
-            } else {
-                const result = /^([+-]?\d{2}):?(\d{2})$/.exec(offset);
-
-                if (!result) {
-                    throw new TimeZoneError(`Invalid timezone offset ${offset}.`);
-                }
+            // offsets are parsed first, so that only names are offered to the providers
+            const result = /^([+-]?\d{2}):?(\d{2})$/.exec(offset);
 
+            if (result) {
                 const minutes = Number.parseInt(result[1]) * 60;
 
-                if (0 > minutes) {
+                // check the sign rather than the hours, so that -00:30 is negative
+                if ("-" === result[1][0]) {
                     offset = minutes - Number.parseInt(result[2]);
                 } else {
                     offset = minutes + Number.parseInt(result[2]);
                 }
+            } else {
+                // malformed offsets are rejected rather than offered to the providers as names
+                const provided = (TimeZone.OffsetLike.test(offset) ? undefined : TimeZone.provide(offset, TimeZone.providers)
+                    ?? (undefined === TimeZone.NamedTimeZones[offset] ? TimeZone.provide(offset, TimeZone.fallbackProviders) : undefined));
+
+                if (undefined !== provided) {
+                    this.m_name = offset;
+                    rules = rules ?? provided.m_rules;
+                    transitions = transitions ?? provided.m_transitions;
+                    source = source ?? provided.m_source;
+                    offset = provided.m_offset;
+                } else if (undefined !== TimeZone.NamedTimeZones[offset]) {
+                    this.m_name = offset;
+
+                    if (undefined === rules && undefined !== TimeZone.NamedTimeZoneRules[offset]) {
+                        rules = TimeZone.DaylightSavingRules[TimeZone.NamedTimeZoneRules[offset]];
+                    }
+
+                    offset = TimeZone.NamedTimeZones[offset];
+                } else {
+                    throw new TimeZoneError(`Invalid timezone offset ${offset}.`);
+                }
             }
         }
 
         this.m_offset = offset;
+        this.m_rules = rules ?? [];
+        this.m_transitions = (transitions ?? []).slice().sort((lhs, rhs) => lhs.timestamp - rhs.timestamp);
+        this.m_source = source;
+    }
+
+    /**
+     * Register a provider to resolve time zone names.
+     *
+     * Providers are consulted in the order in which they were added, before the built-in table of named time zones.
+     * Fallback providers are only consulted for names that aren't in the table, after the other providers.
+     *
+     * @param provider The provider to add.
+     * @param fallback Whether to consult the provider only for names that aren't in the built-in table. Defaults to
+     * false.
+     */
+    public static addProvider(provider: TimeZoneProvider, fallback: boolean = false): void
+    {
+        (fallback ? TimeZone.fallbackProviders : TimeZone.providers).push(provider);
+    }
+
+    /**
+     * Unregister a time zone name provider.
+     *
+     * @param provider The provider to remove.
+     */
+    public static removeProvider(provider: TimeZoneProvider): void
+    {
+        for (const providers of [TimeZone.providers, TimeZone.fallbackProviders]) {
+            const idx = providers.indexOf(provider);
+
+            if (0 <= idx) {
+                providers.splice(idx, 1);
+            }
+        }
+    }
+
+    /** Helper to compare two lists of rules or transitions, property by property. */
+    private static equalRecords<T extends object>(lhs: T[], rhs: T[]): boolean
+    {
+        if (lhs === rhs) {
+            return true;
+        }
+
+        const keys = (record: Record<string, unknown>) => Object.keys(record).filter((key) => undefined !== record[key]).sort();
+
+        return lhs.length === rhs.length && lhs.every((lhsRecord, idx) => {
+            const record = lhsRecord as Record<string, unknown>;
+            const other = rhs[idx] as Record<string, unknown>;
+            const recordKeys = keys(record);
+            return recordKeys.join() === keys(other).join() && recordKeys.every((key) => record[key] === other[key]);
+        });
     }
 
-    /** The offset, in minutes, of the timezone from UTC. */
+    /** Helper to resolve a time zone name through a list of registered providers. */
+    private static provide(name: string, providers: TimeZoneProvider[]): TimeZone|undefined
+    {
+        for (const provider of providers) {
+            const timeZone = provider(name);
+
+            if (undefined !== timeZone) {
+                return timeZone;
+            }
+        }
+
+        return undefined;
+    }
+
+    /** The name of the timezone, or `undefined` if it was not created from a named time zone. */
+    public get name(): string|undefined
+    {
+        return this.m_name;
+    }
+
+    /** The standard offset, in minutes, of the timezone from UTC. */
     public get offset(): number
     {
         return this.m_offset;
     }
 
+    /** The daylight saving rules observed in the timezone. */
+    public get rules(): DaylightSavingRule[]
+    {
+        return this.m_rules.slice();
+    }
+
+    /** The explicit historical transitions for the timezone, in chronological order. */
+    public get transitions(): TimeZoneTransition[]
+    {
+        return this.m_transitions.slice();
+    }
+
+    /**
+     * Determine whether the TimeZone is the same as another.
+     *
+     * TimeZones are equal if they have the same name (or neither has a name), standard offset, daylight saving rules and
+     * explicit transitions, and the same source of offsets, if any. A named time zone and an unnamed one with the same
+     * offsets are not equal.
+     *
+     * @param other The other TimeZone.
+     */
+    public equals(other: TimeZone): boolean
+    {
+        return this === other || (
+            this.name === other.name
+            && this.offset === other.offset
+            && this.m_source === other.m_source
+            && TimeZone.equalRecords(this.m_rules, other.m_rules)
+            && TimeZone.equalRecords(this.m_transitions, other.m_transitions)
+        );
+    }
+
+    /**
+     * Convert the TimeZone to a value for JSON.stringify().
+     *
+     * Named time zones are represented by their name, e.g. "Europe/London", and others by their standard offset, e.g.
+     * "+05:30". Either can be passed to the constructor to recreate the TimeZone, but the daylight saving rules and
+     * explicit transitions of an unnamed TimeZone are not kept.
+     */
+    public toJSON(): string
+    {
+        if (undefined !== this.name) {
+            return this.name;
+        }
+
+        const minutes = Math.abs(this.offset);
+        return `${0 > this.offset ? "-" : "+"}${`0${Math.floor(minutes / 60)}`.slice(-2)}:${`0${minutes % 60}`.slice(-2)}`;
+    }
+
+    /**
+     * Fetch the offset from UTC in force at a given point in time.
+     *
+     * @param timestamp The ECMA timestamp (ms since 1970-01-01T00:00:00.000UTC)
+     *
+     * @return The offset, in minutes, including any daylight saving.
+     */
+    public offsetAt(timestamp: number): number
+    {
+        if (undefined !== this.m_source) {
+            return this.m_source.offsetAt(timestamp);
+        }
+
+        const transition = this.explicitTransitionAt(timestamp);
+
+        if (undefined !== transition) {
+            return transition.offset;
+        }
+
+        return this.m_offset + this.ruleTransitionAt(timestamp).save;
+    }
+
+    /**
+     * Determine whether daylight saving is in force at a given point in time.
+     *
+     * @param timestamp The ECMA timestamp (ms since 1970-01-01T00:00:00.000UTC)
+     */
+    public isDaylightSavingAt(timestamp: number): boolean
+    {
+        if (undefined !== this.m_source) {
+            return this.m_source.isDaylightSavingAt(timestamp);
+        }
+
+        const transition = this.explicitTransitionAt(timestamp);
+
+        if (undefined !== transition) {
+            return transition.isDaylightSaving;
+        }
+
+        return 0 !== this.ruleTransitionAt(timestamp).save;
+    }
+
+    /**
+     * Fetch the abbreviation for the timezone in force at a given point in time.
+     *
+     * @param timestamp The ECMA timestamp (ms since 1970-01-01T00:00:00.000UTC)
+     *
+     * @return The abbreviation, or `undefined` if the timezone has no abbreviation at that time.
+     */
+    public abbreviationAt(timestamp: number): string|undefined
+    {
+        if (undefined !== this.m_source) {
+            return this.m_source.abbreviationAt(timestamp);
+        }
+
+        const transition = this.explicitTransitionAt(timestamp);
+
+        if (undefined !== transition) {
+            return transition.abbreviation;
+        }
+
+        return this.ruleTransitionAt(timestamp).abbreviation;
+    }
+
+    /**
+     * Helper to fetch the explicit transition in force at a given timestamp.
+     *
+     * @return The transition, or `undefined` if the rules apply at the timestamp.
+     */
+    private explicitTransitionAt(timestamp: number): TimeZoneTransition|undefined
+    {
+        const transitions = this.m_transitions;
+
+        if (0 === transitions.length) {
+            return undefined;
+        }
+
+        if (timestamp < transitions[0].timestamp) {
+            return transitions[0];
+        }
+
+        if (0 < this.m_rules.length && timestamp >= transitions[transitions.length - 1].timestamp) {
+            return undefined;
+        }
+
+        // binary search for the last transition at or before the timestamp
+        let lower = 0;
+        let upper = transitions.length - 1;
+
+        while (lower < upper) {
+            const mid = Math.ceil((lower + upper) / 2);
+
+            if (transitions[mid].timestamp <= timestamp) {
+                lower = mid;
+            } else {
+                upper = mid - 1;
+            }
+        }
+
+        return transitions[lower];
+    }
+
+    /** Helper to fetch the last transition computed from the rules at or before a given timestamp. */
+    private ruleTransitionAt(timestamp: number): DaylightSavingTransition
+    {
+        let current: DaylightSavingTransition = {timestamp: Number.NEGATIVE_INFINITY, save: 0};
+
+        if (0 === this.m_rules.length) {
+            return current;
+        }
+
+        for (const transition of this.transitionsFor(new Date(timestamp + (this.m_offset * 60 * 1000)).getUTCFullYear())) {
+            if (transition.timestamp > timestamp) {
+                break;
+            }
+
+            current = transition;
+        }
+
+        return current;
+    }
+
+    /**
+     * Helper to compute the transitions that could affect the offset during a given year.
+     *
+     * The transitions from the two preceding years are included so that the daylight saving in force at the start of
+     * the year is known, and so that wall-clock transition times can be resolved.
+     */
+    private transitionsFor(year: number): DaylightSavingTransition[]
+    {
+        let transitions = this.m_ruleTransitions.get(year);
+
+        if (undefined !== transitions) {
+            return transitions;
+        }
+
+        const local: {timestamp: number, rule: DaylightSavingRule}[] = [];
+
+        for (let ruleYear = year - 2; ruleYear <= year; ++ruleYear) {
+            for (const rule of this.m_rules) {
+                if (rule.from > ruleYear || (undefined !== rule.to && rule.to < ruleYear)) {
+                    continue;
+                }
+
+                local.push({
+                    timestamp: DateTime.utcDate(ruleYear, rule.month, TimeZone.ruleDay(ruleYear, rule.month, rule.day)).getTime() + (rule.at * 60 * 1000),
+                    rule: rule,
+                });
+            }
+        }
+
+        local.sort((lhs, rhs) => lhs.timestamp - rhs.timestamp);
+        transitions = [];
+        let save = 0;
+
+        for (const transition of local) {
+            let offset: number;
+
+            switch (transition.rule.atType ?? TransitionTimeType.Wall) {
+                case TransitionTimeType.Utc:
+                    offset = 0;
+                    break;
+
+                case TransitionTimeType.Standard:
+                    offset = this.m_offset;
+                    break;
+
+                default:
+                    offset = this.m_offset + save;
+            }
+
+            save = transition.rule.save;
+
+            transitions.push({
+                timestamp: transition.timestamp - (offset * 60 * 1000),
+                save: save,
+                abbreviation: transition.rule.abbreviation,
+            });
+        }
+
+        this.m_ruleTransitions.set(year, transitions);
+        return transitions;
+    }
+
+    /**
+     * Helper to resolve the day field of a daylight saving rule to a day of the month.
+     *
+     * The returned day may lie outside the month (e.g. "Sun>=29"), in which case it is relative to the start of the
+     * month.
+     *
+     * @throws TimeZoneError if the day field is not valid.
+     */
+    private static ruleDay(year: number, month: number, day: string): number
+    {
+        if (/^\d+$/.test(day)) {
+            return Number.parseInt(day);
+        }
+
+        let result = /^last([A-Z][a-z]{2})$/.exec(day);
+
+        if (result && 0 <= TimeZone.RuleWeekdays.indexOf(result[1])) {
+            const last = DateTime.utcDate(year, month + 1, 0);
+            return last.getUTCDate() - ((7 + last.getUTCDay() - TimeZone.RuleWeekdays.indexOf(result[1])) % 7);
+        }
+
+        result = /^([A-Z][a-z]{2})([<>]=)(\d+)$/.exec(day);
+
+        if (result && 0 <= TimeZone.RuleWeekdays.indexOf(result[1])) {
+            const pivot = Number.parseInt(result[3]);
+            const weekday = DateTime.utcDate(year, month, pivot).getUTCDay();
+            const target = TimeZone.RuleWeekdays.indexOf(result[1]);
+
+            if (">=" === result[2]) {
+                return pivot + ((7 + target - weekday) % 7);
+            }
+
+            return pivot - ((7 + weekday - target) % 7);
+        }
+
+        throw new TimeZoneError(`Invalid daylight saving rule day ${day}.`);
+    }
+
+    /**
+     * Helper to parse a time or offset from a POSIX TZ string, in the form [+-]hh[:mm[:ss]].
+     *
+     * @return The time in minutes, rounded to the nearest minute.
+     */
+    private static parsePosixTime(time: string): number
+    {
+        const result = /^([+-]?)(\d{1,3})(?::(\d{2})(?::(\d{2}))?)?$/.exec(time);
+
+        if (!result) {
+            throw new TimeZoneError(`Invalid POSIX TZ time ${time}.`);
+        }
+
+        const minutes = (Number.parseInt(result[2]) * 60) + Number.parseInt(result[3] ?? "0") + Math.round(Number.parseInt(result[4] ?? "0") / 60);
+        return ("-" === result[1] ? -minutes : minutes);
+    }
+
+    /**
+     * Helper to convert a transition date from a POSIX TZ string (Jn, n or Mm.w.d, with an optional /time) to a daylight
+     * saving rule.
+     */
+    private static parsePosixRule(rule: string, save: number, abbreviation: string): DaylightSavingRule
+    {
+        const result = /^(?:J(\d{1,3})|(\d{1,3})|M(\d{1,2})\.([1-5])\.([0-6]))(?:\/(.+))?$/.exec(rule);
+
+        if (!result) {
+            throw new TimeZoneError(`Invalid POSIX TZ rule ${rule}.`);
+        }
+
+        let month: number;
+        let day: string;
+
+        if (undefined !== result[1]) {
+            // Jn counts 1..365 and never counts February 29th, so it's a fixed date in a non-leap year
+            const date = new Date(Date.UTC(2001, 0, Number.parseInt(result[1])));
+            month = date.getUTCMonth() + 1;
+            day = `${date.getUTCDate()}`;
+        } else if (undefined !== result[2]) {
+            // n counts 0..365 including February 29th - days beyond the end of January roll into later months
+            month = 1;
+            day = `${Number.parseInt(result[2]) + 1}`;
+        } else {
+            month = Number.parseInt(result[3]);
+            const week = Number.parseInt(result[4]);
+            const weekday = TimeZone.RuleWeekdays[Number.parseInt(result[5])];
+
+            if (1 > month || 12 < month) {
+                throw new TimeZoneError(`Invalid POSIX TZ rule ${rule}.`);
+            }
+
+            day = (5 === week ? `last${weekday}` : `${weekday}>=${((week - 1) * 7) + 1}`);
+        }
+
+        return {
+            from: Number.NEGATIVE_INFINITY,
+            month: month,
+            day: day,
+            at: (undefined === result[6] ? 120 : TimeZone.parsePosixTime(result[6])),
+            save: save,
+            abbreviation: abbreviation,
+        };
+    }
+
+    /**
+     * Create a TimeZone from a POSIX TZ string, such as "EST5EDT,M3.2.0,M11.1.0".
+     *
+     * These are the strings found in the footer of TZif files. Note that POSIX offsets are expressed west of UTC, so
+     * "EST5" is five hours behind UTC. Where a daylight saving zone is named without rules, the current US rules are
+     * assumed.
+     *
+     * @param posix The POSIX TZ string.
+     *
+     * @return The created TimeZone.
+     * @throws TimeZoneError if the string is not a valid POSIX TZ string.
+     */
+    public static fromPosixString(posix: string): TimeZone
+    {
+        const offsetPattern = "[+-]?\\d{1,2}(?::\\d{2}(?::\\d{2})?)?";
+        const namePattern = "<[A-Za-z0-9+-]+>|[A-Za-z]{3,}";
+        const result = new RegExp(`^(${namePattern})(${offsetPattern})(?:(${namePattern})(${offsetPattern})?(?:,([^,]+),([^,]+))?)?$`).exec(posix);
+
+        if (!result) {
+            throw new TimeZoneError(`Invalid POSIX TZ string ${posix}.`);
+        }
+
+        const stripName = (name: string) => name.replace(/^<(.*)>$/, "$1");
+        const standardName = stripName(result[1]);
+        const standardOffset = -TimeZone.parsePosixTime(result[2]);
+
+        if (undefined === result[3]) {
+            return new TimeZone(standardOffset, [{from: Number.NEGATIVE_INFINITY, month: 1, day: "1", at: 0, save: 0, abbreviation: standardName}]);
+        }
+
+        const daylightSavingName = stripName(result[3]);
+        const save = (undefined === result[4] ? 60 : -TimeZone.parsePosixTime(result[4]) - standardOffset);
+
+        return new TimeZone(standardOffset, [
+            TimeZone.parsePosixRule(result[5] ?? "M3.2.0", save, daylightSavingName),
+            TimeZone.parsePosixRule(result[6] ?? "M11.1.0", 0, standardName),
+        ]);
+    }
+
     /** Convenience property to fetch a TimeZone object representing UTC. */
     public static get utc(): TimeZone
     {
@@ -0,0 +1,328 @@
+import {TimeZone, TimeZoneProvider, TimeZoneTransition} from "./TimeZone.js";
+import {TimeZoneError} from "./TimeZoneError.js";
+
+/** The part of Node's fs module used to read files. */
+interface HostFileSystem
+{
+    readFileSync?(path: string): Uint8Array;
+}
+
+/** The part of Node's process object used to load the fs module. */
+interface HostProcess
+{
+    getBuiltinModule?(id: "fs"): HostFileSystem|undefined;
+}
+
+/** Node's require(), where the host provides it. */
+declare const require: (id: "fs") => HostFileSystem|undefined;
+
+/** A function that reads the content of a file. */
+export type TzifFileReader = (path: string) => Uint8Array;
+
+/** The counts from a TZif header. */
+type TzifHeader = {
+    version: number,
+    isUtCount: number,
+    isStdCount: number,
+    leapCount: number,
+    timeCount: number,
+    typeCount: number,
+    charCount: number,
+};
+
+/** A local time type record from a TZif file. */
+type TzifLocalTimeType = {
+    offset: number,
+    isDaylightSaving: boolean,
+    abbreviation: string,
+};
+
+/**
+ * Read TimeZone objects from compiled TZif files (RFC 8536), such as those in /usr/share/zoneinfo.
+ *
+ * Versions 1, 2 and 3 of the format are supported. The transitions, local time types and abbreviations in the file
+ * become the explicit transitions of the TimeZone; the POSIX TZ string in the footer (version 2 and later) provides the
+ * rules for points in time after the last transition. Offsets are rounded to the nearest minute, since TimeZone offsets
+ * are accurate to the minute. Leap second records are ignored.
+ */
+export class TzifReader
+{
+    /** The default directory for compiled time zone data. */
+    public static readonly defaultDirectory: string = "/usr/share/zoneinfo";
+
+    /**
+     * Read a TimeZone from the content of a TZif file.
+     *
+     * @param data The content of the file.
+     *
+     * @return The TimeZone.
+     * @throws TimeZoneError if the data is not valid TZif data.
+     */
+    public static read(data: ArrayBuffer|Uint8Array): TimeZone
+    {
+        const bytes = (data instanceof Uint8Array ? data : new Uint8Array(data));
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let header = TzifReader.readHeader(view, 0);
+        let offset = 44;
+
+        if (2 <= header.version) {
+            // skip the version 1 data block and use the 64-bit data that follows it
+            offset += TzifReader.dataLength(header, 4);
+            header = TzifReader.readHeader(view, offset);
+            offset += 44;
+        }
+
+        const timeSize = (2 <= header.version ? 8 : 4);
+        TzifReader.ensureLength(view, offset + TzifReader.dataLength(header, timeSize));
+        const times: number[] = [];
+
+        for (let idx = 0; idx < header.timeCount; ++idx) {
+            times.push(TzifReader.readTime(view, offset, timeSize));
+            offset += timeSize;
+        }
+
+        const typeIndices: number[] = [];
+
+        for (let idx = 0; idx < header.timeCount; ++idx) {
+            typeIndices.push(view.getUint8(offset));
+            ++offset;
+        }
+
+        const typeOffset = offset;
+        const charOffset = typeOffset + (6 * header.typeCount);
+        const types: TzifLocalTimeType[] = [];
+
+        for (let idx = 0; idx < header.typeCount; ++idx) {
+            const abbreviationIdx = view.getUint8(typeOffset + (6 * idx) + 5);
+
+            if (abbreviationIdx >= header.charCount) {
+                throw new TimeZoneError(`Invalid TZif abbreviation index ${abbreviationIdx}.`);
+            }
+
+            types.push({
+                offset: Math.round(view.getInt32(typeOffset + (6 * idx)) / 60),
+                isDaylightSaving: 0 !== view.getUint8(typeOffset + (6 * idx) + 4),
+                abbreviation: TzifReader.readString(bytes, charOffset + abbreviationIdx, charOffset + header.charCount),
+            });
+        }
+
+        offset += TzifReader.dataLength(header, timeSize) - (header.timeCount * (timeSize + 1));
+
+        if (0 === types.length) {
+            throw new TimeZoneError("Expected at least one local time type in TZif data.");
+        }
+
+        // local time type 0 applies before the first transition
+        const transitions: TimeZoneTransition[] = [TzifReader.createTransition(Number.NEGATIVE_INFINITY, types[0])];
+
+        for (let idx = 0; idx < times.length; ++idx) {
+            if (typeIndices[idx] >= types.length) {
+                throw new TimeZoneError(`Invalid TZif local time type index ${typeIndices[idx]}.`);
+            }
+
+            transitions.push(TzifReader.createTransition(times[idx], types[typeIndices[idx]]));
+        }
+
+        const footer = (2 <= header.version ? TzifReader.readFooter(bytes, offset) : "");
+
+        if ("" !== footer) {
+            const rules = TimeZone.fromPosixString(footer);
+            return new TimeZone(rules.offset, rules.rules, transitions);
+        }
+
+        // without a footer the last transition applies indefinitely; its standard offset is the most recent non-DST one
+        let standard = transitions[transitions.length - 1];
+
+        for (let idx = transitions.length - 1; 0 <= idx; --idx) {
+            if (!transitions[idx].isDaylightSaving) {
+                standard = transitions[idx];
+                break;
+            }
+        }
+
+        return new TimeZone(standard.offset, [], transitions);
+    }
+
+    /**
+     * Read a TimeZone from a TZif file.
+     *
+     * @param path The path to the file.
+     * @param readFile The function to use to read the file. Defaults to the host's file system, where available: in
+     * Node.js, as CommonJS or, from Node.js 20.16 and 22.3, as an ES module.
+     *
+     * @return The TimeZone.
+     * @throws TimeZoneError if the file can't be read or doesn't contain valid TZif data, or no function to read it is
+     * given and the host provides no file system access.
+     */
+    public static readFile(path: string, readFile: TzifFileReader = undefined): TimeZone
+    {
+        readFile = readFile ?? TzifReader.hostFileReader();
+        let data: Uint8Array;
+
+        try {
+            data = readFile(path);
+        } catch (err) {
+            throw new TimeZoneError(`Could not read TZif file ${path}: ${err.message ?? err}`);
+        }
+
+        return TzifReader.read(data);
+    }
+
+    /**
+     * Create a TimeZone provider that resolves names to TZif files in a directory.
+     *
+     * Register the returned provider with TimeZone.addProvider() to have the TimeZone constructor resolve names such as
+     * "Europe/London" through the compiled data. Files are read on first use and cached. Names that don't resolve to a
+     * readable TZif file are left for the next provider or the built-in table.
+     *
+     * @param directory The directory containing the TZif files. Defaults to /usr/share/zoneinfo.
+     * @param readFile The function to use to read files. Defaults to the host's file system, where available: in
+     * Node.js, as CommonJS or, from Node.js 20.16 and 22.3, as an ES module.
+     *
+     * @throws TimeZoneError if no function to read files is given and the host provides no file system access.
+     */
+    public static directoryProvider(directory: string = TzifReader.defaultDirectory, readFile: TzifFileReader = undefined): TimeZoneProvider
+    {
+        const cache = new Map<string, TimeZone|undefined>();
+        readFile = readFile ?? TzifReader.hostFileReader();
+
+        return (name: string): TimeZone|undefined => {
+            if (!cache.has(name)) {
+                let timeZone: TimeZone = undefined;
+
+                // guard against names escaping the directory
+                if (/^[A-Za-z0-9_+-]+(?:\/[A-Za-z0-9_+-]+)*$/.test(name)) {
+                    try {
+                        timeZone = TzifReader.readFile(`${directory}/${name}`, readFile);
+                    } catch (err) {
+                        if (!(err instanceof TimeZoneError)) {
+                            throw err;
+                        }
+                    }
+                }
+
+                cache.set(name, timeZone);
+            }
+
+            return cache.get(name);
+        };
+    }
+
+    /**
+     * Helper to locate a file reader provided by the host.
+     *
+     * ES modules have no require(), so outside CommonJS this relies on process.getBuiltinModule(), which Node.js added in
+     * 20.16 and 22.3.
+     *
+     * @throws TimeZoneError if the host provides no file system access.
+     */
+    private static hostFileReader(): TzifFileReader
+    {
+        const process = (globalThis as {process?: HostProcess}).process;
+        let fs: HostFileSystem|undefined = undefined;
+
+        if ("function" === typeof process?.getBuiltinModule) {
+            fs = process.getBuiltinModule("fs");
+        } else if ("function" === typeof require) {
+            fs = require("fs");
+        }
+
+        if ("function" !== typeof fs?.readFileSync) {
+            throw new TimeZoneError("The host provides no file system access (ES modules need Node.js 20.16 or 22.3 or later); provide a function to read files.");
+        }
+
+        return (path: string) => fs.readFileSync(path);
+    }
+
+    /** Helper to ensure the data is at least a given number of bytes long. */
+    private static ensureLength(view: DataView, length: number): void
+    {
+        if (view.byteLength < length) {
+            throw new TimeZoneError(`Expected at least ${length} bytes of TZif data, found ${view.byteLength}.`);
+        }
+    }
+
+    /** Helper to read a TZif header at a given offset. */
+    private static readHeader(view: DataView, offset: number): TzifHeader
+    {
+        TzifReader.ensureLength(view, offset + 44);
+
+        // "TZif"
+        if (0x545a6966 !== view.getUint32(offset)) {
+            throw new TimeZoneError("Expected TZif data, found invalid magic number.");
+        }
+
+        const version = view.getUint8(offset + 4);
+
+        return {
+            version: (0 === version ? 1 : version - 0x30),
+            isUtCount: view.getUint32(offset + 20),
+            isStdCount: view.getUint32(offset + 24),
+            leapCount: view.getUint32(offset + 28),
+            timeCount: view.getUint32(offset + 32),
+            typeCount: view.getUint32(offset + 36),
+            charCount: view.getUint32(offset + 40),
+        };
+    }
+
+    /** Helper to calculate the length of the data block that follows a header. */
+    private static dataLength(header: TzifHeader, timeSize: number): number
+    {
+        return (header.timeCount * timeSize)
+            + header.timeCount
+            + (header.typeCount * 6)
+            + header.charCount
+            + (header.leapCount * (timeSize + 4))
+            + header.isStdCount
+            + header.isUtCount;
+    }
+
+    /** Helper to read a 32- or 64-bit transition time as an ECMA timestamp. */
+    private static readTime(view: DataView, offset: number, size: number): number
+    {
+        if (4 === size) {
+            return view.getInt32(offset) * 1000;
+        }
+
+        return ((view.getInt32(offset) * 0x100000000) + view.getUint32(offset + 4)) * 1000;
+    }
+
+    /** Helper to read a NUL-terminated ASCII string. */
+    private static readString(bytes: Uint8Array, start: number, end: number): string
+    {
+        let str = "";
+
+        for (let idx = start; idx < end && 0 !== bytes[idx]; ++idx) {
+            str += String.fromCharCode(bytes[idx]);
+        }
+
+        return str;
+    }
+
+    /** Helper to read the newline-enclosed POSIX TZ string footer. */
+    private static readFooter(bytes: Uint8Array, offset: number): string
+    {
+        if (offset >= bytes.length || 0x0a !== bytes[offset]) {
+            throw new TimeZoneError("Expected TZif footer.");
+        }
+
+        let str = "";
+
+        for (let idx = offset + 1; idx < bytes.length && 0x0a !== bytes[idx]; ++idx) {
+            str += String.fromCharCode(bytes[idx]);
+        }
+
+        return str;
+    }
+
+    /** Helper to create a TimeZoneTransition from a local time type. */
+    private static createTransition(timestamp: number, type: TzifLocalTimeType): TimeZoneTransition
+    {
+        return {
+            timestamp: timestamp,
+            offset: type.offset,
+            isDaylightSaving: type.isDaylightSaving,
+            abbreviation: type.abbreviation,
+        };
+    }
+}